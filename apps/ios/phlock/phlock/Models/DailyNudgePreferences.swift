@@ -0,0 +1,58 @@
+import Foundation
+
+/// When the daily "pick your song" reminder may arrive, in the user's local time
+/// Times are Postgres TIME strings ("19:00:00")
+struct DailyNudgePreferences: Codable, Equatable, Sendable {
+    var isEnabled: Bool
+    var nudgeTime: String
+    var quietHoursStart: String?
+    var quietHoursEnd: String?
+
+    enum CodingKeys: String, CodingKey {
+        case isEnabled = "daily_nudge_enabled"
+        case nudgeTime = "nudge_time"
+        case quietHoursStart = "quiet_hours_start"
+        case quietHoursEnd = "quiet_hours_end"
+    }
+
+    init(isEnabled: Bool, nudgeTime: String, quietHoursStart: String?, quietHoursEnd: String?) {
+        self.isEnabled = isEnabled
+        self.nudgeTime = nudgeTime
+        self.quietHoursStart = quietHoursStart
+        self.quietHoursEnd = quietHoursEnd
+    }
+
+    func encode(to encoder: Encoder) throws {
+        var container = encoder.container(keyedBy: CodingKeys.self)
+        try container.encode(isEnabled, forKey: .isEnabled)
+        try container.encode(nudgeTime, forKey: .nudgeTime)
+        // Encode nil as null so turning quiet hours off clears them
+        try container.encode(quietHoursStart, forKey: .quietHoursStart)
+        try container.encode(quietHoursEnd, forKey: .quietHoursEnd)
+    }
+
+    var hasQuietHours: Bool {
+        quietHoursStart != nil && quietHoursEnd != nil
+    }
+
+    // MARK: - Time Conversion
+
+    private static let formatter: DateFormatter = {
+        let formatter = DateFormatter()
+        formatter.locale = Locale(identifier: "en_US_POSIX")
+        formatter.timeZone = TimeZone.current
+        formatter.dateFormat = "HH:mm:ss"
+        return formatter
+    }()
+
+    /// Today's date at the given time, for DatePicker bindings
+    static func date(from time: String) -> Date {
+        let parts = time.split(separator: ":").compactMap { Int($0) }
+        guard parts.count >= 2 else { return Date() }
+        return Calendar.current.date(bySettingHour: parts[0], minute: parts[1], second: 0, of: Date()) ?? Date()
+    }
+
+    static func time(from date: Date) -> String {
+        formatter.string(from: date)
+    }
+}
@@ -12,6 +12,7 @@ enum NotificationType: String, Codable, Sendable {
     case shareLiked = "share_liked"
     case shareCommented = "share_commented"
     case commentLiked = "comment_liked"
+    case phlockSwapCompleted = "phlock_swap_completed"
 }
 
 /// Lightweight notification model rendered in the Notifications tab
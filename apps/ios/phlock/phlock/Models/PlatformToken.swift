@@ -13,6 +13,13 @@ struct PlatformToken: Codable, Identifiable, @unchecked Sendable {
     let scope: String
     let createdAt: Date
     let updatedAt: Date
+    /// Set by the backend when the token can't be refreshed anymore
+    let revokedAt: Date?
+
+    /// The user has to reconnect this platform before it can be used again
+    var needsReconnect: Bool {
+        revokedAt != nil
+    }
 
     enum CodingKeys: String, CodingKey {
         case id
@@ -24,5 +31,6 @@ struct PlatformToken: Codable, Identifiable, @unchecked Sendable {
         case scope
         case createdAt = "created_at"
         case updatedAt = "updated_at"
+        case revokedAt = "revoked_at"
     }
 }
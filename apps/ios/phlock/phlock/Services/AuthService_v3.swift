@@ -10,6 +10,9 @@ class AuthServiceV3 {
 
     private let supabase = PhlockSupabaseClient.shared.client
 
+    /// Last timezone written to users.timezone this session
+    private var syncedTimeZone: String?
+
     private init() {
         // Set up session listener
         Task {
@@ -448,6 +451,7 @@ class AuthServiceV3 {
             let music_platform: String
             let platform_type: String
             let platform_data: String
+            let country_code: String? // Spotify market for region-aware search
             let updated_at: String
         }
 
@@ -459,6 +463,7 @@ class AuthServiceV3 {
                     music_platform: "spotify",
                     platform_type: "spotify",
                     platform_data: platformDataJSON,
+                    country_code: profile.country?.uppercased(),
                     updated_at: ISO8601DateFormatter().string(from: Date())
                 ))
                 .eq("id", value: user.id.uuidString)
@@ -495,6 +500,8 @@ class AuthServiceV3 {
         // Fetch Apple Music data
         let recentTracksWithArtists = try await AppleMusicService.shared.getRecentlyPlayed()
         let topArtistsResult = try await AppleMusicService.shared.getTopArtists(limit: 10)
+        // Storefront is used as the user's region for catalog lookups; not fatal if unavailable
+        let storefront = try? await AppleMusicService.shared.getStorefront()
 
         // Convert recently played to MusicItem array (top tracks)
         let topTracks = recentTracksWithArtists.prefix(20).map { item in
@@ -554,7 +561,7 @@ class AuthServiceV3 {
             spotifyCountry: nil,
             spotifyProduct: nil,
             appleMusicUserId: userToken,
-            appleMusicStorefront: nil,
+            appleMusicStorefront: storefront,
             topArtists: Array(topArtists),
             topTracks: Array(topTracks)
         )
@@ -568,6 +575,7 @@ class AuthServiceV3 {
             let music_platform: String
             let platform_type: String
             let platform_data: String
+            let country_code: String?
             let updated_at: String
         }
 
@@ -578,6 +586,7 @@ class AuthServiceV3 {
                 music_platform: "apple_music",
                 platform_type: "apple_music",
                 platform_data: platformDataJSON,
+                country_code: storefront?.uppercased(),
                 updated_at: ISO8601DateFormatter().string(from: Date())
             ))
             .eq("id", value: user.id.uuidString)
@@ -630,9 +639,10 @@ class AuthServiceV3 {
             updated_at: ISO8601DateFormatter().string(from: Date())
         )
 
+        // One row per user and platform; reconnecting replaces it (and clears any revocation)
         try await supabase
             .from("platform_tokens")
-            .upsert(payload)
+            .upsert(payload, onConflict: "user_id,platform_type")
             .execute()
     }
 
@@ -748,6 +758,64 @@ class AuthServiceV3 {
         print("✅ Music platform preference set to: \(platform)")
     }
 
+    /// Get when the daily reminder to pick a song may arrive
+    func getDailyNudgePreferences() async throws -> DailyNudgePreferences {
+        guard let user = try await currentUser else {
+            throw AuthError.noUser
+        }
+
+        return try await supabase
+            .from("users")
+            .select("daily_nudge_enabled, nudge_time, quiet_hours_start, quiet_hours_end")
+            .eq("id", value: user.id.uuidString)
+            .single()
+            .execute()
+            .value
+    }
+
+    /// Update the daily reminder's time and quiet hours (local time)
+    func setDailyNudgePreferences(_ preferences: DailyNudgePreferences) async throws {
+        guard let user = try await currentUser else {
+            throw AuthError.noUser
+        }
+
+        try await supabase
+            .from("users")
+            .update(preferences)
+            .eq("id", value: user.id.uuidString)
+            .execute()
+
+        print("✅ Daily nudge preferences updated")
+    }
+
+    /// Keep users.timezone in step with the device so daily songs, streaks and
+    /// scheduled swaps turn over at the user's local midnight
+    func syncTimeZone(userId: UUID) async {
+        let identifier = TimeZone.current.identifier
+        guard identifier != syncedTimeZone else { return }
+
+        struct UpdatePayload: Encodable {
+            let timezone: String
+            let updated_at: String
+        }
+
+        do {
+            try await supabase
+                .from("users")
+                .update(UpdatePayload(
+                    timezone: identifier,
+                    updated_at: ISO8601DateFormatter().string(from: Date())
+                ))
+                .eq("id", value: userId.uuidString)
+                .execute()
+
+            syncedTimeZone = identifier
+            print("✅ Timezone synced: \(identifier)")
+        } catch {
+            print("❌ Failed to sync timezone: \(error)")
+        }
+    }
+
     // MARK: - Sign Out
 
     func signOut() async throws {
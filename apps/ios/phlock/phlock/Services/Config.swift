@@ -51,7 +51,8 @@ enum Config {
         "user-read-currently-playing",
         "user-read-recently-played",
         "user-library-read",
-        "user-library-modify"
+        "user-library-modify",
+        "playlist-modify-private"
     ]
 
     // MARK: - Apple Music Configuration
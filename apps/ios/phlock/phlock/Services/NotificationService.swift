@@ -661,6 +661,9 @@ class NotificationService: ObservableObject {
             case .commentLiked:
                 title = "\(actorMention) liked your comment"
                 body = "Tap to view"
+            case .phlockSwapCompleted:
+                title = "Phlock updated"
+                body = "\(actorMention) is now in your phlock"
             }
 
             // Build deep link data
@@ -224,8 +224,8 @@ class PushNotificationService: NSObject, ObservableObject {
         case "daily_nudge":
             NotificationCenter.default.post(name: .navigateToSongPicker, object: nil)
 
-        // Phlock song ready - navigate to phlock feed
-        case "phlock_song_ready":
+        // Phlock song ready / scheduled swap took effect - navigate to phlock feed
+        case "phlock_song_ready", "phlock_swap_completed":
             NotificationCenter.default.post(name: .navigateToPhlock, object: nil)
 
         // Streak milestone - navigate to profile
@@ -72,51 +72,36 @@ class SearchService {
     private func searchSpotifyTracks(query: String) async throws -> [MusicItem] {
         struct TrackSearchRequest: Encodable {
             let query: String
+            let musicPlatform: String
             let limit: Int
+
+            enum CodingKeys: String, CodingKey {
+                case query, limit
+                case musicPlatform = "music_platform"
+            }
         }
 
         struct TrackSearchResponse: Decodable {
-            let tracks: [SpotifyTrack]
+            let tracks: [UnifiedTrack]
         }
 
-        struct SpotifyTrack: Decodable {
+        // Normalized shape from search-tracks (includes the Apple Music ID when linked by ISRC)
+        struct UnifiedTrack: Decodable {
             let id: String
             let name: String
-            let artists: [SpotifyArtist]
-            let album: SpotifyAlbum
+            let artistName: String
+            let albumArtUrl: String?
             let previewUrl: String?
-            let externalIds: ExternalIds?
+            let isrc: String?
+            let spotifyId: String?
+            let appleMusicId: String?
             let popularity: Int?
-
-            struct SpotifyArtist: Decodable {
-                let name: String
-            }
-
-            struct SpotifyAlbum: Decodable {
-                let images: [SpotifyImage]
-            }
-
-            struct SpotifyImage: Decodable {
-                let url: String
-                let height: Int?
-                let width: Int?
-            }
-
-            struct ExternalIds: Decodable {
-                let isrc: String?
-            }
-
-            enum CodingKeys: String, CodingKey {
-                case id, name, artists, album, popularity
-                case previewUrl = "preview_url"
-                case externalIds = "external_ids"
-            }
         }
 
-        let request = TrackSearchRequest(query: query, limit: 20)
+        let request = TrackSearchRequest(query: query, musicPlatform: "spotify", limit: 20)
 
         let response: TrackSearchResponse = try await invokeWithRetry(
-            function: "search-spotify-tracks",
+            function: "search-tracks",
             body: request
         )
 
@@ -124,13 +109,13 @@ class SearchService {
             MusicItem(
                 id: track.id,
                 name: track.name,
-                artistName: track.artists.first?.name,
+                artistName: track.artistName,
                 previewUrl: track.previewUrl,
-                albumArtUrl: track.album.images.first?.url,
-                isrc: track.externalIds?.isrc,
+                albumArtUrl: track.albumArtUrl,
+                isrc: track.isrc,
                 playedAt: nil,
-                spotifyId: track.id,
-                appleMusicId: nil,
+                spotifyId: track.spotifyId ?? track.id,
+                appleMusicId: track.appleMusicId,
                 popularity: track.popularity
             )
         }
@@ -405,7 +390,7 @@ class SearchService {
                 .execute()
                 .value
 
-            guard let token = tokens.first else {
+            guard let token = tokens.first, !token.needsReconnect else {
                 throw NSError(domain: "SearchService", code: -1, userInfo: [NSLocalizedDescriptionKey: "No Spotify token found. Please reconnect Spotify in Settings."])
             }
 
@@ -560,12 +545,18 @@ class SearchService {
     func getArtistTopTracks(artistId: String, artistName: String? = nil, platformType: PlatformType) async throws -> [MusicItem] {
         switch platformType {
         case .spotify:
-            return try await getSpotifyArtistTopTracks(artistId: artistId)
+            return try await fetchArtistTopTracks(artistId: artistId, platformType: .spotify)
         case .appleMusic:
-            return try await appleMusicService.getArtistTopTracks(
-                artistId: artistId,
-                artistName: artistName
-            )
+            do {
+                return try await fetchArtistTopTracks(artistId: artistId, platformType: .appleMusic)
+            } catch {
+                // MusicKit can still search by artist name when the catalog lookup fails
+                print("⚠️ Apple Music top tracks edge function failed, using MusicKit: \(error.localizedDescription)")
+                return try await appleMusicService.getArtistTopTracks(
+                    artistId: artistId,
+                    artistName: artistName
+                )
+            }
         }
     }
 
@@ -598,7 +589,8 @@ class SearchService {
             let previewUrl: String?
             let albumArtUrl: String
             let isrc: String?
-            let spotifyId: String
+            let spotifyId: String?  // Nil for tracks from Apple Music sources
+            let appleMusicId: String?
         }
     }
 
@@ -697,7 +689,7 @@ class SearchService {
                     isrc: track.isrc,
                     playedAt: nil,
                     spotifyId: track.spotifyId,
-                    appleMusicId: nil,
+                    appleMusicId: track.appleMusicId,
                     popularity: nil
                 )
             }
@@ -731,7 +723,8 @@ class SearchService {
 
     // MARK: - Artist Top Tracks
 
-    private func getSpotifyArtistTopTracks(artistId: String) async throws -> [MusicItem] {
+    /// Both platforms' top-tracks functions return the same Spotify-style track shape
+    private func fetchArtistTopTracks(artistId: String, platformType: PlatformType) async throws -> [MusicItem] {
         struct ArtistTopTracksRequest: Encodable {
             let artistId: String
         }
@@ -776,7 +769,7 @@ class SearchService {
 
         let request = ArtistTopTracksRequest(artistId: artistId)
         let response: ArtistTopTracksResponse = try await supabase.functions.invoke(
-            "get-artist-top-tracks",
+            platformType == .spotify ? "get-artist-top-tracks" : "get-apple-music-artist-top-tracks",
             options: FunctionInvokeOptions(body: request)
         )
 
@@ -789,8 +782,8 @@ class SearchService {
                 albumArtUrl: track.album.images.first?.url,
                 isrc: track.externalIds?.isrc,
                 playedAt: nil,
-                spotifyId: track.id,
-                appleMusicId: nil,
+                spotifyId: platformType == .spotify ? track.id : nil,
+                appleMusicId: platformType == .appleMusic ? track.id : nil,
                 popularity: track.popularity
             )
         }
@@ -585,6 +585,9 @@ class SpotifyService: NSObject {
         guard let token = tokens.first else {
             throw SpotifyError.apiError("No Spotify token found for user")
         }
+        guard !token.needsReconnect else {
+            throw SpotifyError.apiError("Spotify access expired. Reconnect Spotify in Settings.")
+        }
 
         try await saveTrackToLibrary(trackId: trackId, accessToken: token.accessToken)
     }
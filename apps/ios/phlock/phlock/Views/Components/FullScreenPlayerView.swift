@@ -1030,7 +1030,8 @@ struct FullScreenPlayerView: View {
                     tokenExpiresAt: newExpiresAt,
                     scope: token.scope,
                     createdAt: token.createdAt,
-                    updatedAt: now
+                    updatedAt: now,
+                    revokedAt: nil
                 )
             }
         }
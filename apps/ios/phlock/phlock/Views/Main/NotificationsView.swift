@@ -564,6 +564,8 @@ private struct NotificationRowView: View {
                 shareCommentedText
             case .commentLiked:
                 commentLikedText
+            case .phlockSwapCompleted:
+                swapCompletedText
             }
         }
     }
@@ -599,13 +601,27 @@ private struct NotificationRowView: View {
         }
     }
 
-    private var nudgeText: some View {
+    private var swapCompletedText: some View {
         HStack(spacing: 0) {
-            (boldText(actorNames) + regularText(" nudged you to pick today's song. ") + timestampText)
+            // The scheduler writes the full sentence ("@maya took @sam's spot in your phlock")
+            (regularText("\(notification.message ?? "your phlock was updated"). ") + timestampText)
                 .lineLimit(2)
         }
     }
 
+    private var nudgeText: some View {
+        HStack(spacing: 0) {
+            if actors.isEmpty {
+                // Scheduled reminder (send-daily-nudges) rather than a phlock member's nudge
+                (regularText("\(notification.message ?? "time to pick today's song"). ") + timestampText)
+                    .lineLimit(2)
+            } else {
+                (boldText(actorNames) + regularText(" nudged you to pick today's song. ") + timestampText)
+                    .lineLimit(2)
+            }
+        }
+    }
+
     private var followerText: some View {
         HStack(spacing: 0) {
             (boldText(actorNames) + regularText(" started following you. ") + timestampText)
@@ -720,7 +736,7 @@ private struct NotificationRowView: View {
     @ViewBuilder
     private var notificationIcon: some View {
         switch notification.type {
-        case .dailyNudge, .newFollower, .followRequestReceived, .followRequestAccepted, .friendJoined, .phlockSongReady, .shareLiked, .shareCommented, .commentLiked:
+        case .dailyNudge, .newFollower, .followRequestReceived, .followRequestAccepted, .friendJoined, .phlockSongReady, .shareLiked, .shareCommented, .commentLiked, .phlockSwapCompleted:
             if let actor = primaryActor {
                 VStack(spacing: 0) {
                     if let urlString = actor.profilePhotoUrl, let url = URL(string: urlString) {
@@ -805,7 +821,7 @@ private struct NotificationRowView: View {
             }
             .buttonStyle(.plain)
 
-        case .streakMilestone, .shareLiked, .shareCommented, .commentLiked:
+        case .streakMilestone, .shareLiked, .shareCommented, .commentLiked, .phlockSwapCompleted:
             EmptyView()
         }
     }
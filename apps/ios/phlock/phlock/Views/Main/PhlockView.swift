@@ -1122,7 +1122,8 @@ struct PhlockView: View {
                         tokenExpiresAt: newExpiresAt,
                         scope: token.scope,
                         createdAt: token.createdAt,
-                        updatedAt: now
+                        updatedAt: now,
+                        revokedAt: nil
                     )
                 }
             }
@@ -13,6 +13,12 @@ struct SettingsView: View {
     @State private var showMusicPlatformSheet = false
     @State private var showAppleMusicSettingsAlert = false
     @State private var isConnectingMusic = false
+    @State private var nudgeEnabled = true
+    @State private var nudgeTime = DailyNudgePreferences.date(from: "19:00:00")
+    @State private var quietHoursEnabled = false
+    @State private var quietHoursStart = DailyNudgePreferences.date(from: "22:00:00")
+    @State private var quietHoursEnd = DailyNudgePreferences.date(from: "08:00:00")
+    @State private var savedNudgePreferences: DailyNudgePreferences?
 
     // Legal URLs - these must be hosted before TestFlight submission
     private let privacyPolicyURL = URL(string: "https://phlock.app/privacy")!
@@ -101,6 +107,64 @@ struct SettingsView: View {
                         .font(.lora(size: 12))
                 }
 
+                // Daily Reminder Section
+                Section {
+                    Toggle(isOn: $nudgeEnabled) {
+                        VStack(alignment: .leading, spacing: 4) {
+                            Text("Daily Reminder")
+                                .font(.lora(size: 16))
+                            Text("A nudge if you haven't picked a song yet")
+                                .font(.lora(size: 12))
+                                .foregroundColor(.secondary)
+                        }
+                    }
+
+                    if nudgeEnabled {
+                        DatePicker(selection: $nudgeTime, displayedComponents: .hourAndMinute) {
+                            Text("Remind me at")
+                                .font(.lora(size: 16))
+                        }
+
+                        Toggle(isOn: $quietHoursEnabled) {
+                            Text("Quiet Hours")
+                                .font(.lora(size: 16))
+                        }
+
+                        if quietHoursEnabled {
+                            DatePicker(selection: $quietHoursStart, displayedComponents: .hourAndMinute) {
+                                Text("From")
+                                    .font(.lora(size: 16))
+                            }
+                            DatePicker(selection: $quietHoursEnd, displayedComponents: .hourAndMinute) {
+                                Text("To")
+                                    .font(.lora(size: 16))
+                            }
+                        }
+                    }
+                } header: {
+                    Text("Notifications")
+                        .font(.lora(size: 12))
+                } footer: {
+                    Text("If the reminder time falls in your quiet hours, it arrives when they end.")
+                        .font(.lora(size: 12))
+                }
+                .disabled(isLoadingUser)
+                .onChange(of: nudgeEnabled) { _ in
+                    Task { await updateNudgePreferences() }
+                }
+                .onChange(of: nudgeTime) { _ in
+                    Task { await updateNudgePreferences() }
+                }
+                .onChange(of: quietHoursEnabled) { _ in
+                    Task { await updateNudgePreferences() }
+                }
+                .onChange(of: quietHoursStart) { _ in
+                    Task { await updateNudgePreferences() }
+                }
+                .onChange(of: quietHoursEnd) { _ in
+                    Task { await updateNudgePreferences() }
+                }
+
                 Section {
                     Link(destination: privacyPolicyURL) {
                         HStack {
@@ -261,11 +325,43 @@ struct SettingsView: View {
             if let user = currentUser {
                 isPrivate = user.isPrivate
             }
+
+            let preferences = try await AuthServiceV3.shared.getDailyNudgePreferences()
+            savedNudgePreferences = preferences
+            nudgeEnabled = preferences.isEnabled
+            nudgeTime = DailyNudgePreferences.date(from: preferences.nudgeTime)
+            quietHoursEnabled = preferences.hasQuietHours
+            if let start = preferences.quietHoursStart, let end = preferences.quietHoursEnd {
+                quietHoursStart = DailyNudgePreferences.date(from: start)
+                quietHoursEnd = DailyNudgePreferences.date(from: end)
+            }
         } catch {
             print("⚠️ Failed to load current user: \(error)")
         }
     }
 
+    private func updateNudgePreferences() async {
+        // Skip changes made while loading the saved preferences
+        guard !isLoadingUser else { return }
+
+        let preferences = DailyNudgePreferences(
+            isEnabled: nudgeEnabled,
+            nudgeTime: DailyNudgePreferences.time(from: nudgeTime),
+            quietHoursStart: quietHoursEnabled ? DailyNudgePreferences.time(from: quietHoursStart) : nil,
+            quietHoursEnd: quietHoursEnabled ? DailyNudgePreferences.time(from: quietHoursEnd) : nil
+        )
+
+        // Skip if nothing changed from the saved preferences
+        guard preferences != savedNudgePreferences else { return }
+
+        do {
+            try await AuthServiceV3.shared.setDailyNudgePreferences(preferences)
+            savedNudgePreferences = preferences
+        } catch {
+            deleteError = error.localizedDescription
+        }
+    }
+
     private func updatePrivacySetting(_ newValue: Bool) async {
         // Skip if we're still loading the initial value
         guard !isLoadingUser else { return }
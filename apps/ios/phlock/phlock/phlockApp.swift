@@ -141,11 +141,16 @@ struct phlockApp: App {
                 }
                 .onChange(of: scenePhase) { newPhase in
                     if newPhase == .active {
-                        // Only check clipboard when user is fully signed in (not during splash/onboarding)
+                        // Only check clipboard and sync timezone when user is fully signed in (not during splash/onboarding)
                         if authState.isAuthenticated && !authState.isLoading {
                             Task {
                                 await clipboardService.checkClipboard(userId: authState.currentUser?.id)
                             }
+                            if let userId = authState.currentUser?.id {
+                                Task {
+                                    await AuthServiceV3.shared.syncTimeZone(userId: userId)
+                                }
+                            }
                         }
                     }
                 }
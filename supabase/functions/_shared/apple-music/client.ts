@@ -0,0 +1,348 @@
+// Shared Apple Music Catalog API + iTunes Search API client for edge functions.
+// Catalog requests use a minted developer token (see token.ts); the iTunes
+// endpoints are public and used as fallbacks when the catalog has no match.
+
+import { fetchWithRetry } from "../http.ts";
+import {
+  AppleMusicAuthError,
+  AppleMusicError,
+  AppleMusicNotFoundError,
+  AppleMusicRateLimitError,
+  AppleMusicUnavailableError,
+} from "./errors.ts";
+import { canMintDeveloperToken, getDeveloperToken, invalidateDeveloperToken } from "./token.ts";
+import type {
+  AppleMusicAlbum,
+  AppleMusicArtist,
+  AppleMusicArtwork,
+  AppleMusicChart,
+  AppleMusicLibraryPlaylist,
+  AppleMusicLibrarySong,
+  AppleMusicSong,
+  CatalogOptions,
+  ITunesTrack,
+} from "./types.ts";
+
+const APPLE_MUSIC_API_URL = "https://api.music.apple.com/v1";
+const ITUNES_API_URL = "https://itunes.apple.com";
+
+export const DEFAULT_STOREFRONT = "us";
+
+type QueryParams = Record<string, string | number | undefined>;
+
+function buildUrl(base: string, params: QueryParams): string {
+  const url = new URL(base);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  return url.toString();
+}
+
+async function toAppleMusicError(response: Response): Promise<AppleMusicError> {
+  const errorText = await response.text();
+  console.error(`Apple Music API error ${response.status}:`, errorText);
+
+  if (response.status === 401 || response.status === 403) {
+    return new AppleMusicAuthError();
+  }
+  if (response.status === 404) {
+    return new AppleMusicNotFoundError();
+  }
+  if (response.status === 429) {
+    return new AppleMusicRateLimitError();
+  }
+  if (response.status >= 500) {
+    return new AppleMusicUnavailableError();
+  }
+  return new AppleMusicError(`Apple Music request failed (${response.status})`, response.status);
+}
+
+/**
+ * GET a catalog path. On 401/403 a freshly minted token is tried once before
+ * giving up (not possible with a static token, which just fails).
+ */
+async function get<T>(path: string, params: QueryParams = {}): Promise<T> {
+  const url = buildUrl(`${APPLE_MUSIC_API_URL}${path}`, params);
+
+  for (let attempt = 0; ; attempt++) {
+    const token = await getDeveloperToken();
+    const response = await fetchWithRetry(url, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if ((response.status === 401 || response.status === 403) && attempt === 0 && canMintDeveloperToken()) {
+      console.log("Apple Music rejected developer token, minting a new one...");
+      await response.body?.cancel();
+      invalidateDeveloperToken();
+      continue;
+    }
+
+    if (!response.ok) {
+      throw await toAppleMusicError(response);
+    }
+
+    return await response.json();
+  }
+}
+
+function catalogPath(storefront: string | undefined, path: string): string {
+  return `/catalog/${encodeURIComponent(storefront || DEFAULT_STOREFRONT)}${path}`;
+}
+
+async function searchSongs(term: string, options: CatalogOptions = {}): Promise<AppleMusicSong[]> {
+  const data = await get<{ results: { songs?: { data: AppleMusicSong[] } } }>(
+    catalogPath(options.storefront, "/search"),
+    { term, types: "songs", limit: options.limit, offset: options.offset }
+  );
+  return data.results?.songs?.data ?? [];
+}
+
+async function searchArtists(term: string, options: CatalogOptions = {}): Promise<AppleMusicArtist[]> {
+  const data = await get<{ results: { artists?: { data: AppleMusicArtist[] } } }>(
+    catalogPath(options.storefront, "/search"),
+    { term, types: "artists", limit: options.limit, offset: options.offset }
+  );
+  return data.results?.artists?.data ?? [];
+}
+
+async function getSong(songId: string, options: CatalogOptions = {}): Promise<AppleMusicSong | null> {
+  try {
+    const data = await get<{ data: AppleMusicSong[] }>(
+      catalogPath(options.storefront, `/songs/${encodeURIComponent(songId)}`)
+    );
+    return data.data?.[0] ?? null;
+  } catch (error) {
+    if (error instanceof AppleMusicNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function getSongsByISRC(isrc: string, options: CatalogOptions = {}): Promise<AppleMusicSong[]> {
+  const data = await get<{ data: AppleMusicSong[] }>(
+    catalogPath(options.storefront, "/songs"),
+    { "filter[isrc]": isrc }
+  );
+  return data.data ?? [];
+}
+
+async function getAlbum(albumId: string, options: CatalogOptions = {}): Promise<AppleMusicAlbum | null> {
+  try {
+    const data = await get<{ data: AppleMusicAlbum[] }>(
+      catalogPath(options.storefront, `/albums/${encodeURIComponent(albumId)}`)
+    );
+    return data.data?.[0] ?? null;
+  } catch (error) {
+    if (error instanceof AppleMusicNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** A page of an album's tracks, for albums longer than the tracks embedded by getAlbum */
+async function getAlbumTracks(
+  albumId: string,
+  options: CatalogOptions = {}
+): Promise<{ data: AppleMusicSong[]; next?: string }> {
+  return await get<{ data: AppleMusicSong[]; next?: string }>(
+    catalogPath(options.storefront, `/albums/${encodeURIComponent(albumId)}/tracks`),
+    { limit: options.limit, offset: options.offset }
+  );
+}
+
+async function getArtist(artistId: string, options: CatalogOptions = {}): Promise<AppleMusicArtist | null> {
+  try {
+    const data = await get<{ data: AppleMusicArtist[] }>(
+      catalogPath(options.storefront, `/artists/${encodeURIComponent(artistId)}`)
+    );
+    return data.data?.[0] ?? null;
+  } catch (error) {
+    if (error instanceof AppleMusicNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** An artist relationship view, e.g. "top-songs", "latest-release", "full-albums", "singles" */
+async function getArtistView<T>(artistId: string, view: string, options: CatalogOptions = {}): Promise<T[]> {
+  const data = await get<{ data: T[] }>(
+    catalogPath(options.storefront, `/artists/${encodeURIComponent(artistId)}/view/${encodeURIComponent(view)}`),
+    { limit: options.limit, offset: options.offset }
+  );
+  return data.data ?? [];
+}
+
+/** An artist's most popular songs (the catalog `view=top-songs` relationship view) */
+function getArtistTopSongs(artistId: string, options: CatalogOptions = {}): Promise<AppleMusicSong[]> {
+  return getArtistView<AppleMusicSong>(artistId, "top-songs", options);
+}
+
+async function getArtistAlbums(artistId: string, options: CatalogOptions = {}): Promise<AppleMusicAlbum[]> {
+  const data = await get<{ data: AppleMusicAlbum[] }>(
+    catalogPath(options.storefront, `/artists/${encodeURIComponent(artistId)}/albums`),
+    { limit: options.limit, offset: options.offset }
+  );
+  return data.data ?? [];
+}
+
+/** A page of a catalog playlist's tracks (editorial or curator playlists, IDs like "pl.…") */
+async function getPlaylistTracks(
+  playlistId: string,
+  options: CatalogOptions = {}
+): Promise<{ data: AppleMusicSong[]; next?: string }> {
+  return await get<{ data: AppleMusicSong[]; next?: string }>(
+    catalogPath(options.storefront, `/playlists/${encodeURIComponent(playlistId)}/tracks`),
+    { limit: options.limit, offset: options.offset }
+  );
+}
+
+async function getChart(
+  chart: string,
+  options: CatalogOptions = {}
+): Promise<AppleMusicChart<AppleMusicSong> | null> {
+  const data = await get<{ results: { songs?: AppleMusicChart<AppleMusicSong>[] } }>(
+    catalogPath(options.storefront, "/charts"),
+    { types: "songs", chart, limit: options.limit, offset: options.offset }
+  );
+  return data.results?.songs?.[0] ?? null;
+}
+
+/** Apple Music Catalog API (requires a developer token) */
+export const appleMusic = {
+  get,
+  searchSongs,
+  searchArtists,
+  getSong,
+  getSongsByISRC,
+  getAlbum,
+  getAlbumTracks,
+  getArtist,
+  getArtistView,
+  getArtistTopSongs,
+  getArtistAlbums,
+  getPlaylistTracks,
+  getChart,
+};
+
+/**
+ * Apple Music API for one user's library and listening history. Needs the user's
+ * Music User Token (from MusicKit on the device) alongside our developer token.
+ * Apple only lets apps create library playlists and append to them; tracks can't
+ * be removed.
+ */
+export function createAppleMusicLibraryClient(musicUserToken: string) {
+  async function request<T>(method: string, path: string, params: QueryParams = {}, body?: unknown): Promise<T> {
+    const token = await getDeveloperToken();
+    const response = await fetchWithRetry(buildUrl(`${APPLE_MUSIC_API_URL}/me${path}`, params), {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Music-User-Token": musicUserToken,
+        "Content-Type": "application/json",
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      await response.body?.cancel();
+      throw new AppleMusicAuthError("Apple Music access expired. Reconnect Apple Music and try again.");
+    }
+    if (!response.ok) {
+      throw await toAppleMusicError(response);
+    }
+
+    return response.status === 204 ? undefined as T : await response.json();
+  }
+
+  async function getPlaylists(options: { limit?: number; offset?: number } = {}): Promise<AppleMusicLibraryPlaylist[]> {
+    const data = await request<{ data: AppleMusicLibraryPlaylist[] }>(
+      "GET",
+      "/library/playlists",
+      { limit: options.limit, offset: options.offset }
+    );
+    return data.data ?? [];
+  }
+
+  async function createPlaylist(
+    details: { name: string; description?: string },
+    songIds: string[] = []
+  ): Promise<AppleMusicLibraryPlaylist> {
+    const data = await request<{ data: AppleMusicLibraryPlaylist[] }>("POST", "/library/playlists", {}, {
+      attributes: { name: details.name, description: details.description },
+      relationships: songIds.length > 0
+        ? { tracks: { data: songIds.map((id) => ({ id, type: "songs" })) } }
+        : undefined,
+    });
+    return data.data[0];
+  }
+
+  async function addPlaylistTracks(playlistId: string, songIds: string[]): Promise<void> {
+    await request<void>("POST", `/library/playlists/${encodeURIComponent(playlistId)}/tracks`, {}, {
+      data: songIds.map((id) => ({ id, type: "songs" })),
+    });
+  }
+
+  /** Recently played songs, newest first (Apple pages these 10 at a time) */
+  async function getRecentlyPlayedTracks(options: { limit?: number; offset?: number } = {}): Promise<AppleMusicSong[]> {
+    const data = await request<{ data: AppleMusicSong[] }>(
+      "GET",
+      "/recent/played/tracks",
+      { limit: options.limit, offset: options.offset, types: "songs" }
+    );
+    return data.data ?? [];
+  }
+
+  async function getLibrarySongs(options: { limit?: number; offset?: number } = {}): Promise<AppleMusicLibrarySong[]> {
+    const data = await request<{ data: AppleMusicLibrarySong[] }>(
+      "GET",
+      "/library/songs",
+      { limit: options.limit, offset: options.offset }
+    );
+    return data.data ?? [];
+  }
+
+  return { getPlaylists, createPlaylist, addPlaylistTracks, getRecentlyPlayedTracks, getLibrarySongs };
+}
+
+async function getITunes(path: string, params: QueryParams): Promise<ITunesTrack[]> {
+  const response = await fetchWithRetry(buildUrl(`${ITUNES_API_URL}${path}`, params), {
+    headers: { Accept: "application/json" },
+  });
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new AppleMusicError(`iTunes request failed (${response.status})`, response.status);
+  }
+
+  const data = await response.json();
+  return data.results ?? [];
+}
+
+/** Public iTunes Search/Lookup API (no token; used as a fallback) */
+export const itunes = {
+  lookupByISRC(isrc: string, options: { limit?: number; country?: string } = {}): Promise<ITunesTrack[]> {
+    return getITunes("/lookup", { isrc, entity: "song", limit: options.limit ?? 1, country: options.country });
+  },
+  searchSongs(term: string, options: { limit?: number; country?: string } = {}): Promise<ITunesTrack[]> {
+    return getITunes("/search", {
+      term,
+      media: "music",
+      entity: "song",
+      limit: options.limit,
+      country: options.country,
+    });
+  },
+};
+
+/** Fill in an artwork URL template at the requested size */
+export function artworkUrl(artwork: AppleMusicArtwork | undefined, size = 300): string | null {
+  return artwork?.url?.replace("{w}", String(size)).replace("{h}", String(size)) ?? null;
+}
@@ -0,0 +1,50 @@
+// Typed errors thrown by the shared Apple Music / iTunes client.
+// Messages are user-facing: edge functions pass error.message straight to the app.
+
+export class AppleMusicError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "AppleMusicError";
+    this.status = status;
+  }
+}
+
+/** Neither signing credentials nor a static developer token are configured */
+export class AppleMusicConfigError extends AppleMusicError {
+  constructor(message = "Apple Music developer token not configured") {
+    super(message, 500);
+    this.name = "AppleMusicConfigError";
+  }
+}
+
+/** Apple rejected the developer token, even after minting a fresh one */
+export class AppleMusicAuthError extends AppleMusicError {
+  constructor(message = "Apple Music authentication failed. Please try again.") {
+    super(message, 401);
+    this.name = "AppleMusicAuthError";
+  }
+}
+
+export class AppleMusicRateLimitError extends AppleMusicError {
+  constructor() {
+    super("Too many requests. Please wait a moment and try again.", 429);
+    this.name = "AppleMusicRateLimitError";
+  }
+}
+
+export class AppleMusicNotFoundError extends AppleMusicError {
+  constructor(message = "Not found on Apple Music") {
+    super(message, 404);
+    this.name = "AppleMusicNotFoundError";
+  }
+}
+
+/** Apple returned a 5xx */
+export class AppleMusicUnavailableError extends AppleMusicError {
+  constructor() {
+    super("Apple Music is temporarily unavailable. Please try again.", 503);
+    this.name = "AppleMusicUnavailableError";
+  }
+}
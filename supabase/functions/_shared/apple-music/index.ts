@@ -0,0 +1,6 @@
+export * from "./client.ts";
+export * from "./errors.ts";
+export * from "./previews.ts";
+export * from "./token.ts";
+export * from "./tracks.ts";
+export * from "./types.ts";
@@ -0,0 +1,189 @@
+// Preview URL resolution through Apple Music, used when Spotify has no preview_url
+// (or a stored preview has died). Tries the catalog by ISRC, then iTunes by ISRC,
+// then an iTunes text search.
+
+import { appleMusic, DEFAULT_STOREFRONT, itunes } from "./client.ts";
+import { AppleMusicConfigError } from "./errors.ts";
+
+export interface ApplePreview {
+  url: string;
+  appleMusicId: string;
+  // Only ISRC matches are trusted enough to link the Apple Music ID in the catalog
+  matchedBy: "isrc" | "search";
+}
+
+/**
+ * Search Apple Music Catalog API by ISRC for exact track matching
+ * Uses Developer Token for server-side authentication (no user permission needed)
+ * Falls back to iTunes Search API if developer token is not available
+ * Returns the preview URL along with the matched Apple Music song ID
+ * `storefront` is the user's region (lower-case country code, also used for iTunes)
+ */
+export async function getAppleMusicPreview(
+  isrc: string,
+  trackName: string,
+  artistName: string,
+  storefront: string = DEFAULT_STOREFRONT
+): Promise<ApplePreview | null> {
+  // First try Apple Music Catalog API with ISRC (most accurate)
+  if (isrc) {
+    const catalogPreview = await getAppleMusicPreviewByISRC(isrc, artistName, storefront);
+    if (catalogPreview) {
+      return catalogPreview;
+    }
+
+    // Try iTunes API with ISRC as fallback (also very accurate)
+    const itunesIsrcPreview = await getAppleMusicPreviewByISRC_iTunes(isrc, artistName, storefront);
+    if (itunesIsrcPreview) {
+      return itunesIsrcPreview;
+    }
+  }
+
+  // Fall back to iTunes Search API (text-based, less accurate)
+  return getAppleMusicPreviewBySearch(trackName, artistName, storefront);
+}
+
+/**
+ * Search Apple Music Catalog API by ISRC for 100% accurate matching
+ * Uses the shared Apple Music client (minted developer token)
+ */
+async function getAppleMusicPreviewByISRC(isrc: string, expectedArtistName: string, storefront: string): Promise<ApplePreview | null> {
+  // Helper to clean artist name
+  const cleanArtistName = (name: string) => name.split(/\s+(?:ft\.|feat\.|featuring|&)\s+/i)[0].toLowerCase().trim();
+  const targetCleanArtist = cleanArtistName(expectedArtistName);
+
+  try {
+    const songs = await appleMusic.getSongsByISRC(isrc, { storefront });
+    const song = songs[0];
+
+    if (song?.attributes?.previews?.[0]?.url) {
+      // Verify artist match
+      const resultArtist = song.attributes.artistName ?? "";
+      const resultCleanArtist = cleanArtistName(resultArtist);
+
+      if (resultCleanArtist === targetCleanArtist) {
+        console.log(`✅ Found Apple Music preview via ISRC ${isrc}: ${song.attributes.name}`);
+        return { url: song.attributes.previews[0].url, appleMusicId: song.id, matchedBy: "isrc" };
+      } else {
+        console.log(`⚠️ Apple Music ISRC match rejected due to artist mismatch: '${resultCleanArtist}' vs '${targetCleanArtist}'`);
+      }
+    }
+
+    console.log(`No matching preview found for ISRC ${isrc} on Apple Music`);
+    return null;
+  } catch (error) {
+    if (error instanceof AppleMusicConfigError) {
+      console.log("No Apple Music developer token configured, falling back to iTunes Search");
+    } else {
+      console.error("Apple Music Catalog API error:", error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Search iTunes API by ISRC (fallback if Catalog API fails)
+ */
+async function getAppleMusicPreviewByISRC_iTunes(isrc: string, expectedArtistName: string, country: string): Promise<ApplePreview | null> {
+  // Helper to clean artist name
+  const cleanArtistName = (name: string) => name.split(/\s+(?:ft\.|feat\.|featuring|&)\s+/i)[0].toLowerCase().trim();
+  const targetCleanArtist = cleanArtistName(expectedArtistName);
+
+  try {
+    const results = await itunes.lookupByISRC(isrc, { country });
+
+    if (results.length > 0) {
+      const track = results[0];
+      if (track.previewUrl) {
+        // Verify artist match
+        const resultArtist = track.artistName ?? "";
+        const resultCleanArtist = cleanArtistName(resultArtist);
+
+        if (resultCleanArtist === targetCleanArtist) {
+          console.log(`✅ Found iTunes preview via ISRC ${isrc}: ${track.trackName}`);
+          return { url: track.previewUrl, appleMusicId: String(track.trackId), matchedBy: "isrc" };
+        } else {
+          console.log(`⚠️ iTunes ISRC match rejected due to artist mismatch: '${resultCleanArtist}' vs '${targetCleanArtist}'`);
+        }
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error("iTunes ISRC Lookup error:", error);
+    return null;
+  }
+}
+
+/**
+ * Fallback: Search iTunes API by track name and artist (less accurate)
+ */
+async function getAppleMusicPreviewBySearch(trackName: string, artistName: string, country: string): Promise<ApplePreview | null> {
+  // Helper to clean artist name (remove ft., etc)
+  const cleanArtistName = (name: string) => name.split(/\s+(?:ft\.|feat\.|featuring|&)\s+/i)[0].toLowerCase().trim();
+  const targetCleanArtist = cleanArtistName(artistName);
+
+  // Helper to perform search and check matches
+  const performSearch = async (searchTrackName: string): Promise<ApplePreview | null> => {
+    try {
+      const results = await itunes.searchSongs(`${searchTrackName} ${targetCleanArtist}`, { limit: 10, country });
+
+      if (results.length > 0) {
+        // 1. Try exact match on name AND artist
+        const exactMatch = results.find((result) => {
+          const resultName = result.trackName?.toLowerCase() ?? "";
+          const resultCleanArtist = cleanArtistName(result.artistName ?? "");
+
+          const nameMatch = resultName === searchTrackName.toLowerCase();
+          // Strict artist match: must be equal (ignoring case/features)
+          const artistMatch = resultCleanArtist === targetCleanArtist;
+
+          return nameMatch && artistMatch && result.previewUrl;
+        });
+
+        if (exactMatch?.previewUrl) {
+          console.log(`Found iTunes exact preview for "${searchTrackName}": ${exactMatch.previewUrl}`);
+          return { url: exactMatch.previewUrl, appleMusicId: String(exactMatch.trackId), matchedBy: "search" };
+        }
+
+        // 2. Try fuzzy match: Name must contain track name, Artist must match exactly
+        const fuzzyMatch = results.find((result) => {
+          const resultName = result.trackName?.toLowerCase() ?? "";
+          const resultCleanArtist = cleanArtistName(result.artistName ?? "");
+
+          const nameMatch = resultName.includes(searchTrackName.toLowerCase()) || searchTrackName.toLowerCase().includes(resultName);
+          const artistMatch = resultCleanArtist === targetCleanArtist;
+
+          return nameMatch && artistMatch && result.previewUrl;
+        });
+
+        if (fuzzyMatch?.previewUrl) {
+          console.log(`Using iTunes fuzzy match preview: ${fuzzyMatch.previewUrl}`);
+          return { url: fuzzyMatch.previewUrl, appleMusicId: String(fuzzyMatch.trackId), matchedBy: "search" };
+        }
+      }
+      return null;
+    } catch (error) {
+      console.error("iTunes Search API error:", error);
+      return null;
+    }
+  };
+
+  // 1. Try full track name first
+  const fullMatch = await performSearch(trackName);
+  if (fullMatch) return fullMatch;
+
+  // 2. Try simplified track name (remove " - ", "(", "[")
+  // e.g. "Bags - Recorded At Electric Lady Studios" -> "Bags"
+  // e.g. "Untitled (How Does It Feel)" -> "Untitled"
+  const simplifiedName = trackName.split(/\s+(?:-|\[|\()\s+/)[0].trim();
+
+  if (simplifiedName && simplifiedName !== trackName && simplifiedName.length > 2) {
+    console.log(`Retrying search with simplified name: "${simplifiedName}"`);
+    const simpleMatch = await performSearch(simplifiedName);
+    if (simpleMatch) return simpleMatch;
+  }
+
+  console.log(`No matching preview found in iTunes for "${trackName}" by "${artistName}"`);
+  return null;
+}
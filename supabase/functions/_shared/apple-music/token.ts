@@ -0,0 +1,82 @@
+// Apple Music developer token (MusicKit JWT) minting.
+// Replaces the manually generated APPLE_MUSIC_DEVELOPER_TOKEN secret
+// (apps/ios/generate_musickit_token.py) with tokens signed on demand.
+
+import { signES256JWT } from "../jwt.ts";
+import { AppleMusicConfigError } from "./errors.ts";
+
+// Apple allows up to 6 months; short-lived tokens limit the blast radius of a leak
+const TOKEN_TTL_SECONDS = 12 * 60 * 60;
+// Mint a new token this long before the current one expires
+const REFRESH_BEFORE_EXPIRY_MS = 10 * 60 * 1000;
+
+let cachedToken: { token: string; expiresAt: number } | null = null;
+let pending: Promise<string> | null = null;
+
+function signingCredentials() {
+  const keyId = Deno.env.get("APPLE_MUSIC_KEY_ID");
+  // Same Apple developer team as APNs unless overridden
+  const teamId = Deno.env.get("APPLE_MUSIC_TEAM_ID") ?? Deno.env.get("APNS_TEAM_ID");
+  const privateKey = Deno.env.get("APPLE_MUSIC_PRIVATE_KEY");
+
+  if (!keyId || !teamId || !privateKey) {
+    return null;
+  }
+  return { keyId, teamId, privateKey };
+}
+
+/** True when tokens are minted here (so a rejected token can be replaced) */
+export function canMintDeveloperToken(): boolean {
+  return signingCredentials() !== null;
+}
+
+async function mintDeveloperToken(): Promise<string> {
+  const credentials = signingCredentials()!;
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + TOKEN_TTL_SECONDS;
+
+  const token = await signES256JWT(
+    credentials.keyId,
+    {
+      iss: credentials.teamId,
+      iat: issuedAt,
+      exp: expiresAt,
+    },
+    credentials.privateKey
+  );
+
+  cachedToken = { token, expiresAt: expiresAt * 1000 };
+  console.log("Minted new Apple Music developer token");
+  return token;
+}
+
+/**
+ * Get a developer token for the Apple Music Catalog API.
+ * Mints (and caches) a JWT when APPLE_MUSIC_KEY_ID / APPLE_MUSIC_PRIVATE_KEY are set,
+ * otherwise falls back to the legacy static APPLE_MUSIC_DEVELOPER_TOKEN secret.
+ */
+export function getDeveloperToken(): Promise<string> {
+  if (!canMintDeveloperToken()) {
+    const staticToken = Deno.env.get("APPLE_MUSIC_DEVELOPER_TOKEN");
+    if (!staticToken) {
+      return Promise.reject(new AppleMusicConfigError());
+    }
+    return Promise.resolve(staticToken);
+  }
+
+  if (cachedToken && Date.now() < cachedToken.expiresAt - REFRESH_BEFORE_EXPIRY_MS) {
+    return Promise.resolve(cachedToken.token);
+  }
+
+  if (!pending) {
+    pending = mintDeveloperToken().finally(() => {
+      pending = null;
+    });
+  }
+  return pending;
+}
+
+/** Drop the cached token after Apple rejects it */
+export function invalidateDeveloperToken(): void {
+  cachedToken = null;
+}
@@ -0,0 +1,39 @@
+// Apple Music songs rendered in the same track shape the Spotify functions return
+// (search-spotify-tracks, get-artist-top-tracks), so the app can decode either.
+
+import { isAppleMusicSongPlayable } from "../region.ts";
+import { artworkUrl } from "./client.ts";
+import type { AppleMusicArtwork, AppleMusicSong } from "./types.ts";
+
+// Largest first, matching Spotify's image ordering
+const IMAGE_SIZES = [640, 300, 64];
+
+export function artworkImages(artwork: AppleMusicArtwork | undefined, sizes: number[] = IMAGE_SIZES) {
+  if (!artwork?.url) {
+    return [];
+  }
+  return sizes.map((size) => ({
+    url: artworkUrl(artwork, size) as string,
+    height: size,
+    width: size,
+  }));
+}
+
+export function songToTrackResponse(song: AppleMusicSong) {
+  const { attributes } = song;
+  return {
+    id: song.id,
+    name: attributes.name,
+    artists: [{ name: attributes.artistName }],
+    album: {
+      name: attributes.albumName ?? null,
+      images: artworkImages(attributes.artwork),
+    },
+    preview_url: attributes.previews?.[0]?.url ?? null,
+    external_ids: attributes.isrc ? { isrc: attributes.isrc } : {},
+    // Apple Music has no popularity score
+    popularity: null,
+    duration_ms: attributes.durationInMillis ?? null,
+    is_playable: isAppleMusicSongPlayable(song),
+  };
+}
@@ -0,0 +1,114 @@
+// Apple Music Catalog API and iTunes Search API response shapes.
+// Only the fields we actually read are typed.
+
+export interface AppleMusicArtwork {
+  url: string; // Template with {w} and {h} placeholders
+  width: number;
+  height: number;
+}
+
+export interface AppleMusicSong {
+  id: string;
+  type: "songs";
+  attributes: {
+    name: string;
+    artistName: string;
+    albumName?: string;
+    isrc?: string;
+    durationInMillis?: number;
+    previews?: Array<{ url: string }>;
+    artwork?: AppleMusicArtwork;
+    url?: string;
+    releaseDate?: string;
+    genreNames?: string[];
+    trackNumber?: number;
+    discNumber?: number;
+    // Missing when the song can't be played in the requested storefront
+    playParams?: { id: string; kind: string };
+  };
+}
+
+export interface AppleMusicArtist {
+  id: string;
+  type: "artists";
+  attributes: {
+    name: string;
+    url?: string;
+    genreNames?: string[];
+    artwork?: AppleMusicArtwork;
+  };
+}
+
+export interface AppleMusicAlbum {
+  id: string;
+  type: "albums";
+  attributes: {
+    name: string;
+    artistName: string;
+    releaseDate?: string;
+    artwork?: AppleMusicArtwork;
+    trackCount?: number;
+    isSingle?: boolean;
+    isCompilation?: boolean;
+    recordLabel?: string;
+    upc?: string;
+    url?: string;
+    genreNames?: string[];
+  };
+  // Included by default when fetching a single album
+  relationships?: {
+    tracks?: {
+      data: AppleMusicSong[];
+      next?: string;
+    };
+  };
+}
+
+export interface AppleMusicChart<T> {
+  chart: string;
+  name: string;
+  data: T[];
+  next?: string;
+}
+
+export interface ITunesTrack {
+  trackId: number;
+  trackName: string;
+  artistName: string;
+  collectionName?: string;
+  previewUrl?: string;
+  artworkUrl100?: string;
+  trackTimeMillis?: number;
+  isrc?: string;
+}
+
+export interface CatalogOptions {
+  storefront?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/** A playlist in the user's library (IDs like "p.…"), from the library API */
+export interface AppleMusicLibraryPlaylist {
+  id: string;
+  type: "library-playlists";
+  attributes?: {
+    name: string;
+    description?: { standard?: string };
+    canEdit?: boolean;
+  };
+}
+
+/** A song in the user's library; playParams.catalogId links it to the catalog song */
+export interface AppleMusicLibrarySong {
+  id: string;
+  type: "library-songs";
+  attributes?: {
+    name: string;
+    artistName: string;
+    albumName?: string;
+    genreNames?: string[];
+    artwork?: AppleMusicArtwork;
+    playParams?: { id: string; kind: string; catalogId?: string };
+  };
+}
@@ -0,0 +1,178 @@
+// Stored chart snapshots (the `chart_snapshots` table) and the trending list derived
+// from them. capture-chart-snapshots records each chart periodically; trending compares
+// the latest snapshot with one from about a day earlier, so it only changes when a new
+// snapshot lands and is the same for every caller in between.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { appleMusic, artworkUrl, type AppleMusicSong } from "./apple-music/index.ts";
+import { isAppleMusicSongPlayable } from "./region.ts";
+import { normalizeISRC } from "./track-catalog.ts";
+
+export const APPLE_MOST_PLAYED = "apple:most-played";
+
+// How many positions of a chart are stored (Apple's per-request maximum)
+export const CHART_DEPTH = 50;
+// Trending compares against the newest snapshot at least this much older than the latest
+const BASELINE_AGE_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_COLUMNS = "id, chart_key, region, captured_at, entries";
+
+export interface ChartTrack {
+  id: string;
+  name: string;
+  artistName: string;
+  previewUrl: string | null;
+  albumArtUrl: string | null;
+  isrc: string | null;
+  appleMusicId: string;
+  durationMs: number | null;
+  albumName: string | null;
+  isPlayable: boolean;
+}
+
+export interface ChartEntry {
+  key: string; // ISRC when known, so re-issued tracks keep their history
+  rank: number; // 1-based
+  track: ChartTrack;
+}
+
+export interface ChartSnapshot {
+  id: string;
+  chart_key: string;
+  region: string;
+  captured_at: string;
+  entries: ChartEntry[];
+}
+
+export interface TrendingEntry extends ChartEntry {
+  previousRank: number | null;
+  rankDelta: number | null; // Positions climbed since the baseline; negative when falling
+  isNewEntry: boolean;
+}
+
+export function songToChartTrack(song: AppleMusicSong): ChartTrack {
+  return {
+    id: song.id,
+    name: song.attributes?.name || "Unknown Track",
+    artistName: song.attributes?.artistName || "Unknown Artist",
+    previewUrl: song.attributes?.previews?.[0]?.url || null,
+    albumArtUrl: artworkUrl(song.attributes?.artwork, 300),
+    isrc: song.attributes?.isrc || null,
+    appleMusicId: song.id,
+    durationMs: song.attributes?.durationInMillis || null,
+    albumName: song.attributes?.albumName || null,
+    isPlayable: isAppleMusicSongPlayable(song),
+  };
+}
+
+export function toChartEntries(tracks: ChartTrack[]): ChartEntry[] {
+  return tracks.map((track, index) => ({
+    key: track.isrc ? normalizeISRC(track.isrc) : track.id,
+    rank: index + 1,
+    track,
+  }));
+}
+
+/** Apple Music's most-played chart for a storefront, live */
+export async function fetchAppleChart(region: string): Promise<ChartEntry[]> {
+  const chart = await appleMusic.getChart("most-played", {
+    storefront: region.toLowerCase(),
+    limit: CHART_DEPTH,
+  });
+  return toChartEntries((chart?.data ?? []).map(songToChartTrack));
+}
+
+/** Fetch Apple Music's most-played chart for a storefront and store it as a snapshot */
+export async function captureAppleChart(supabase: SupabaseClient, region: string): Promise<ChartSnapshot> {
+  const entries = await fetchAppleChart(region);
+
+  const { data, error } = await supabase
+    .from("chart_snapshots")
+    .insert({ chart_key: APPLE_MOST_PLAYED, region, entries, entry_count: entries.length })
+    .select(SNAPSHOT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as ChartSnapshot;
+}
+
+function snapshotsOf(supabase: SupabaseClient, chartKey: string, region: string) {
+  return supabase
+    .from("chart_snapshots")
+    .select(SNAPSHOT_COLUMNS)
+    .eq("chart_key", chartKey)
+    .eq("region", region);
+}
+
+/**
+ * The latest snapshot of a chart and the one trending compares it with: the newest
+ * at least BASELINE_AGE_MS older, or the oldest earlier snapshot while history is short.
+ */
+export async function loadTrendingWindow(
+  supabase: SupabaseClient,
+  chartKey: string,
+  region: string
+): Promise<{ latest: ChartSnapshot | null; baseline: ChartSnapshot | null }> {
+  const { data: latest, error } = await snapshotsOf(supabase, chartKey, region)
+    .order("captured_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!latest) {
+    return { latest: null, baseline: null };
+  }
+
+  const cutoff = new Date(new Date(latest.captured_at).getTime() - BASELINE_AGE_MS).toISOString();
+  const { data: dayOld, error: dayOldError } = await snapshotsOf(supabase, chartKey, region)
+    .lte("captured_at", cutoff)
+    .order("captured_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (dayOldError) throw dayOldError;
+  if (dayOld) {
+    return { latest: latest as ChartSnapshot, baseline: dayOld as ChartSnapshot };
+  }
+
+  const { data: oldest, error: oldestError } = await snapshotsOf(supabase, chartKey, region)
+    .lt("captured_at", latest.captured_at)
+    .order("captured_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (oldestError) throw oldestError;
+  return { latest: latest as ChartSnapshot, baseline: (oldest as ChartSnapshot | null) ?? null };
+}
+
+/**
+ * Rank tracks by how fast they're moving. A new entry counts as having climbed from
+ * just below the chart, so a debut at #5 outranks a climb from #40 to #30. Ties go to
+ * the higher current rank; tracks that held or fell follow in chart order. Without a
+ * baseline there is no movement to measure and the chart order is returned.
+ */
+export function computeTrending(current: ChartEntry[], baseline: ChartEntry[] | null): TrendingEntry[] {
+  if (!baseline) {
+    return current.map((entry) => ({ ...entry, previousRank: null, rankDelta: null, isNewEntry: false }));
+  }
+
+  const previousRanks = new Map(baseline.map((entry) => [entry.key, entry.rank]));
+  const offChart = Math.max(baseline.length, current.length) + 1;
+
+  const scored = current.map((entry) => {
+    const previousRank = previousRanks.get(entry.key) ?? null;
+    return {
+      ...entry,
+      previousRank,
+      rankDelta: previousRank === null ? null : previousRank - entry.rank,
+      isNewEntry: previousRank === null,
+      velocity: (previousRank ?? offChart) - entry.rank,
+    };
+  });
+
+  const rising = scored.filter((entry) => entry.velocity > 0);
+  const rest = scored.filter((entry) => entry.velocity <= 0);
+
+  rising.sort((a, b) => b.velocity - a.velocity || a.rank - b.rank);
+
+  return [...rising, ...rest].map(({ velocity: _velocity, ...entry }) => entry);
+}
@@ -0,0 +1,26 @@
+// Helpers for fanning out work without flooding the music APIs.
+
+/**
+ * Map over `items` with at most `limit` calls in flight at once.
+ * Results keep the input order; a rejected call rejects the whole map,
+ * so callers that want per-item failures should catch inside `fn`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
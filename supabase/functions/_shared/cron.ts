@@ -0,0 +1,23 @@
+// Guards scheduled jobs that must only run from cron. The scheduler sends the
+// shared CRON_SECRET in the x-cron-secret header (or as a bearer token).
+
+function constantTimeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+/** Whether the request carries CRON_SECRET; always false when the secret isn't configured */
+export function isCronRequest(req: Request): boolean {
+  const secret = Deno.env.get("CRON_SECRET") ?? "";
+  if (!secret) return false;
+
+  const provided = req.headers.get("x-cron-secret") ??
+    req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ??
+    "";
+  return constantTimeEqual(provided, secret);
+}
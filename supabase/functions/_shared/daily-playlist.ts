@@ -0,0 +1,196 @@
+// The daily playlist: one track per phlock member, their daily song for a date,
+// resolved onto the listener's platform. Used by get-daily-playlist and the
+// playlist export.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { mapWithConcurrency } from "./concurrency.ts";
+import type { Region } from "./region.ts";
+import { localMidnight } from "./timezone.ts";
+import { resolveTrackForPlatform, type MusicPlatform, type ResolvedTrack } from "./track-resolver.ts";
+
+export interface PhlockMember {
+  userId: string;
+  position: number | null;
+  displayName: string | null;
+  username: string | null;
+  profilePhotoUrl: string | null;
+  swappedIn: boolean; // Joins through a pending swap the scheduler hasn't applied yet
+}
+
+export interface DailyPlaylistTrack {
+  position: number | null;
+  member: PhlockMember;
+  shareId: string;
+  message: string | null;
+  pickedAt: string;
+  sharedTrackId: string; // The ID as picked, on the curator's platform
+  track: ResolvedTrack;
+}
+
+export interface DailyPlaylist {
+  date: string;
+  platform: MusicPlatform;
+  tracks: DailyPlaylistTrack[];
+  waitingOn: PhlockMember[]; // Members who haven't picked for this date yet
+}
+
+interface MemberSlot {
+  userId: string;
+  position: number | null;
+  swappedIn: boolean;
+}
+
+interface PendingSwap {
+  old_member_id: string;
+  new_member_id: string | null;
+  scheduled_for: string;
+}
+
+const RESOLVE_CONCURRENCY = 5;
+
+/**
+ * Latest scheduled_for that is in effect on `date`: the user's local midnight
+ * starting that day. Without a known timezone, local midnight for any timezone
+ * falls between 10:00 UTC the day before and 12:00 UTC on the date itself.
+ */
+export function swapCutoff(date: string, timeZone?: string | null): string {
+  return timeZone ? localMidnight(date, timeZone) : `${date}T12:00:00Z`;
+}
+
+/**
+ * Apply swaps that are due but not yet processed: the old member leaves and the
+ * new one (if any) takes their position. Swaps apply in scheduled order.
+ */
+export function applyPendingSwaps(members: MemberSlot[], swaps: PendingSwap[]): MemberSlot[] {
+  const slots = [...members];
+  const ordered = [...swaps].sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for));
+
+  for (const swap of ordered) {
+    const index = slots.findIndex((slot) => slot.userId === swap.old_member_id);
+    if (index === -1) continue;
+
+    const [removed] = slots.splice(index, 1);
+    if (swap.new_member_id && !slots.some((slot) => slot.userId === swap.new_member_id)) {
+      slots.push({ userId: swap.new_member_id, position: removed.position, swappedIn: true });
+    }
+  }
+
+  return slots.sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity));
+}
+
+/** The user's phlock as it stands on `date`, in position order */
+export async function loadPhlockMembers(
+  supabase: SupabaseClient,
+  userId: string,
+  date: string,
+  timeZone?: string | null
+): Promise<PhlockMember[]> {
+  const [{ data: follows, error: followsError }, { data: swaps, error: swapsError }] = await Promise.all([
+    supabase
+      .from("follows")
+      .select("following_id, phlock_position")
+      .eq("follower_id", userId)
+      .eq("is_in_phlock", true),
+    supabase
+      .from("scheduled_swaps")
+      .select("old_member_id, new_member_id, scheduled_for")
+      .eq("user_id", userId)
+      .eq("status", "pending")
+      .lte("scheduled_for", swapCutoff(date, timeZone)),
+  ]);
+
+  if (followsError) throw followsError;
+  if (swapsError) throw swapsError;
+
+  const slots = applyPendingSwaps(
+    ((follows ?? []) as Array<{ following_id: string; phlock_position: number | null }>).map((row) => ({
+      userId: row.following_id,
+      position: row.phlock_position,
+      swappedIn: false,
+    })),
+    (swaps ?? []) as PendingSwap[]
+  );
+
+  if (slots.length === 0) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from("users")
+    .select("id, display_name, username, profile_photo_url")
+    .in("id", slots.map((slot) => slot.userId));
+
+  if (profilesError) throw profilesError;
+
+  const byId = new Map(
+    ((profiles ?? []) as Array<{ id: string; display_name: string | null; username: string | null; profile_photo_url: string | null }>)
+      .map((profile) => [profile.id, profile])
+  );
+
+  return slots.map((slot) => ({
+    userId: slot.userId,
+    position: slot.position,
+    displayName: byId.get(slot.userId)?.display_name ?? null,
+    username: byId.get(slot.userId)?.username ?? null,
+    profilePhotoUrl: byId.get(slot.userId)?.profile_photo_url ?? null,
+    swappedIn: slot.swappedIn,
+  }));
+}
+
+/** Assemble `userId`'s playlist for `date` (the user's local date, YYYY-MM-DD) */
+export async function buildDailyPlaylist(
+  supabase: SupabaseClient,
+  userId: string,
+  date: string,
+  platform: MusicPlatform,
+  region: Region,
+  timeZone?: string | null
+): Promise<DailyPlaylist> {
+  const members = await loadPhlockMembers(supabase, userId, date, timeZone);
+  if (members.length === 0) {
+    return { date, platform, tracks: [], waitingOn: [] };
+  }
+
+  const { data: shares, error: sharesError } = await supabase
+    .from("shares")
+    .select("id, sender_id, track_id, track_name, artist_name, album_art_url, preview_url, message, created_at")
+    .in("sender_id", members.map((member) => member.userId))
+    .eq("is_daily_song", true)
+    .eq("selected_date", date)
+    .order("created_at", { ascending: false });
+
+  if (sharesError) throw sharesError;
+
+  // One pick per member; if a pick was replaced, the latest wins
+  const picks = new Map<string, Record<string, any>>();
+  for (const share of shares ?? []) {
+    if (!picks.has(share.sender_id)) picks.set(share.sender_id, share);
+  }
+
+  const picked = members.filter((member) => picks.has(member.userId));
+  const tracks = await mapWithConcurrency(picked, RESOLVE_CONCURRENCY, async (member) => {
+    const share = picks.get(member.userId)!;
+    const track = await resolveTrackForPlatform(supabase, {
+      trackId: share.track_id,
+      trackName: share.track_name,
+      artistName: share.artist_name,
+      albumArtUrl: share.album_art_url,
+      previewUrl: share.preview_url,
+    }, platform, region);
+
+    return {
+      position: member.position,
+      member,
+      shareId: share.id,
+      message: share.message ?? null,
+      pickedAt: share.created_at,
+      sharedTrackId: share.track_id,
+      track,
+    };
+  });
+
+  return {
+    date,
+    platform,
+    tracks,
+    waitingOn: members.filter((member) => !picks.has(member.userId)),
+  };
+}
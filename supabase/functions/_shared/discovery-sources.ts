@@ -0,0 +1,228 @@
+// Discovery feed sources (the `discovery_sources` table) behind get-playlist-tracks.
+// Fetching and filtering live here so validate-discovery-source checks a source
+// exactly the way the feed will read it.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  createRefreshTokenProvider,
+  createSpotifyClient,
+  type SpotifyTrack,
+} from "./spotify/index.ts";
+import { appleMusic, artworkUrl, type AppleMusicSong } from "./apple-music/index.ts";
+import { isAppleMusicSongPlayable, isSpotifyTrackPlayable, type Region } from "./region.ts";
+import { normalizeISRC } from "./track-catalog.ts";
+
+// Editorial and large user playlists need a user token in Spotify Development Mode, so
+// Spotify sources use the developer's refresh token (stored in Supabase secrets)
+const spotify = createSpotifyClient(createRefreshTokenProvider(Deno.env.get("SPOTIFY_USER_REFRESH_TOKEN")));
+
+export type DiscoverySourceType = "spotify_playlist" | "apple_playlist" | "apple_chart" | "search_seed";
+
+export interface DiscoveryFilters {
+  excludeAlbums?: string[];
+  excludeArtists?: string[];
+  requirePreview?: boolean;
+  playableOnly?: boolean;
+  maxPerArtist?: number;
+}
+
+export interface DiscoverySource {
+  id: string;
+  feed: string;
+  name: string;
+  source_type: DiscoverySourceType;
+  external_id: string | null;
+  search_queries: string[];
+  filters: DiscoveryFilters;
+  fetch_limit: number;
+  max_tracks: number | null;
+  ordering: "source" | "popularity" | "release_date";
+  priority: number;
+  is_active: boolean;
+  validated_at: string | null;
+  last_validation_error: string | null;
+  last_validated_track_count: number | null;
+}
+
+export interface DiscoveryTrack {
+  id: string;
+  name: string;
+  artistName: string;
+  albumName: string | null;
+  previewUrl: string | null;
+  albumArtUrl: string | null;
+  isrc: string | null;
+  spotifyId: string | null;
+  appleMusicId: string | null;
+  popularity: number | null; // Spotify only
+  releaseDate: string | null;
+  isPlayable: boolean;
+}
+
+const DEFAULT_APPLE_CHART = "most-played";
+// Per-request caps: Spotify search and Apple catalog pages stop at 50 and 25
+const SPOTIFY_SEARCH_LIMIT = 50;
+const APPLE_PAGE_LIMIT = 25;
+
+function fromSpotify(track: SpotifyTrack): DiscoveryTrack {
+  return {
+    id: track.id,
+    name: track.name,
+    artistName: track.artists?.[0]?.name || "Unknown Artist",
+    albumName: track.album?.name ?? null,
+    previewUrl: track.preview_url,
+    albumArtUrl: track.album?.images?.[0]?.url ?? null,
+    isrc: track.external_ids?.isrc ? normalizeISRC(track.external_ids.isrc) : null,
+    spotifyId: track.id,
+    appleMusicId: null,
+    popularity: track.popularity ?? null,
+    releaseDate: track.album?.release_date ?? null,
+    isPlayable: isSpotifyTrackPlayable(track),
+  };
+}
+
+function fromAppleMusic(song: AppleMusicSong): DiscoveryTrack {
+  const { attributes } = song;
+  return {
+    id: song.id,
+    name: attributes?.name || "Unknown Track",
+    artistName: attributes?.artistName || "Unknown Artist",
+    albumName: attributes?.albumName ?? null,
+    previewUrl: attributes?.previews?.[0]?.url ?? null,
+    albumArtUrl: artworkUrl(attributes?.artwork, 300),
+    isrc: attributes?.isrc ? normalizeISRC(attributes.isrc) : null,
+    spotifyId: null,
+    appleMusicId: song.id,
+    popularity: null,
+    releaseDate: attributes?.releaseDate ?? null,
+    isPlayable: isAppleMusicSongPlayable(song),
+  };
+}
+
+/** Pages through an Apple Music listing until `limit` items or the end */
+async function fetchApplePages(
+  fetchPage: (offset: number, limit: number) => Promise<{ data: AppleMusicSong[]; next?: string }>,
+  limit: number
+): Promise<AppleMusicSong[]> {
+  const songs: AppleMusicSong[] = [];
+  for (;;) {
+    const page = await fetchPage(songs.length, Math.min(APPLE_PAGE_LIMIT, limit - songs.length));
+    songs.push(...page.data);
+    if (!page.next || page.data.length === 0 || songs.length >= limit) {
+      return songs.slice(0, limit);
+    }
+  }
+}
+
+/** Raw tracks for a source, before its filters and ordering are applied */
+export async function fetchSourceTracks(source: DiscoverySource, region: Region): Promise<DiscoveryTrack[]> {
+  const limit = source.fetch_limit;
+
+  switch (source.source_type) {
+    case "spotify_playlist": {
+      const page = await spotify.getPlaylistTracks(source.external_id ?? "", { limit, market: region.market });
+      return page.items
+        .map((item) => item.track)
+        .filter((track): track is SpotifyTrack => track !== null)
+        .map(fromSpotify);
+    }
+
+    case "apple_playlist": {
+      const songs = await fetchApplePages(
+        (offset, pageLimit) =>
+          appleMusic.getPlaylistTracks(source.external_id ?? "", {
+            offset,
+            limit: pageLimit,
+            storefront: region.storefront,
+          }),
+        limit
+      );
+      // Playlists can include music videos, which have no audio preview to share
+      return songs.filter((song) => song.type === "songs").map(fromAppleMusic);
+    }
+
+    case "apple_chart": {
+      const chart = await appleMusic.getChart(source.external_id || DEFAULT_APPLE_CHART, {
+        storefront: region.storefront,
+        limit: Math.min(limit, 50),
+      });
+      return (chart?.data ?? []).map(fromAppleMusic);
+    }
+
+    case "search_seed": {
+      // Split the fetch budget across queries so one seed can't crowd out the rest
+      const perQuery = Math.min(Math.ceil(limit / source.search_queries.length), SPOTIFY_SEARCH_LIMIT);
+      const results = await Promise.all(
+        source.search_queries.map(async (query) => {
+          try {
+            const page = await spotify.searchTracks(query, { limit: perQuery, market: region.market });
+            return page.items.map(fromSpotify);
+          } catch (error) {
+            console.error(`Search failed for seed "${query}":`, error);
+            return [];
+          }
+        })
+      );
+      return results.flat();
+    }
+  }
+}
+
+/** Source filters, ordering and per-source cap. Tracks without artwork are always dropped. */
+export function applySourceRules(source: DiscoverySource, tracks: DiscoveryTrack[]): DiscoveryTrack[] {
+  const filters = source.filters ?? {};
+  const excludedAlbums = new Set((filters.excludeAlbums ?? []).map((name) => name.toLowerCase()));
+  const excludedArtists = new Set((filters.excludeArtists ?? []).map((name) => name.toLowerCase()));
+
+  const kept = tracks.filter((track) => {
+    if (!track.albumArtUrl) return false;
+    if (track.albumName && excludedAlbums.has(track.albumName.toLowerCase())) return false;
+    if (excludedArtists.has(track.artistName.toLowerCase())) return false;
+    if (filters.requirePreview && !track.previewUrl) return false;
+    if (filters.playableOnly && !track.isPlayable) return false;
+    return true;
+  });
+
+  // Array sort is stable, so ties keep the source's own order
+  if (source.ordering === "popularity") {
+    kept.sort((a, b) => (b.popularity ?? -1) - (a.popularity ?? -1));
+  } else if (source.ordering === "release_date") {
+    kept.sort((a, b) => (b.releaseDate ?? "").localeCompare(a.releaseDate ?? ""));
+  }
+
+  const perArtist = new Map<string, number>();
+  const capped = filters.maxPerArtist
+    ? kept.filter((track) => {
+      const count = perArtist.get(track.artistName) ?? 0;
+      perArtist.set(track.artistName, count + 1);
+      return count < (filters.maxPerArtist as number);
+    })
+    : kept;
+
+  return source.max_tracks ? capped.slice(0, source.max_tracks) : capped;
+}
+
+/** Active sources for a feed, in the order they should be read */
+export async function loadFeedSources(supabase: SupabaseClient, feed: string): Promise<DiscoverySource[]> {
+  const { data, error } = await supabase
+    .from("discovery_sources")
+    .select("*")
+    .eq("feed", feed)
+    .eq("is_active", true)
+    .order("priority", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as DiscoverySource[];
+}
+
+/** Feeds with at least one live source */
+export async function listActiveFeeds(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("discovery_sources")
+    .select("feed")
+    .eq("is_active", true);
+
+  if (error) throw error;
+  const rows = (data ?? []) as Array<{ feed: string }>;
+  return [...new Set(rows.map((row) => row.feed))].sort();
+}
@@ -0,0 +1,233 @@
+// Genre catalog (the `genres`, `genre_artists` and `genre_tracks` tables).
+// refresh-genre-catalog fills it on a schedule and browse-artists-by-genre reads it,
+// so a Discover tap costs one query instead of several Spotify searches.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { spotify, type SpotifyArtist, type SpotifyTrack } from "./spotify/index.ts";
+import { isSpotifyTrackPlayable } from "./region.ts";
+import { normalizeISRC } from "./track-catalog.ts";
+
+export interface Genre {
+  key: string;
+  name: string;
+  parent_key: string | null;
+  search_terms: string[];
+  position: number;
+}
+
+export interface GenreArtistRow {
+  artist_id: string;
+  rank: number;
+  name: string;
+  image_url: string | null;
+  popularity: number | null;
+  follower_count: number | null;
+  genres: string[];
+}
+
+export interface GenreTrackRow {
+  track_id: string;
+  rank: number;
+  name: string;
+  artist_name: string;
+  artist_id: string | null;
+  album_art_url: string | null;
+  preview_url: string | null;
+  isrc: string | null;
+  popularity: number | null;
+  is_playable: boolean;
+}
+
+// How deep each genre's catalog goes; browse pages through these
+const CATALOG_ARTISTS = 100;
+const CATALOG_TRACKS = 50;
+// Keeps one artist's catalog from filling a genre's track list
+const MAX_TRACKS_PER_ARTIST = 2;
+// Spotify's search page limit
+const SEARCH_PAGE_SIZE = 50;
+
+export function encodeRankCursor(rank: number): string {
+  return btoa(JSON.stringify({ rank }));
+}
+
+/** Last rank of the previous page, or null for a malformed cursor */
+export function decodeRankCursor(cursor: string): number | null {
+  try {
+    const { rank } = JSON.parse(atob(cursor));
+    return Number.isInteger(rank) && rank >= 0 ? rank : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run a genre search for each term, two pages deep. A failing term is logged and
+ * skipped so the others still contribute.
+ */
+async function searchTerms<T>(
+  terms: string[],
+  search: (query: string, offset: number) => Promise<T[]>
+): Promise<T[]> {
+  const pages = await Promise.all(
+    terms.flatMap((term) =>
+      [0, SEARCH_PAGE_SIZE].map(async (offset) => {
+        try {
+          return await search(`genre:"${term}"`, offset);
+        } catch (error) {
+          console.error(`⚠️ Genre search failed for term ${term}:`, error);
+          return [];
+        }
+      })
+    )
+  );
+  return pages.flat();
+}
+
+/** Most popular artists across a genre's search terms, ranked from 1 */
+export async function fetchGenreArtists(terms: string[], market: string): Promise<GenreArtistRow[]> {
+  const found = await searchTerms<SpotifyArtist>(terms, async (query, offset) =>
+    (await spotify.searchArtists(query, { limit: SEARCH_PAGE_SIZE, offset, market })).items
+  );
+
+  const unique = new Map<string, SpotifyArtist>();
+  for (const artist of found) {
+    if (!unique.has(artist.id)) unique.set(artist.id, artist);
+  }
+
+  return [...unique.values()]
+    .sort((a, b) => (b.popularity || 0) - (a.popularity || 0) || a.id.localeCompare(b.id))
+    .slice(0, CATALOG_ARTISTS)
+    .map((artist, index) => ({
+      artist_id: artist.id,
+      rank: index + 1,
+      name: artist.name,
+      image_url: artist.images?.[0]?.url || null,
+      popularity: artist.popularity ?? null,
+      follower_count: artist.followers?.total ?? null,
+      genres: artist.genres || [],
+    }));
+}
+
+/** Popular tracks across a genre's search terms */
+export async function fetchGenreTracks(terms: string[], market: string): Promise<GenreTrackRow[]> {
+  const found = await searchTerms<SpotifyTrack>(terms, async (query, offset) =>
+    (await spotify.searchTracks(query, { limit: SEARCH_PAGE_SIZE, offset, market })).items
+  );
+  return rankGenreTracks(found);
+}
+
+/**
+ * Dedupe search results and rank by popularity, keeping at most MAX_TRACKS_PER_ARTIST
+ * per lead artist so the list represents the genre rather than its biggest act.
+ */
+export function rankGenreTracks(found: SpotifyTrack[]): GenreTrackRow[] {
+  const unique = new Map<string, SpotifyTrack>();
+  for (const track of found) {
+    if (track?.album?.images?.length && !unique.has(track.id)) unique.set(track.id, track);
+  }
+
+  const perArtist = new Map<string, number>();
+  return [...unique.values()]
+    .sort((a, b) => (b.popularity || 0) - (a.popularity || 0) || a.id.localeCompare(b.id))
+    .filter((track) => {
+      const artistId = track.artists[0]?.id ?? track.id;
+      const count = perArtist.get(artistId) ?? 0;
+      perArtist.set(artistId, count + 1);
+      return count < MAX_TRACKS_PER_ARTIST;
+    })
+    .slice(0, CATALOG_TRACKS)
+    .map((track, index) => ({
+      track_id: track.id,
+      rank: index + 1,
+      name: track.name,
+      artist_name: track.artists[0]?.name || "Unknown Artist",
+      artist_id: track.artists[0]?.id ?? null,
+      album_art_url: track.album.images[0]?.url ?? null,
+      preview_url: track.preview_url,
+      isrc: track.external_ids?.isrc ? normalizeISRC(track.external_ids.isrc) : null,
+      popularity: track.popularity ?? null,
+      is_playable: isSpotifyTrackPlayable(track),
+    }));
+}
+
+export async function findGenre(supabase: SupabaseClient, key: string): Promise<Genre | null> {
+  const { data, error } = await supabase
+    .from("genres")
+    .select("key, name, parent_key, search_terms, position")
+    .eq("key", key)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Genre | null;
+}
+
+/** Active genres in display order (top-level and sub-genres alike) */
+export async function listGenres(supabase: SupabaseClient): Promise<Genre[]> {
+  const { data, error } = await supabase
+    .from("genres")
+    .select("key, name, parent_key, search_terms, position")
+    .eq("is_active", true)
+    .order("position", { ascending: true })
+    .order("key", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as Genre[];
+}
+
+/**
+ * Re-fetch a genre's artists and tracks for a region and replace its catalog rows.
+ * Rows from earlier refreshes that dropped out are deleted after the new ones land,
+ * so readers never see an empty genre mid-refresh. An empty result (e.g. Spotify
+ * outage), for either artists or tracks, leaves that part of the catalog in place.
+ */
+export async function refreshGenre(
+  supabase: SupabaseClient,
+  genre: Genre,
+  market: string
+): Promise<{ artistCount: number; trackCount: number }> {
+  const refreshedAt = new Date().toISOString();
+  const [artists, tracks] = await Promise.all([
+    fetchGenreArtists(genre.search_terms, market),
+    fetchGenreTracks(genre.search_terms, market),
+  ]);
+
+  if (artists.length === 0 && tracks.length === 0) {
+    throw new Error(`No catalog results for genre ${genre.key} in ${market}`);
+  }
+
+  const scope = { genre_key: genre.key, market, refreshed_at: refreshedAt };
+
+  // Each table is only replaced when its own searches came back with something, so a
+  // failed half keeps its existing rows
+  const replace = async (table: string, rows: Array<GenreArtistRow | GenreTrackRow>, conflictKey: string) => {
+    if (rows.length === 0) return;
+
+    const { error: upsertError } = await supabase
+      .from(table)
+      .upsert(rows.map((row) => ({ ...row, ...scope })), { onConflict: `genre_key,market,${conflictKey}` });
+    if (upsertError) throw upsertError;
+
+    const { error: pruneError } = await supabase
+      .from(table)
+      .delete()
+      .eq("genre_key", genre.key)
+      .eq("market", market)
+      .lt("refreshed_at", refreshedAt);
+    if (pruneError) throw pruneError;
+  };
+
+  await replace("genre_artists", artists, "artist_id");
+  await replace("genre_tracks", tracks, "track_id");
+
+  const { error: refreshError } = await supabase
+    .from("genre_catalog_refreshes")
+    .upsert({
+      ...scope,
+      ...(artists.length > 0 ? { artist_count: artists.length } : {}),
+      ...(tracks.length > 0 ? { track_count: tracks.length } : {}),
+    }, { onConflict: "genre_key,market" });
+  if (refreshError) throw refreshError;
+
+  return { artistCount: artists.length, trackCount: tracks.length };
+}
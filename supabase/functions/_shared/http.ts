@@ -0,0 +1,57 @@
+// HTTP helpers shared by the music API clients.
+
+// Edge functions have a short wall clock; don't sleep longer than this for a 429
+const MAX_RETRY_AFTER_SECONDS = 10;
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetch with retries for rate limits (honouring Retry-After), 5xx responses and
+ * network failures. Returns the last response so callers can inspect the status.
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit = {},
+  maxRetries = 2
+): Promise<Response> {
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const isLastAttempt = attempt === maxRetries;
+
+    let response: Response;
+    try {
+      response = await fetch(url, options);
+    } catch (error) {
+      lastError = error;
+      console.error(`Fetch attempt ${attempt + 1} failed:`, error);
+      if (!isLastAttempt) {
+        // Exponential backoff: 500ms, 1000ms, ...
+        await sleep(500 * 2 ** attempt);
+      }
+      continue;
+    }
+
+    if (response.status === 429 && !isLastAttempt) {
+      const retryAfter = parseInt(response.headers.get("Retry-After") || "1", 10) || 1;
+      if (retryAfter > MAX_RETRY_AFTER_SECONDS) {
+        return response;
+      }
+      console.log(`Rate limited, waiting ${retryAfter}s before retry...`);
+      await response.body?.cancel();
+      await sleep(retryAfter * 1000);
+      continue;
+    }
+
+    if (response.status >= 500 && !isLastAttempt) {
+      console.log(`${new URL(url).host} returned ${response.status}, retrying...`);
+      await response.body?.cancel();
+      await sleep(500 * 2 ** attempt);
+      continue;
+    }
+
+    return response;
+  }
+
+  throw lastError ?? new Error("All fetch attempts failed");
+}
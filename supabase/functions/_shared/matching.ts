@@ -0,0 +1,284 @@
+// Confidence-scored track matching.
+// Compares a requested track (title/artist/duration/ISRC) against catalog
+// candidates from any platform and returns a 0-1 confidence per candidate.
+
+export interface MatchQuery {
+  title: string;
+  artist: string;
+  durationMs?: number;
+  isrc?: string;
+}
+
+export interface MatchCandidate {
+  title: string;
+  artists: string[];
+  durationMs?: number;
+  isrc?: string;
+  popularity?: number;
+}
+
+export interface MatchBreakdown {
+  title: number;
+  artists: number;
+  duration: number | null;
+  isrc: number | null;
+}
+
+export interface ScoredCandidate<T> {
+  item: T;
+  confidence: number;
+  breakdown: MatchBreakdown;
+}
+
+export interface MatchResult<T> {
+  best: ScoredCandidate<T> | null;
+  alternatives: ScoredCandidate<T>[];
+}
+
+// Below this we treat a candidate as a different song
+export const MATCH_THRESHOLD = 0.6;
+// Below this the app should let the user confirm the pick
+export const LOW_CONFIDENCE_THRESHOLD = 0.85;
+
+// Relative weights; signals missing on either side are dropped and the rest renormalized
+const WEIGHTS = {
+  title: 0.4,
+  artists: 0.3,
+  duration: 0.1,
+  isrc: 0.2,
+};
+
+// Version markers that mean a different recording (a live take is not the studio track)
+const VERSION_TAGS: Array<[string, RegExp]> = [
+  ["live", /\blive\b/],
+  ["remix", /\bremix(?:ed)?\b|\brmx\b/],
+  ["acoustic", /\bacoustic\b/],
+  ["instrumental", /\binstrumental\b/],
+  ["sped up", /\bsped up\b|\bspeed up\b/],
+  ["slowed", /\bslowed\b/],
+  ["radio edit", /\bradio (?:edit|version|mix)\b/],
+  ["extended", /\bextended\b/],
+  ["demo", /\bdemo\b/],
+  ["karaoke", /\bkaraoke\b/],
+  ["remaster", /\bremaster(?:ed)?\b/],
+];
+// Same recording, just re-released; only a small penalty when it differs
+const MINOR_VERSION_TAGS = new Set(["remaster"]);
+
+function foldText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Parenthesized/bracketed groups and " - " suffixes, e.g. "(feat. X)", "- 2011 Remaster" */
+function titleSuffixes(title: string): string[] {
+  const suffixes = [...title.matchAll(/[([]([^)\]]*)[)\]]/g)].map((m) => m[1]);
+  const dashIndex = title.indexOf(" - ");
+  if (dashIndex !== -1) {
+    suffixes.push(title.slice(dashIndex + 3));
+  }
+  return suffixes;
+}
+
+/**
+ * Normalize a track title for comparison: drops version/feature suffixes,
+ * diacritics and punctuation. "Levitating (feat. DaBaby) - Remastered" -> "levitating"
+ */
+export function normalizeTitle(title: string): string {
+  const base = title
+    .replace(/\s*[([][^)\]]*[)\]]/g, "")
+    .replace(/\s+-\s+.*$/, "")
+    .replace(/\s+(?:feat\.?|ft\.?|featuring|with)\s+.*$/i, "");
+  // Titles that are only a bracketed group would normalize to nothing
+  return foldText(base) || foldText(title);
+}
+
+/** Version markers found in a title's suffixes (live, remix, remaster, ...) */
+export function versionTags(title: string): Set<string> {
+  const tags = new Set<string>();
+  for (const suffix of titleSuffixes(title)) {
+    const folded = foldText(suffix);
+    for (const [tag, pattern] of VERSION_TAGS) {
+      if (pattern.test(folded)) {
+        tags.add(tag);
+      }
+    }
+  }
+  return tags;
+}
+
+/**
+ * Parse artist name to extract all artists (handles "ft.", "feat.", "&", etc.)
+ */
+export function parseArtists(artistName: string): string[] {
+  // Split on common delimiters for featured artists
+  const delimiters = /\s+(?:ft\.?|feat\.?|featuring|&|,|\|)\s+/gi;
+  return artistName.split(delimiters).map((a) => a.trim().toLowerCase());
+}
+
+/** Artist credits for scoring: like parseArtists, but also splits bare commas, "x" and "with" */
+function splitArtistCredits(artistName: string): string[] {
+  return artistName
+    .split(/\s+(?:ft\.?|feat\.?|featuring|&|x|with|\|)\s+|\s*,\s*/gi)
+    .map(normalizeArtist)
+    .filter((a) => a.length > 0);
+}
+
+export function normalizeArtist(name: string): string {
+  return foldText(name).replace(/^the /, "");
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 0-1 similarity of two already-normalized strings (edit distance or word overlap, whichever is higher) */
+export function stringSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const editSimilarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  const tokensA = new Set(a.split(" "));
+  const tokensB = new Set(b.split(" "));
+  const shared = [...tokensA].filter((t) => tokensB.has(t)).length;
+  const tokenSimilarity = shared / Math.max(tokensA.size, tokensB.size);
+
+  return Math.max(editSimilarity, tokenSimilarity);
+}
+
+function titleScore(queryTitle: string, candidateTitle: string): number {
+  let score = stringSimilarity(normalizeTitle(queryTitle), normalizeTitle(candidateTitle));
+
+  const queryTags = versionTags(queryTitle);
+  const candidateTags = versionTags(candidateTitle);
+  const differing = [...queryTags, ...candidateTags].filter(
+    (tag) => queryTags.has(tag) !== candidateTags.has(tag)
+  );
+
+  if (differing.some((tag) => !MINOR_VERSION_TAGS.has(tag))) {
+    score *= 0.7;
+  } else if (differing.length > 0) {
+    score *= 0.95;
+  }
+
+  return score;
+}
+
+function artistScore(queryArtist: string, candidateArtists: string[]): number {
+  const expected = splitArtistCredits(queryArtist);
+  const actual = candidateArtists.flatMap(splitArtistCredits);
+  if (expected.length === 0 || actual.length === 0) return 0;
+
+  const best = expected.map((e) => Math.max(...actual.map((a) => stringSimilarity(e, a))));
+
+  // Primary artist matters most; featured artists refine the score
+  if (best.length === 1) return best[0];
+  const featured = best.slice(1).reduce((sum, s) => sum + s, 0) / (best.length - 1);
+  return 0.7 * best[0] + 0.3 * featured;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function durationScore(queryMs: number, candidateMs: number): number {
+  const diffSeconds = Math.abs(queryMs - candidateMs) / 1000;
+  if (diffSeconds <= 2) return 1;
+  if (diffSeconds >= 20) return 0;
+  return 1 - (diffSeconds - 2) / 18;
+}
+
+/**
+ * Score how likely `candidate` is the track described by `query` (0-1)
+ */
+export function scoreCandidate(query: MatchQuery, candidate: MatchCandidate): {
+  confidence: number;
+  breakdown: MatchBreakdown;
+} {
+  const breakdown: MatchBreakdown = {
+    title: titleScore(query.title, candidate.title),
+    artists: artistScore(query.artist, candidate.artists),
+    duration: query.durationMs && candidate.durationMs
+      ? durationScore(query.durationMs, candidate.durationMs)
+      : null,
+    isrc: query.isrc && candidate.isrc
+      ? (query.isrc.toUpperCase() === candidate.isrc.toUpperCase() ? 1 : 0)
+      : null,
+  };
+
+  let weighted = WEIGHTS.title * breakdown.title + WEIGHTS.artists * breakdown.artists;
+  let totalWeight = WEIGHTS.title + WEIGHTS.artists;
+
+  if (breakdown.duration !== null) {
+    weighted += WEIGHTS.duration * breakdown.duration;
+    totalWeight += WEIGHTS.duration;
+  }
+  if (breakdown.isrc !== null) {
+    weighted += WEIGHTS.isrc * breakdown.isrc;
+    totalWeight += WEIGHTS.isrc;
+  }
+
+  // A wrong artist is never the right song, however well the title matches
+  const confidence = breakdown.artists < 0.5
+    ? Math.min(weighted / totalWeight, breakdown.artists)
+    : weighted / totalWeight;
+
+  return {
+    confidence: round(confidence),
+    breakdown: {
+      title: round(breakdown.title),
+      artists: round(breakdown.artists),
+      duration: breakdown.duration === null ? null : round(breakdown.duration),
+      isrc: breakdown.isrc,
+    },
+  };
+}
+
+/**
+ * Score and sort candidates (confidence desc, popularity as tiebreak).
+ * Returns the best match above MATCH_THRESHOLD plus up to `maxAlternatives` runners-up.
+ */
+export function matchTrack<T>(
+  query: MatchQuery,
+  items: T[],
+  toCandidate: (item: T) => MatchCandidate,
+  maxAlternatives = 4
+): MatchResult<T> {
+  const scored = items
+    .map((item) => {
+      const candidate = toCandidate(item);
+      return { item, candidate, ...scoreCandidate(query, candidate) };
+    })
+    .sort((a, b) =>
+      b.confidence - a.confidence ||
+      (b.candidate.popularity ?? 0) - (a.candidate.popularity ?? 0)
+    )
+    .map(({ item, confidence, breakdown }) => ({ item, confidence, breakdown }));
+
+  const best = scored.length > 0 && scored[0].confidence >= MATCH_THRESHOLD ? scored[0] : null;
+  const alternatives = scored
+    .slice(best ? 1 : 0)
+    .filter((s) => s.confidence >= MATCH_THRESHOLD / 2)
+    .slice(0, maxAlternatives);
+
+  return { best, alternatives };
+}
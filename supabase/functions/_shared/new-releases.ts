@@ -0,0 +1,290 @@
+// "New from artists your phlock loves": recent releases by artists the user's phlock
+// members have picked as daily songs (private sends stay private). refresh-phlock-new-releases
+// computes the feed on a schedule and caches it in phlock_new_releases;
+// get-phlock-new-releases serves the cached copy.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { spotify, type SpotifyAlbumRef } from "./spotify/index.ts";
+import { appleMusic, artworkUrl, type AppleMusicAlbum } from "./apple-music/index.ts";
+import { normalizeArtist, normalizeTitle, versionTags } from "./matching.ts";
+import { mapWithConcurrency } from "./concurrency.ts";
+import { DEFAULT_REGION, normalizeRegion } from "./region.ts";
+
+type MusicPlatform = "spotify" | "apple_music";
+
+export interface NewRelease {
+  id: string;
+  platform: MusicPlatform;
+  name: string;
+  type: "album" | "single" | "compilation";
+  releaseDate: string;
+  totalTracks: number | null;
+  artworkUrl: string | null;
+  artistId: string;
+  artistName: string;
+  curatorIds: string[]; // Phlock members who picked this artist as a daily song
+}
+
+export interface NewReleaseFeed {
+  releases: NewRelease[];
+  artistCount: number;
+  days: number;
+  computedAt: string;
+}
+
+interface PhlockArtist {
+  id: string;
+  platform: MusicPlatform;
+  name: string;
+  curatorIds: string[];
+}
+
+/** Releases for one artist plus the track titles of its albums (for single dedupe) */
+interface ArtistReleases {
+  releases: Omit<NewRelease, "curatorIds">[];
+  albumTrackTitles: Map<string, string[]>;
+}
+
+/** Per-run cache of artist lookups so artists shared into many phlocks are fetched once */
+export type ArtistReleaseCache = Map<string, Promise<ArtistReleases>>;
+
+export const DEFAULT_WINDOW_DAYS = 14;
+export const MAX_WINDOW_DAYS = 60;
+// Phlock shares older than this no longer say much about current taste
+const SHARE_LOOKBACK_DAYS = 180;
+// PostgREST's max rows per request; the most recent picks are the ones that matter
+const SHARE_SCAN = 1000;
+// Bounds the Spotify/Apple calls for one user's feed
+const MAX_ARTISTS = 60;
+const ARTIST_CONCURRENCY = 4;
+// Enough of an artist's catalog to cover the last few weeks of releases
+const RELEASES_FETCH_LIMIT = 25;
+const MAX_RELEASES = 50;
+
+/** shares.artist_id holds a raw Spotify ID or a "spotify:"/"apple:" prefixed ID */
+function parseShareArtistId(artistId: string): { id: string; platform: MusicPlatform } {
+  const [prefix, rest] = artistId.split(":", 2);
+  if (rest && prefix === "apple") return { id: rest, platform: "apple_music" };
+  if (rest && prefix === "spotify") return { id: rest, platform: "spotify" };
+  return { id: artistId, platform: "spotify" };
+}
+
+export function windowStart(days: number, now = new Date()): string {
+  const start = new Date(now);
+  start.setUTCDate(start.getUTCDate() - days);
+  return start.toISOString().slice(0, 10);
+}
+
+/**
+ * Distinct artists the user's phlock members picked as daily songs, most-picked-by first.
+ * Returns an empty list when the user has no phlock.
+ */
+export async function listPhlockArtists(supabase: SupabaseClient, userId: string): Promise<PhlockArtist[]> {
+  const { data: members, error: membersError } = await supabase
+    .from("follows")
+    .select("following_id")
+    .eq("follower_id", userId)
+    .eq("is_in_phlock", true);
+
+  if (membersError) throw membersError;
+
+  const memberIds = ((members ?? []) as Array<{ following_id: string }>).map((row) => row.following_id);
+  if (memberIds.length === 0) return [];
+
+  const { data: shares, error: sharesError } = await supabase
+    .from("shares")
+    .select("sender_id, artist_id, artist_name")
+    .in("sender_id", memberIds)
+    .eq("is_daily_song", true)
+    .not("artist_id", "is", null)
+    .gte("created_at", `${windowStart(SHARE_LOOKBACK_DAYS)}T00:00:00Z`)
+    .order("created_at", { ascending: false })
+    .limit(SHARE_SCAN);
+
+  if (sharesError) throw sharesError;
+
+  const artists = new Map<string, PhlockArtist>();
+  for (const share of (shares ?? []) as Array<{ sender_id: string; artist_id: string; artist_name: string }>) {
+    const { id, platform } = parseShareArtistId(share.artist_id);
+    const key = `${platform}:${id}`;
+    const artist = artists.get(key) ?? { id, platform, name: share.artist_name, curatorIds: [] };
+    if (!artist.curatorIds.includes(share.sender_id)) artist.curatorIds.push(share.sender_id);
+    artists.set(key, artist);
+  }
+
+  // Map keeps first-seen (most recent share) order for ties
+  return [...artists.values()]
+    .sort((a, b) => b.curatorIds.length - a.curatorIds.length)
+    .slice(0, MAX_ARTISTS);
+}
+
+function fromSpotifyAlbum(album: SpotifyAlbumRef, artist: PhlockArtist): Omit<NewRelease, "curatorIds"> {
+  return {
+    id: album.id,
+    platform: "spotify",
+    name: album.name,
+    type: album.album_type ?? "album",
+    releaseDate: album.release_date ?? "",
+    totalTracks: album.total_tracks ?? null,
+    artworkUrl: album.images?.[0]?.url ?? null,
+    artistId: artist.id,
+    artistName: artist.name,
+  };
+}
+
+function fromAppleMusicAlbum(album: AppleMusicAlbum, artist: PhlockArtist): Omit<NewRelease, "curatorIds"> {
+  const { attributes } = album;
+  return {
+    id: album.id,
+    platform: "apple_music",
+    name: attributes.name,
+    type: attributes.isCompilation ? "compilation" : attributes.isSingle ? "single" : "album",
+    releaseDate: attributes.releaseDate ?? "",
+    totalTracks: attributes.trackCount ?? null,
+    artworkUrl: artworkUrl(attributes.artwork, 640),
+    artistId: artist.id,
+    artistName: attributes.artistName || artist.name,
+  };
+}
+
+/**
+ * An artist's releases on or after `since`, with the track titles of any albums among
+ * them. Year-only Spotify dates ("2025") sort before any full date, so they drop out.
+ */
+async function fetchArtistReleases(artist: PhlockArtist, since: string, market: string): Promise<ArtistReleases> {
+  let releases: Omit<NewRelease, "curatorIds">[];
+  if (artist.platform === "spotify") {
+    // Spotify lists every album before any single, so page each group separately
+    const pages = await Promise.all(["album", "single"].map((includeGroups) =>
+      spotify.getArtistAlbums(artist.id, { includeGroups, limit: RELEASES_FETCH_LIMIT, market })
+    ));
+    releases = pages.flatMap((page) => page.items).map((album) => fromSpotifyAlbum(album, artist));
+  } else {
+    const albums = await appleMusic.getArtistAlbums(artist.id, {
+      limit: RELEASES_FETCH_LIMIT,
+      storefront: market.toLowerCase(),
+    });
+    releases = albums.map((album) => fromAppleMusicAlbum(album, artist));
+  }
+  releases = releases.filter((release) => release.releaseDate >= since);
+
+  const albumTrackTitles = new Map<string, string[]>();
+  for (const release of releases.filter((r) => r.type !== "single")) {
+    const titles = release.platform === "spotify"
+      ? (await spotify.getAlbumTracks(release.id, { limit: 50, market })).items.map((track) => track.name)
+      : (await appleMusic.getAlbumTracks(release.id, { storefront: market.toLowerCase() }))
+        .data.map((song) => song.attributes.name);
+    albumTrackTitles.set(release.id, titles);
+  }
+
+  return { releases, albumTrackTitles };
+}
+
+/** Title identity for dedupe: a remix or live single is not the album version */
+function releaseTitleKey(title: string): string {
+  return [normalizeTitle(title), ...[...versionTags(title)].sort()].join("|");
+}
+
+/**
+ * Drop singles whose songs also appear on an album by the same artist in the window,
+ * and the same release listed on both platforms (preferring `platform`). Newest first.
+ */
+export function dedupeReleases(
+  releases: NewRelease[],
+  albumTrackTitles: Map<string, string[]>,
+  platform: MusicPlatform
+): NewRelease[] {
+  const albumTitlesByArtist = new Map<string, Set<string>>();
+  for (const release of releases) {
+    const titles = albumTrackTitles.get(release.id);
+    if (!titles) continue;
+    const artistKey = normalizeArtist(release.artistName);
+    const set = albumTitlesByArtist.get(artistKey) ?? new Set<string>();
+    titles.forEach((title) => set.add(releaseTitleKey(title)));
+    albumTitlesByArtist.set(artistKey, set);
+  }
+
+  const seen = new Set<string>();
+  return [...releases]
+    .sort((a, b) =>
+      b.releaseDate.localeCompare(a.releaseDate) ||
+      Number(b.platform === platform) - Number(a.platform === platform)
+    )
+    .filter((release) => {
+      const artistKey = normalizeArtist(release.artistName);
+      const title = releaseTitleKey(release.name);
+      if (release.type === "single" && albumTitlesByArtist.get(artistKey)?.has(title)) return false;
+
+      const key = `${artistKey}|${title}|${release.type}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Compute a user's new-release feed and store it in phlock_new_releases.
+ * `cache` shares artist lookups across the users in one scheduled run.
+ */
+export async function refreshUserNewReleases(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { days?: number; cache?: ArtistReleaseCache } = {}
+): Promise<NewReleaseFeed> {
+  const days = Math.min(Math.max(1, options.days ?? DEFAULT_WINDOW_DAYS), MAX_WINDOW_DAYS);
+  const cache = options.cache ?? new Map();
+
+  const { data: user, error: userError } = await supabase
+    .from("users")
+    .select("music_platform, country_code")
+    .eq("id", userId)
+    .single();
+
+  if (userError) throw userError;
+
+  const platform: MusicPlatform = user.music_platform === "apple_music" ? "apple_music" : "spotify";
+  const market = normalizeRegion(user.country_code) ?? DEFAULT_REGION;
+  const since = windowStart(days);
+
+  const artists = await listPhlockArtists(supabase, userId);
+
+  const fetched = await mapWithConcurrency(artists, ARTIST_CONCURRENCY, async (artist) => {
+    const key = `${artist.platform}:${artist.id}:${market}:${since}`;
+    if (!cache.has(key)) cache.set(key, fetchArtistReleases(artist, since, market));
+    try {
+      return { artist, ...(await cache.get(key)!) };
+    } catch (error) {
+      // One unavailable artist shouldn't empty the whole feed
+      console.error(`⚠️ Failed to fetch releases for ${artist.platform} artist ${artist.id}:`, error);
+      return { artist, releases: [], albumTrackTitles: new Map<string, string[]>() };
+    }
+  });
+
+  const albumTrackTitles = new Map<string, string[]>();
+  const candidates: NewRelease[] = [];
+  for (const { artist, releases, albumTrackTitles: titles } of fetched) {
+    titles.forEach((value, id) => albumTrackTitles.set(id, value));
+    candidates.push(...releases.map((release) => ({ ...release, curatorIds: artist.curatorIds })));
+  }
+
+  const feed: NewReleaseFeed = {
+    releases: dedupeReleases(candidates, albumTrackTitles, platform).slice(0, MAX_RELEASES),
+    artistCount: artists.length,
+    days,
+    computedAt: new Date().toISOString(),
+  };
+
+  const { error: upsertError } = await supabase
+    .from("phlock_new_releases")
+    .upsert({
+      user_id: userId,
+      releases: feed.releases,
+      artist_count: feed.artistCount,
+      window_days: feed.days,
+      computed_at: feed.computedAt,
+    }, { onConflict: "user_id" });
+
+  if (upsertError) throw upsertError;
+
+  return feed;
+}
@@ -0,0 +1,388 @@
+// "Who should I add?": ranks curators for a user's phlock. Candidates come from the
+// follow graph, phone contacts and people who pick the same artists; they are scored
+// on those signals plus taste compatibility (taste-compatibility.ts) and how reliably
+// they pick a daily song, and each suggestion carries the reasons behind it.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCompatibility, type Compatibility } from "./taste-compatibility.ts";
+import { primaryArtistKey } from "./taste-profile.ts";
+
+export interface CandidateSignals {
+  youFollow: boolean;
+  followsYou: boolean;
+  mutualFollows: number; // People you follow who follow them
+  inFollowingPhlocks: number; // Phlocks of people you follow that they're in
+  inYourContacts: boolean;
+  hasYouInContacts: boolean; // Ranking only: never shown, it would reveal their address book
+  sharedArtists: string[]; // Artists you've both picked recently
+  compatibility: Pick<Compatibility, "score" | "explanation"> | null;
+  streak: number; // users.daily_song_streak
+  activeDays: number; // Days with a daily song in the last ACTIVITY_WINDOW_DAYS
+  phlockCount: number; // users.phlock_count
+}
+
+export interface PhlockRecommendation {
+  userId: string;
+  displayName: string | null;
+  username: string | null;
+  profilePhotoUrl: string | null;
+  score: number;
+  reasons: string[]; // Strongest first
+  signals: Omit<CandidateSignals, "hasYouInContacts">;
+}
+
+interface CandidateUser {
+  id: string;
+  display_name: string | null;
+  username: string | null;
+  profile_photo_url: string | null;
+  is_private: boolean | null;
+  daily_song_streak: number | null;
+  phlock_count: number | null;
+}
+
+export const ACTIVITY_WINDOW_DAYS = 14;
+// Bounds on the graph walk and share scans for one request
+const FOLLOWING_SCAN = 5000;
+const CONTACT_SCAN = 2000;
+const OWN_SHARE_SCAN = 100;
+const OWN_ARTIST_LIMIT = 20;
+const ARTIST_SHARE_SCAN = 500;
+const ID_BATCH = 100;
+// Candidates kept after the cheap signals, and how many of those get a full taste score
+const CANDIDATE_POOL = 100;
+const COMPATIBILITY_POOL = 15;
+
+function emptySignals(): CandidateSignals {
+  return {
+    youFollow: false,
+    followsYou: false,
+    mutualFollows: 0,
+    inFollowingPhlocks: 0,
+    inYourContacts: false,
+    hasYouInContacts: false,
+    sharedArtists: [],
+    compatibility: null,
+    streak: 0,
+    activeDays: 0,
+    phlockCount: 0,
+  };
+}
+
+/**
+ * Score a candidate (0-100) and list the reasons, strongest first. Someone who
+ * hasn't picked a song lately makes a poor curator, so inactivity halves the score.
+ */
+export function scoreRecommendation(signals: CandidateSignals): { score: number; reasons: string[] } {
+  const parts: Array<{ points: number; reason: string | null }> = [];
+
+  if (signals.inYourContacts) parts.push({ points: 20, reason: "In your contacts" });
+  else if (signals.hasYouInContacts) parts.push({ points: 8, reason: null });
+
+  if (signals.youFollow && signals.followsYou) parts.push({ points: 20, reason: "You follow each other" });
+  else if (signals.followsYou) parts.push({ points: 10, reason: "Follows you" });
+  else if (signals.youFollow) parts.push({ points: 12, reason: null });
+
+  if (signals.mutualFollows > 0) {
+    parts.push({
+      points: 12 * Math.min(1, signals.mutualFollows / 5),
+      reason: `Followed by ${signals.mutualFollows} ${signals.mutualFollows === 1 ? "person" : "people"} you follow`,
+    });
+  }
+  if (signals.inFollowingPhlocks > 0) {
+    parts.push({
+      points: 10 * Math.min(1, signals.inFollowingPhlocks / 3),
+      reason: `In ${signals.inFollowingPhlocks} ${signals.inFollowingPhlocks === 1 ? "phlock" : "phlocks"} of people you follow`,
+    });
+  }
+
+  if (signals.compatibility) {
+    parts.push({
+      points: 0.3 * signals.compatibility.score,
+      reason: signals.compatibility.score > 0
+        ? signals.compatibility.explanation[0] ?? `${signals.compatibility.score}% taste match`
+        : null,
+    });
+  } else if (signals.sharedArtists.length > 0) {
+    parts.push({
+      points: 10 * Math.min(1, signals.sharedArtists.length / 3),
+      reason: `You both pick ${signals.sharedArtists.slice(0, 2).join(" and ")}`,
+    });
+  }
+
+  if (signals.streak >= 3) {
+    parts.push({ points: 8 * Math.min(1, signals.streak / ACTIVITY_WINDOW_DAYS), reason: `${signals.streak}-day streak` });
+  }
+  parts.push({
+    points: 10 * (signals.activeDays / ACTIVITY_WINDOW_DAYS),
+    reason: signals.activeDays >= ACTIVITY_WINDOW_DAYS / 2
+      ? `Picked a song ${signals.activeDays} of the last ${ACTIVITY_WINDOW_DAYS} days`
+      : null,
+  });
+
+  if (signals.phlockCount > 0) {
+    parts.push({
+      points: 5 * Math.min(1, Math.log1p(signals.phlockCount) / Math.log1p(50)),
+      reason: signals.phlockCount >= 5 ? `In ${signals.phlockCount} phlocks` : null,
+    });
+  }
+
+  const total = parts.reduce((sum, part) => sum + part.points, 0);
+  return {
+    score: Math.round(Math.min(100, signals.activeDays === 0 ? total / 2 : total)),
+    reasons: parts
+      .filter((part) => part.reason && part.points > 0)
+      .sort((a, b) => b.points - a.points)
+      .map((part) => part.reason!),
+  };
+}
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+async function loadUsers(supabase: SupabaseClient, ids: string[]): Promise<CandidateUser[]> {
+  const users: CandidateUser[] = [];
+  for (let i = 0; i < ids.length; i += ID_BATCH) {
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, display_name, username, profile_photo_url, is_private, daily_song_streak, phlock_count")
+      .in("id", ids.slice(i, i + ID_BATCH));
+
+    if (error) throw error;
+    users.push(...((data ?? []) as CandidateUser[]));
+  }
+  return users;
+}
+
+/**
+ * Contact matches both ways. user_contacts rows are written with the auth user ID by
+ * sync_user_contacts, so both the profile and auth IDs are checked.
+ */
+async function loadContactMatches(
+  supabase: SupabaseClient,
+  userId: string,
+  authUserId: string,
+  phoneHash: string | null
+): Promise<{ inYourContacts: Set<string>; hasYouInContacts: Set<string> }> {
+  const [{ data: contacts, error: contactsError }, { data: knownBy, error: knownByError }] = await Promise.all([
+    supabase
+      .from("user_contacts")
+      .select("phone_hash")
+      .in("user_id", [userId, authUserId])
+      .limit(CONTACT_SCAN),
+    phoneHash
+      ? supabase.from("user_contacts").select("user_id").eq("phone_hash", phoneHash).limit(CONTACT_SCAN)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (contactsError) throw contactsError;
+  if (knownByError) throw knownByError;
+
+  const hashes = [...new Set(((contacts ?? []) as Array<{ phone_hash: string }>).map((row) => row.phone_hash))];
+  const inYourContacts = new Set<string>();
+  for (let i = 0; i < hashes.length; i += ID_BATCH) {
+    const { data, error } = await supabase
+      .from("users")
+      .select("id")
+      .in("phone_hash", hashes.slice(i, i + ID_BATCH));
+
+    if (error) throw error;
+    for (const row of (data ?? []) as Array<{ id: string }>) inYourContacts.add(row.id);
+  }
+
+  const hasYouInContacts = new Set<string>();
+  const ownerIds = [...new Set(((knownBy ?? []) as Array<{ user_id: string }>).map((row) => row.user_id))];
+  for (let i = 0; i < ownerIds.length; i += ID_BATCH) {
+    const batch = ownerIds.slice(i, i + ID_BATCH).join(",");
+    const { data, error } = await supabase
+      .from("users")
+      .select("id")
+      .or(`id.in.(${batch}),auth_user_id.in.(${batch})`);
+
+    if (error) throw error;
+    for (const row of (data ?? []) as Array<{ id: string }>) hasYouInContacts.add(row.id);
+  }
+
+  return { inYourContacts, hasYouInContacts };
+}
+
+/** Other users whose recent daily songs share artists with the user's own recent picks */
+async function loadArtistOverlap(supabase: SupabaseClient, userId: string): Promise<Map<string, string[]>> {
+  const { data: own, error: ownError } = await supabase
+    .from("shares")
+    .select("artist_name")
+    .eq("sender_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(OWN_SHARE_SCAN);
+
+  if (ownError) throw ownError;
+
+  const counts = new Map<string, { name: string; count: number }>();
+  for (const row of (own ?? []) as Array<{ artist_name: string }>) {
+    const key = primaryArtistKey(row.artist_name);
+    if (!key) continue;
+    const entry = counts.get(key) ?? { name: row.artist_name, count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+
+  const artists = [...counts.entries()].sort((a, b) => b[1].count - a[1].count).slice(0, OWN_ARTIST_LIMIT);
+  if (artists.length === 0) return new Map();
+
+  const { data: shares, error: sharesError } = await supabase
+    .from("shares")
+    .select("sender_id, artist_name")
+    .eq("is_daily_song", true)
+    .neq("sender_id", userId)
+    .in("artist_name", artists.map(([, artist]) => artist.name))
+    .gte("selected_date", daysAgo(90))
+    .limit(ARTIST_SHARE_SCAN);
+
+  if (sharesError) throw sharesError;
+
+  const names = new Map(artists.map(([key, artist]) => [key, artist.name.split(",")[0].trim()]));
+  const overlap = new Map<string, Set<string>>();
+  for (const share of (shares ?? []) as Array<{ sender_id: string; artist_name: string }>) {
+    const name = names.get(primaryArtistKey(share.artist_name));
+    if (!name) continue;
+    const shared = overlap.get(share.sender_id) ?? new Set<string>();
+    shared.add(name);
+    overlap.set(share.sender_id, shared);
+  }
+
+  return new Map([...overlap.entries()].map(([senderId, shared]) => [senderId, [...shared]]));
+}
+
+/** Days with a daily song in the activity window, per user */
+async function loadActiveDays(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, number>> {
+  const days = new Map<string, Set<string>>();
+  for (let i = 0; i < userIds.length; i += ID_BATCH) {
+    const { data, error } = await supabase
+      .from("shares")
+      .select("sender_id, selected_date")
+      .in("sender_id", userIds.slice(i, i + ID_BATCH))
+      .eq("is_daily_song", true)
+      .gte("selected_date", daysAgo(ACTIVITY_WINDOW_DAYS - 1));
+
+    if (error) throw error;
+    for (const row of (data ?? []) as Array<{ sender_id: string; selected_date: string }>) {
+      const dates = days.get(row.sender_id) ?? new Set<string>();
+      dates.add(row.selected_date);
+      days.set(row.sender_id, dates);
+    }
+  }
+  return new Map([...days.entries()].map(([id, dates]) => [id, dates.size]));
+}
+
+/**
+ * Suggested phlock members for `userId`, best first. Skips current phlock members
+ * and private profiles the user doesn't follow.
+ */
+export async function recommendPhlockMembers(
+  supabase: SupabaseClient,
+  user: { id: string; authUserId: string; phoneHash: string | null },
+  limit: number
+): Promise<PhlockRecommendation[]> {
+  const [{ data: following, error: followingError }, { data: followers, error: followersError }] = await Promise.all([
+    supabase.from("follows").select("following_id, is_in_phlock").eq("follower_id", user.id),
+    supabase.from("follows").select("follower_id").eq("following_id", user.id),
+  ]);
+
+  if (followingError) throw followingError;
+  if (followersError) throw followersError;
+
+  const followingRows = (following ?? []) as Array<{ following_id: string; is_in_phlock: boolean | null }>;
+  const youFollow = new Set(followingRows.map((row) => row.following_id));
+  const inPhlock = new Set(followingRows.filter((row) => row.is_in_phlock).map((row) => row.following_id));
+
+  const signals = new Map<string, CandidateSignals>();
+  const signalsFor = (id: string) => {
+    let entry = signals.get(id);
+    if (!entry) {
+      entry = emptySignals();
+      signals.set(id, entry);
+    }
+    return entry;
+  };
+
+  for (const id of youFollow) signalsFor(id).youFollow = true;
+  for (const row of (followers ?? []) as Array<{ follower_id: string }>) signalsFor(row.follower_id).followsYou = true;
+
+  // Two hops: who the people you follow follow, and whose phlocks they've put people in
+  if (youFollow.size > 0) {
+    const followed = [...youFollow];
+    for (let i = 0; i < followed.length; i += ID_BATCH) {
+      const { data, error } = await supabase
+        .from("follows")
+        .select("following_id, is_in_phlock")
+        .in("follower_id", followed.slice(i, i + ID_BATCH))
+        .limit(FOLLOWING_SCAN);
+
+      if (error) throw error;
+      for (const row of (data ?? []) as Array<{ following_id: string; is_in_phlock: boolean | null }>) {
+        const entry = signalsFor(row.following_id);
+        entry.mutualFollows += 1;
+        if (row.is_in_phlock) entry.inFollowingPhlocks += 1;
+      }
+    }
+  }
+
+  const [contacts, artistOverlap] = await Promise.all([
+    loadContactMatches(supabase, user.id, user.authUserId, user.phoneHash),
+    loadArtistOverlap(supabase, user.id),
+  ]);
+  for (const id of contacts.inYourContacts) signalsFor(id).inYourContacts = true;
+  for (const id of contacts.hasYouInContacts) signalsFor(id).hasYouInContacts = true;
+  for (const [id, artists] of artistOverlap) signalsFor(id).sharedArtists = artists;
+
+  signals.delete(user.id);
+  for (const id of inPhlock) signals.delete(id);
+  if (signals.size === 0) return [];
+
+  // Cheap signals first, so profiles, activity and taste are only loaded for the likeliest
+  const pool = [...signals.entries()]
+    .sort((a, b) => scoreRecommendation(b[1]).score - scoreRecommendation(a[1]).score)
+    .slice(0, CANDIDATE_POOL)
+    .map(([id]) => id);
+
+  const users = (await loadUsers(supabase, pool))
+    .filter((candidate) => !candidate.is_private || youFollow.has(candidate.id));
+  if (users.length === 0) return [];
+
+  const activeDays = await loadActiveDays(supabase, users.map((candidate) => candidate.id));
+  for (const candidate of users) {
+    const entry = signals.get(candidate.id)!;
+    entry.streak = candidate.daily_song_streak ?? 0;
+    entry.phlockCount = candidate.phlock_count ?? 0;
+    entry.activeDays = activeDays.get(candidate.id) ?? 0;
+  }
+
+  const tastePool = users
+    .sort((a, b) => scoreRecommendation(signals.get(b.id)!).score - scoreRecommendation(signals.get(a.id)!).score)
+    .slice(0, COMPATIBILITY_POOL)
+    .map((candidate) => candidate.id);
+  for (const result of await getCompatibility(supabase, user.id, tastePool)) {
+    signals.get(result.userId)!.compatibility = { score: result.score, explanation: result.explanation };
+  }
+
+  return users
+    .map((candidate) => {
+      const candidateSignals = signals.get(candidate.id)!;
+      const { score, reasons } = scoreRecommendation(candidateSignals);
+      const { hasYouInContacts: _hasYouInContacts, ...visibleSignals } = candidateSignals;
+      return {
+        userId: candidate.id,
+        displayName: candidate.display_name,
+        username: candidate.username,
+        profilePhotoUrl: candidate.profile_photo_url,
+        score,
+        reasons,
+        signals: visibleSignals,
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,285 @@
+// Users' own music-platform OAuth tokens (the `platform_tokens` table).
+// Lets edge functions act on a user's Spotify account, refreshing the access
+// token through the stored refresh token when it is about to expire. Tokens that
+// can't be refreshed are marked revoked so the app can ask the user to reconnect.
+//
+// Apple Music User Tokens are issued by MusicKit on the device and can't be
+// refreshed here; they are only checked for expiry.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { fetchWithRetry } from "./http.ts";
+import { AppleMusicAuthError } from "./apple-music/index.ts";
+import {
+  SpotifyAuthError,
+  SpotifyConfigError,
+  SpotifyUnavailableError,
+  type SpotifyTokenProvider,
+  type SpotifyTokenResponse,
+} from "./spotify/index.ts";
+
+export type PlatformType = "spotify" | "apple_music";
+
+export interface PlatformToken {
+  id: string;
+  user_id: string;
+  platform_type: PlatformType;
+  access_token: string;
+  refresh_token: string | null;
+  token_expires_at: string;
+  scope: string | null;
+  updated_at: string;
+  revoked_at: string | null;
+  refresh_failures: number;
+  refresh_retry_at: string | null;
+}
+
+export const TOKEN_COLUMNS =
+  "id, user_id, platform_type, access_token, refresh_token, token_expires_at, scope, updated_at, revoked_at, refresh_failures, refresh_retry_at";
+
+const SPOTIFY_ACCOUNTS_URL = "https://accounts.spotify.com/api/token";
+const SPOTIFY_RECONNECT_MESSAGE = "Spotify access expired. Reconnect Spotify and try again.";
+const APPLE_MUSIC_RECONNECT_MESSAGE = "Apple Music access expired. Reconnect Apple Music and try again.";
+// Refresh this long before the stored expiry so a request never races it
+const REFRESH_BUFFER_MS = 5 * 60 * 1000;
+// Sweep backoff after a failed refresh: 2^failures minutes, at most a day
+const MAX_RETRY_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/** The user's most recently stored token for a platform */
+export async function getPlatformToken(
+  supabase: SupabaseClient,
+  userId: string,
+  platform: PlatformType
+): Promise<PlatformToken | null> {
+  const { data, error } = await supabase
+    .from("platform_tokens")
+    .select(TOKEN_COLUMNS)
+    .eq("user_id", userId)
+    .eq("platform_type", platform)
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as PlatformToken | null;
+}
+
+/** Whether the token was granted every scope in `required` */
+export function hasScopes(token: PlatformToken, required: string[]): boolean {
+  const granted = new Set((token.scope ?? "").split(/\s+/).filter(Boolean));
+  return required.every((scope) => granted.has(scope));
+}
+
+export function needsRefresh(token: PlatformToken, now = Date.now()): boolean {
+  return Date.parse(token.token_expires_at) - now < REFRESH_BUFFER_MS;
+}
+
+/** The error to surface when the user has to reconnect `platform` */
+export function reconnectError(platform: PlatformType): SpotifyAuthError | AppleMusicAuthError {
+  return platform === "spotify"
+    ? new SpotifyAuthError(SPOTIFY_RECONNECT_MESSAGE)
+    : new AppleMusicAuthError(APPLE_MUSIC_RECONNECT_MESSAGE);
+}
+
+/** Flag the token as unusable until the user reconnects the platform */
+export async function markTokenRevoked(
+  supabase: SupabaseClient,
+  token: PlatformToken,
+  reason: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("platform_tokens")
+    .update({ revoked_at: new Date().toISOString(), last_refresh_error: reason })
+    .eq("id", token.id);
+
+  if (error) throw error;
+  console.log(`🚫 Marked ${token.platform_type} token for user ${token.user_id} revoked: ${reason}`);
+}
+
+/** When the sweep may retry a token that has now failed to refresh `failures` times in a row */
+export function refreshRetryAt(failures: number, now = Date.now()): string {
+  const delay = Math.min(2 ** failures * 60 * 1000, MAX_RETRY_DELAY_MS);
+  return new Date(now + delay).toISOString();
+}
+
+async function recordRefreshFailure(supabase: SupabaseClient, token: PlatformToken, reason: string): Promise<void> {
+  const failures = token.refresh_failures + 1;
+  const { error } = await supabase
+    .from("platform_tokens")
+    .update({
+      refresh_failures: failures,
+      refresh_retry_at: refreshRetryAt(failures),
+      last_refresh_error: reason,
+    })
+    .eq("id", token.id);
+
+  if (error) {
+    console.error(`Failed to record token refresh failure for user ${token.user_id}:`, error);
+  }
+}
+
+async function reloadToken(supabase: SupabaseClient, token: PlatformToken): Promise<PlatformToken | null> {
+  const { data, error } = await supabase
+    .from("platform_tokens")
+    .select(TOKEN_COLUMNS)
+    .eq("id", token.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as PlatformToken | null;
+}
+
+/**
+ * Exchange the stored refresh token for a new access token and persist it.
+ * The app signs in with PKCE, so the refresh uses the client ID alone.
+ *
+ * A rejected refresh token (invalid_grant) marks the row revoked and throws
+ * SpotifyAuthError; network and 5xx failures leave it live and throw
+ * SpotifyUnavailableError.
+ */
+export async function refreshSpotifyToken(
+  supabase: SupabaseClient,
+  token: PlatformToken
+): Promise<PlatformToken> {
+  const clientId = Deno.env.get("SPOTIFY_CLIENT_ID");
+  if (!clientId) {
+    throw new SpotifyConfigError();
+  }
+  if (token.revoked_at) {
+    throw reconnectError("spotify");
+  }
+  if (!token.refresh_token) {
+    await markTokenRevoked(supabase, token, "No refresh token stored");
+    throw reconnectError("spotify");
+  }
+
+  let response: Response;
+  try {
+    response = await fetchWithRetry(SPOTIFY_ACCOUNTS_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: token.refresh_token,
+        client_id: clientId,
+      }).toString(),
+    });
+  } catch (error) {
+    await recordRefreshFailure(supabase, token, error.message);
+    throw new SpotifyUnavailableError();
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`Spotify token refresh failed for user ${token.user_id}:`, errorText);
+
+    if (response.status >= 500 || response.status === 429) {
+      await recordRefreshFailure(supabase, token, `HTTP ${response.status}`);
+      throw new SpotifyUnavailableError();
+    }
+    // Anything but invalid_grant (e.g. invalid_client) is our configuration, not the user's grant
+    if (!errorText.includes("invalid_grant")) {
+      await recordRefreshFailure(supabase, token, errorText.slice(0, 500) || `HTTP ${response.status}`);
+      throw new SpotifyConfigError("Spotify token refresh is misconfigured");
+    }
+
+    // Spotify rotates PKCE refresh tokens, so a concurrent refresh (here or in the
+    // app) may have replaced ours; only a rejection of the current one is final
+    const latest = await reloadToken(supabase, token);
+    if (latest && !latest.revoked_at && latest.refresh_token !== token.refresh_token) {
+      return needsRefresh(latest) ? await refreshSpotifyToken(supabase, latest) : latest;
+    }
+
+    await markTokenRevoked(supabase, token, errorText.slice(0, 500));
+    throw reconnectError("spotify");
+  }
+
+  const body: SpotifyTokenResponse = await response.json();
+  const now = new Date().toISOString();
+  const refreshed: PlatformToken = {
+    ...token,
+    access_token: body.access_token,
+    // Spotify only sometimes rotates the refresh token
+    refresh_token: body.refresh_token ?? token.refresh_token,
+    token_expires_at: new Date(Date.now() + body.expires_in * 1000).toISOString(),
+    scope: body.scope ?? token.scope,
+    updated_at: now,
+    refresh_failures: 0,
+    refresh_retry_at: null,
+  };
+
+  const { error } = await supabase
+    .from("platform_tokens")
+    .update({
+      access_token: refreshed.access_token,
+      refresh_token: refreshed.refresh_token,
+      token_expires_at: refreshed.token_expires_at,
+      scope: refreshed.scope,
+      updated_at: now,
+      last_refreshed_at: now,
+      refresh_failures: 0,
+      refresh_retry_at: null,
+      last_refresh_error: null,
+    })
+    .eq("id", token.id);
+
+  if (error) {
+    // The new token still works for this request; the next one refreshes again
+    console.error(`Failed to store refreshed Spotify token for user ${token.user_id}:`, error);
+  }
+
+  return refreshed;
+}
+
+/**
+ * A usable access token for the user's platform account, refreshed and
+ * persisted first if it is about to expire. Throws the platform's auth error
+ * when the user has no token or has to reconnect.
+ */
+export async function getValidAccessToken(
+  supabase: SupabaseClient,
+  userId: string,
+  platform: PlatformType
+): Promise<string> {
+  const token = await getPlatformToken(supabase, userId, platform);
+  if (!token || token.revoked_at) {
+    throw reconnectError(platform);
+  }
+  if (!needsRefresh(token)) {
+    return token.access_token;
+  }
+
+  if (platform === "apple_music") {
+    if (Date.parse(token.token_expires_at) <= Date.now()) {
+      await markTokenRevoked(supabase, token, "Apple Music user token expired");
+      throw reconnectError(platform);
+    }
+    return token.access_token;
+  }
+
+  return (await refreshSpotifyToken(supabase, token)).access_token;
+}
+
+/**
+ * Token provider for createSpotifyClient acting as the user. Refreshes when the
+ * stored token is near expiry or Spotify rejects it.
+ */
+export function createUserTokenProvider(supabase: SupabaseClient, token: PlatformToken): SpotifyTokenProvider {
+  let current = token;
+  let forceRefresh = false;
+
+  return {
+    async getToken() {
+      if (current.revoked_at) {
+        throw reconnectError("spotify");
+      }
+      if (forceRefresh || needsRefresh(current)) {
+        current = await refreshSpotifyToken(supabase, current);
+        forceRefresh = false;
+      }
+      return current.access_token;
+    },
+    invalidate() {
+      forceRefresh = true;
+    },
+  };
+}
@@ -0,0 +1,28 @@
+// Delivers APNs pushes from other edge functions through send-push-notification,
+// which owns the device tokens and APNs credentials.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface PushMessage {
+  userId: string;
+  title: string;
+  body: string;
+  type: string; // notifications.type, for routing the tap in the app
+  data?: Record<string, unknown>;
+}
+
+/** Push to all of the user's devices; returns how many devices it reached */
+export async function sendPush(supabase: SupabaseClient, message: PushMessage): Promise<number> {
+  const { data, error } = await supabase.functions.invoke("send-push-notification", {
+    body: {
+      user_id: message.userId,
+      title: message.title,
+      body: message.body,
+      type: message.type,
+      data: message.data,
+    },
+  });
+
+  if (error) throw error;
+  return (data as { sent?: number } | null)?.sent ?? 0;
+}
@@ -0,0 +1,107 @@
+// User region for catalog requests. Spotify takes an upper-case `market` and
+// Apple Music/iTunes a lower-case storefront/country; both are ISO 3166-1 alpha-2.
+// Requests may pass `region` explicitly, otherwise we use the caller's profile.
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AppleMusicSong } from "./apple-music/types.ts";
+import type { SpotifyTrack } from "./spotify/types.ts";
+
+export const DEFAULT_REGION = "US";
+
+export interface Region {
+  market: string; // Spotify market, e.g. "DE"
+  storefront: string; // Apple Music storefront / iTunes country, e.g. "de"
+  source: "request" | "profile" | "default";
+}
+
+/** Upper-case two-letter region code, or null when the value isn't one */
+export function normalizeRegion(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const code = value.trim().toUpperCase();
+  return /^[A-Z]{2}$/.test(code) ? code : null;
+}
+
+export function toRegion(code: string, source: Region["source"]): Region {
+  return { market: code, storefront: code.toLowerCase(), source };
+}
+
+/** Region saved on the calling user's profile (users.country_code), if any */
+async function regionFromProfile(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return null;
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    // Fails for anon-key calls, which simply have no profile region
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return null;
+    }
+
+    const { data } = await supabase
+      .from("users")
+      .select("country_code")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    return normalizeRegion(data?.country_code);
+  } catch (error) {
+    console.error("Failed to read region from profile:", error);
+    return null;
+  }
+}
+
+/**
+ * Region for this request: an explicit `requested` code wins, then the
+ * caller's profile, then DEFAULT_REGION.
+ */
+export async function resolveRegion(req: Request, requested?: unknown): Promise<Region> {
+  const explicit = normalizeRegion(requested);
+  if (explicit) {
+    return toRegion(explicit, "request");
+  }
+
+  const fromProfile = await regionFromProfile(req);
+  if (fromProfile) {
+    return toRegion(fromProfile, "profile");
+  }
+
+  return toRegion(DEFAULT_REGION, "default");
+}
+
+/**
+ * Regions scheduled jobs should cover: DEFAULT_REGION plus every region saved on a
+ * profile, capped at `max` (needs a service-role client to read all users).
+ */
+export async function listUserRegions(supabase: SupabaseClient, max: number): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("users")
+    .select("country_code")
+    .not("country_code", "is", null);
+
+  if (error) throw error;
+
+  const codes = ((data ?? []) as Array<{ country_code: string }>)
+    .map((row) => normalizeRegion(row.country_code))
+    .filter((code): code is string => code !== null);
+  return [...new Set([DEFAULT_REGION, ...codes])].slice(0, max);
+}
+
+/** Spotify only reports is_playable when a market was passed; absent means playable */
+export function isSpotifyTrackPlayable(track: SpotifyTrack): boolean {
+  return track.is_playable !== false;
+}
+
+/** Apple Music omits playParams for songs that can't be played in the storefront */
+export function isAppleMusicSongPlayable(song: AppleMusicSong): boolean {
+  return song.attributes.playParams !== undefined;
+}
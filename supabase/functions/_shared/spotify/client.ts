@@ -0,0 +1,401 @@
+// Shared Spotify Web API client for edge functions.
+// Handles token caching, Retry-After aware backoff and 401 token invalidation
+// so every function talks to Spotify the same way.
+
+import { fetchWithRetry } from "../http.ts";
+import {
+  SpotifyAuthError,
+  SpotifyConfigError,
+  SpotifyError,
+  SpotifyNotFoundError,
+  SpotifyRateLimitError,
+  SpotifyUnavailableError,
+} from "./errors.ts";
+import type {
+  SearchOptions,
+  SpotifyAlbum,
+  SpotifyAlbumRef,
+  SpotifyArtist,
+  SpotifyPaging,
+  SpotifyPlayHistory,
+  SpotifyPlaylist,
+  SpotifyPlaylistItem,
+  SpotifySimplifiedTrack,
+  SpotifyTimeRange,
+  SpotifyTokenResponse,
+  SpotifyTrack,
+  SpotifyUserProfile,
+} from "./types.ts";
+
+const SPOTIFY_ACCOUNTS_URL = "https://accounts.spotify.com/api/token";
+const SPOTIFY_API_URL = "https://api.spotify.com/v1";
+
+// Refresh tokens this long before Spotify says they expire
+const TOKEN_EXPIRY_BUFFER_MS = 60_000;
+
+/**
+ * Source of Spotify access tokens. `invalidate` is called when Spotify rejects
+ * a token with 401 so the next `getToken` fetches a fresh one.
+ */
+export interface SpotifyTokenProvider {
+  getToken(): Promise<string>;
+  invalidate(): void;
+}
+
+function createCachedTokenProvider(buildBody: () => string): SpotifyTokenProvider {
+  let cachedToken: { token: string; expiresAt: number } | null = null;
+  // Concurrent requests share a single in-flight token fetch
+  let pending: Promise<string> | null = null;
+
+  async function fetchToken(): Promise<string> {
+    const clientId = Deno.env.get("SPOTIFY_CLIENT_ID");
+    const clientSecret = Deno.env.get("SPOTIFY_CLIENT_SECRET");
+
+    if (!clientId || !clientSecret) {
+      throw new SpotifyConfigError();
+    }
+
+    const response = await fetchWithRetry(SPOTIFY_ACCOUNTS_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      },
+      body: buildBody(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("Token error response:", errorText);
+      throw new SpotifyAuthError(`Spotify authentication failed (${response.status})`);
+    }
+
+    const { access_token, expires_in }: SpotifyTokenResponse = await response.json();
+
+    cachedToken = {
+      token: access_token,
+      expiresAt: Date.now() + expires_in * 1000,
+    };
+
+    return access_token;
+  }
+
+  return {
+    getToken() {
+      if (cachedToken && Date.now() < cachedToken.expiresAt - TOKEN_EXPIRY_BUFFER_MS) {
+        return Promise.resolve(cachedToken.token);
+      }
+      if (!pending) {
+        pending = fetchToken().finally(() => {
+          pending = null;
+        });
+      }
+      return pending;
+    },
+    invalidate() {
+      cachedToken = null;
+    },
+  };
+}
+
+/** App-level token via the client credentials flow (cached per isolate) */
+export const clientCredentialsTokens = createCachedTokenProvider(
+  () => "grant_type=client_credentials"
+);
+
+/** User-level token obtained from a stored refresh token */
+export function createRefreshTokenProvider(refreshToken: string | undefined): SpotifyTokenProvider {
+  return createCachedTokenProvider(() => {
+    if (!refreshToken) {
+      throw new SpotifyConfigError("Spotify refresh token not configured");
+    }
+    return new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    }).toString();
+  });
+}
+
+async function toSpotifyError(response: Response): Promise<SpotifyError> {
+  const errorText = await response.text();
+  console.error(`Spotify API error ${response.status}:`, errorText);
+
+  if (response.status === 401) {
+    return new SpotifyAuthError();
+  }
+  if (response.status === 404) {
+    return new SpotifyNotFoundError();
+  }
+  if (response.status === 429) {
+    const retryAfter = parseInt(response.headers.get("Retry-After") || "1", 10) || 1;
+    return new SpotifyRateLimitError(retryAfter);
+  }
+  if (response.status >= 500) {
+    return new SpotifyUnavailableError();
+  }
+  return new SpotifyError(`Spotify request failed (${response.status})`, response.status);
+}
+
+type QueryParams = Record<string, string | number | undefined>;
+
+function emptyPage<T>(): SpotifyPaging<T> {
+  return { items: [], limit: 0, offset: 0, total: 0, next: null };
+}
+
+export function createSpotifyClient(tokens: SpotifyTokenProvider = clientCredentialsTokens) {
+  /**
+   * Call a Web API path. On 401 the cached token is dropped and the request is
+   * retried once with a fresh token before giving up.
+   */
+  async function request<T>(method: string, path: string, params: QueryParams = {}, body?: unknown): Promise<T> {
+    const url = new URL(`${SPOTIFY_API_URL}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== "") {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await tokens.getToken();
+      const response = await fetchWithRetry(url.toString(), {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+
+      if (response.status === 401 && attempt === 0) {
+        console.log("Spotify rejected cached token, refreshing...");
+        await response.body?.cancel();
+        tokens.invalidate();
+        continue;
+      }
+
+      if (!response.ok) {
+        throw await toSpotifyError(response);
+      }
+
+      // Some writes answer 201/200 with a body, others 204 with none
+      return response.status === 204 ? undefined as T : await response.json();
+    }
+  }
+
+  function get<T>(path: string, params: QueryParams = {}): Promise<T> {
+    return request<T>("GET", path, params);
+  }
+
+  /** Fetch a track by ID; returns null when the ID does not exist or is malformed */
+  async function getTrack(trackId: string, market?: string): Promise<SpotifyTrack | null> {
+    try {
+      return await get<SpotifyTrack>(`/tracks/${encodeURIComponent(trackId)}`, { market });
+    } catch (error) {
+      if (error instanceof SpotifyNotFoundError || (error instanceof SpotifyError && error.status === 400)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /** Fetch up to 50 tracks in one request; unknown IDs are dropped */
+  async function getTracks(trackIds: string[], market?: string): Promise<SpotifyTrack[]> {
+    if (trackIds.length === 0) {
+      return [];
+    }
+    const data = await get<{ tracks: Array<SpotifyTrack | null> }>("/tracks", {
+      ids: trackIds.join(","),
+      market,
+    });
+    return (data.tracks ?? []).filter((track): track is SpotifyTrack => track !== null);
+  }
+
+  /** Fetch an album with its first page of tracks; returns null when the ID does not exist or is malformed */
+  async function getAlbum(albumId: string, market?: string): Promise<SpotifyAlbum | null> {
+    try {
+      return await get<SpotifyAlbum>(`/albums/${encodeURIComponent(albumId)}`, { market });
+    } catch (error) {
+      if (error instanceof SpotifyNotFoundError || (error instanceof SpotifyError && error.status === 400)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async function getAlbumTracks(
+    albumId: string,
+    options: SearchOptions = {}
+  ): Promise<SpotifyPaging<SpotifySimplifiedTrack>> {
+    return await get<SpotifyPaging<SpotifySimplifiedTrack>>(
+      `/albums/${encodeURIComponent(albumId)}/tracks`,
+      { limit: options.limit, offset: options.offset, market: options.market }
+    );
+  }
+
+  /** Fetch an artist by ID; returns null when the ID does not exist or is malformed */
+  async function getArtist(artistId: string): Promise<SpotifyArtist | null> {
+    try {
+      return await get<SpotifyArtist>(`/artists/${encodeURIComponent(artistId)}`);
+    } catch (error) {
+      if (error instanceof SpotifyNotFoundError || (error instanceof SpotifyError && error.status === 400)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /** Fetch up to 50 artists in one request; unknown IDs are dropped */
+  async function getArtists(artistIds: string[]): Promise<SpotifyArtist[]> {
+    if (artistIds.length === 0) {
+      return [];
+    }
+    const data = await get<{ artists: Array<SpotifyArtist | null> }>("/artists", { ids: artistIds.join(",") });
+    return (data.artists ?? []).filter((artist): artist is SpotifyArtist => artist !== null);
+  }
+
+  async function getArtistAlbums(
+    artistId: string,
+    options: SearchOptions & { includeGroups?: string } = {}
+  ): Promise<SpotifyPaging<SpotifyAlbumRef>> {
+    return await get<SpotifyPaging<SpotifyAlbumRef>>(
+      `/artists/${encodeURIComponent(artistId)}/albums`,
+      {
+        include_groups: options.includeGroups ?? "album,single",
+        limit: options.limit,
+        offset: options.offset,
+        market: options.market,
+      }
+    );
+  }
+
+  async function searchTracks(query: string, options: SearchOptions = {}): Promise<SpotifyPaging<SpotifyTrack>> {
+    const data = await get<{ tracks?: SpotifyPaging<SpotifyTrack> }>("/search", {
+      q: query,
+      type: "track",
+      limit: options.limit,
+      offset: options.offset,
+      market: options.market,
+    });
+    return data.tracks ?? emptyPage();
+  }
+
+  async function searchArtists(query: string, options: SearchOptions = {}): Promise<SpotifyPaging<SpotifyArtist>> {
+    const data = await get<{ artists?: SpotifyPaging<SpotifyArtist> }>("/search", {
+      q: query,
+      type: "artist",
+      limit: options.limit,
+      offset: options.offset,
+      market: options.market,
+    });
+    return data.artists ?? emptyPage();
+  }
+
+  async function getArtistTopTracks(artistId: string, market = "US"): Promise<SpotifyTrack[]> {
+    const data = await get<{ tracks: SpotifyTrack[] }>(
+      `/artists/${encodeURIComponent(artistId)}/top-tracks`,
+      { market }
+    );
+    return data.tracks ?? [];
+  }
+
+  async function getPlaylistTracks(
+    playlistId: string,
+    options: SearchOptions = {}
+  ): Promise<SpotifyPaging<SpotifyPlaylistItem>> {
+    return await get<SpotifyPaging<SpotifyPlaylistItem>>(
+      `/playlists/${encodeURIComponent(playlistId)}/tracks`,
+      { limit: options.limit, offset: options.offset, market: options.market }
+    );
+  }
+
+  /** The account behind a user token */
+  async function getCurrentUser(): Promise<SpotifyUserProfile> {
+    return await get<SpotifyUserProfile>("/me");
+  }
+
+  /** The user's most listened artists (needs user-top-read) */
+  async function getTopArtists(
+    options: { timeRange?: SpotifyTimeRange; limit?: number } = {}
+  ): Promise<SpotifyArtist[]> {
+    const data = await get<SpotifyPaging<SpotifyArtist>>("/me/top/artists", {
+      time_range: options.timeRange,
+      limit: options.limit,
+    });
+    return data.items ?? [];
+  }
+
+  /** The user's most listened tracks (needs user-top-read) */
+  async function getTopTracks(
+    options: { timeRange?: SpotifyTimeRange; limit?: number } = {}
+  ): Promise<SpotifyTrack[]> {
+    const data = await get<SpotifyPaging<SpotifyTrack>>("/me/top/tracks", {
+      time_range: options.timeRange,
+      limit: options.limit,
+    });
+    return data.items ?? [];
+  }
+
+  /** Up to the last 50 plays, newest first (needs user-read-recently-played) */
+  async function getRecentlyPlayed(options: { limit?: number } = {}): Promise<SpotifyPlayHistory[]> {
+    const data = await get<{ items: SpotifyPlayHistory[] }>("/me/player/recently-played", { limit: options.limit });
+    return data.items ?? [];
+  }
+
+  async function getCurrentUserPlaylists(options: { limit?: number; offset?: number } = {}): Promise<SpotifyPaging<SpotifyPlaylist>> {
+    return await get<SpotifyPaging<SpotifyPlaylist>>("/me/playlists", { limit: options.limit, offset: options.offset });
+  }
+
+  async function createPlaylist(
+    userId: string,
+    details: { name: string; description?: string; public?: boolean }
+  ): Promise<SpotifyPlaylist> {
+    return await request<SpotifyPlaylist>("POST", `/users/${encodeURIComponent(userId)}/playlists`, {}, details);
+  }
+
+  async function updatePlaylistDetails(
+    playlistId: string,
+    details: { name?: string; description?: string }
+  ): Promise<void> {
+    await request<void>("PUT", `/playlists/${encodeURIComponent(playlistId)}`, {}, details);
+  }
+
+  /** Replace a playlist's items (at most 100 URIs per call) */
+  async function replacePlaylistItems(playlistId: string, uris: string[]): Promise<void> {
+    await request<{ snapshot_id: string }>("PUT", `/playlists/${encodeURIComponent(playlistId)}/tracks`, {}, { uris });
+  }
+
+  /** Append items to a playlist (at most 100 URIs per call) */
+  async function addPlaylistItems(playlistId: string, uris: string[]): Promise<void> {
+    await request<{ snapshot_id: string }>("POST", `/playlists/${encodeURIComponent(playlistId)}/tracks`, {}, { uris });
+  }
+
+  return {
+    get,
+    request,
+    getTrack,
+    getTracks,
+    getAlbum,
+    getAlbumTracks,
+    getArtist,
+    getArtists,
+    getArtistAlbums,
+    searchTracks,
+    searchArtists,
+    getArtistTopTracks,
+    getPlaylistTracks,
+    getCurrentUser,
+    getTopArtists,
+    getTopTracks,
+    getRecentlyPlayed,
+    getCurrentUserPlaylists,
+    createPlaylist,
+    updatePlaylistDetails,
+    replacePlaylistItems,
+    addPlaylistItems,
+  };
+}
+
+export type SpotifyClient = ReturnType<typeof createSpotifyClient>;
+
+/** Default client using app-level client credentials */
+export const spotify = createSpotifyClient();
@@ -0,0 +1,54 @@
+// Typed errors thrown by the shared Spotify client.
+// Messages are user-facing: edge functions pass error.message straight to the app.
+
+export class SpotifyError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "SpotifyError";
+    this.status = status;
+  }
+}
+
+/** SPOTIFY_CLIENT_ID / SPOTIFY_CLIENT_SECRET (or a refresh token) are missing */
+export class SpotifyConfigError extends SpotifyError {
+  constructor(message = "Spotify credentials not configured") {
+    super(message, 500);
+    this.name = "SpotifyConfigError";
+  }
+}
+
+/** Token could not be obtained, or Spotify still returned 401 after a fresh token */
+export class SpotifyAuthError extends SpotifyError {
+  constructor(message = "Spotify session expired. Please try again.") {
+    super(message, 401);
+    this.name = "SpotifyAuthError";
+  }
+}
+
+/** Still rate limited after retrying, or Retry-After is longer than we are willing to wait */
+export class SpotifyRateLimitError extends SpotifyError {
+  readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super("Too many requests. Please wait a moment and try again.", 429);
+    this.name = "SpotifyRateLimitError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class SpotifyNotFoundError extends SpotifyError {
+  constructor(message = "Not found on Spotify") {
+    super(message, 404);
+    this.name = "SpotifyNotFoundError";
+  }
+}
+
+/** Spotify returned a 5xx */
+export class SpotifyUnavailableError extends SpotifyError {
+  constructor() {
+    super("Spotify is temporarily unavailable. Please try again.", 503);
+    this.name = "SpotifyUnavailableError";
+  }
+}
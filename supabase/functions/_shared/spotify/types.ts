@@ -0,0 +1,121 @@
+// Spotify Web API response shapes used across edge functions.
+// Only the fields we actually read are typed; Spotify returns more.
+
+export interface SpotifyImage {
+  url: string;
+  height: number | null;
+  width: number | null;
+}
+
+export interface SpotifyArtistRef {
+  id: string;
+  name: string;
+}
+
+export interface SpotifyAlbumRef {
+  id: string;
+  name: string;
+  images: SpotifyImage[];
+  release_date?: string;
+  album_type?: "album" | "single" | "compilation";
+  total_tracks?: number;
+}
+
+export interface SpotifyTrack {
+  id: string;
+  name: string;
+  artists: SpotifyArtistRef[];
+  album: SpotifyAlbumRef;
+  preview_url: string | null;
+  external_ids?: {
+    isrc?: string;
+  };
+  popularity: number;
+  duration_ms: number;
+  // Only present when the request passed a market
+  is_playable?: boolean;
+  restrictions?: {
+    reason: string;
+  };
+}
+
+/** Track as listed inside an album: no album, popularity or ISRC */
+export interface SpotifySimplifiedTrack {
+  id: string;
+  name: string;
+  artists: SpotifyArtistRef[];
+  preview_url: string | null;
+  duration_ms: number;
+  track_number: number;
+  disc_number: number;
+  is_playable?: boolean;
+}
+
+export interface SpotifyAlbum extends SpotifyAlbumRef {
+  artists: SpotifyArtistRef[];
+  label?: string;
+  genres?: string[];
+  external_ids?: {
+    upc?: string;
+  };
+  tracks: SpotifyPaging<SpotifySimplifiedTrack>;
+}
+
+export interface SpotifyArtist {
+  id: string;
+  name: string;
+  images?: SpotifyImage[];
+  popularity: number;
+  followers?: {
+    total: number;
+  };
+  genres?: string[];
+}
+
+export interface SpotifyPaging<T> {
+  items: T[];
+  limit: number;
+  offset: number;
+  total: number;
+  next: string | null;
+}
+
+export interface SpotifyPlaylistItem {
+  track: SpotifyTrack | null;
+}
+
+export interface SpotifyPlaylist {
+  id: string;
+  name: string;
+  owner: { id: string };
+  external_urls?: { spotify?: string };
+}
+
+/** An entry in the user's recently played tracks */
+export interface SpotifyPlayHistory {
+  track: SpotifyTrack;
+  played_at: string;
+}
+
+export type SpotifyTimeRange = "short_term" | "medium_term" | "long_term";
+
+export interface SpotifyUserProfile {
+  id: string;
+  display_name?: string | null;
+  country?: string;
+}
+
+export interface SpotifyTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  // Only in user-token refresh responses
+  refresh_token?: string;
+  scope?: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+  market?: string;
+}
@@ -0,0 +1,405 @@
+// Taste compatibility between two users, from their public daily-song picks: common
+// artists (shares.artist_id, bridged across platforms by artist name), common tracks,
+// overlap of those artists' genres, and saves of each other's picks (engagements).
+// Scores are cached per pair in taste_compatibility. Triggers mark a pair stale when
+// either user shares or saves something, and only stale or missing pairs are recomputed.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { spotify } from "./spotify/index.ts";
+import { appleMusic } from "./apple-music/index.ts";
+import { mapWithConcurrency } from "./concurrency.ts";
+import { normalizeTitle } from "./matching.ts";
+import { primaryArtistKey } from "./taste-profile.ts";
+
+/** What one user's shares say about their taste */
+export interface ShareHistory {
+  userId: string;
+  artists: Map<string, { name: string; count: number }>; // By primaryArtistKey; count of distinct songs
+  tracks: Map<string, string>; // trackKey -> track name
+  genres: Map<string, number>; // Genre -> distinct songs carrying it
+  shareIds: Set<string>;
+  savedShareIds: Set<string>; // Other people's shares this user saved
+}
+
+export interface CompatibilityComponents {
+  artists: number; // 0-1 cosine similarity of artist counts
+  tracks: number; // 0-1 share of the smaller track set that both picked
+  genres: number; // 0-1 cosine similarity of genre counts
+  saves: number; // 0-1, saturating at SAVE_SATURATION saves of each other's picks
+}
+
+export interface Compatibility {
+  userId: string;
+  score: number; // 0-100
+  components: CompatibilityComponents;
+  explanation: string[]; // Strongest reason first
+  computedAt: string;
+}
+
+interface CompatibilityRow {
+  user_a: string;
+  user_b: string;
+  score: number;
+  components: CompatibilityComponents;
+  explanation: string[];
+  stale: boolean;
+  computed_at: string;
+  failed_at: string | null;
+}
+
+const WEIGHTS: CompatibilityComponents = { artists: 0.4, tracks: 0.2, genres: 0.25, saves: 0.15 };
+const SAVE_SATURATION = 5;
+// Recent shares say the most about current taste; bounds the work per user
+const SHARE_HISTORY_LIMIT = 500;
+const SAVED_HISTORY_LIMIT = 1000;
+// Scores are recomputed after this long even without new activity (genres get refetched)
+const MAX_SCORE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const GENRE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const CACHE_READ_BATCH = 100;
+const SPOTIFY_ARTIST_BATCH = 50;
+const MAX_APPLE_LOOKUPS = 40;
+const APPLE_LOOKUP_CONCURRENCY = 4;
+const PAIR_CONCURRENCY = 3;
+const MAX_EXPLANATIONS = 4;
+
+/** Cross-platform key for a track: primary artist plus normalized title */
+export function trackKey(trackName: string, artistName: string): string {
+  return `${primaryArtistKey(artistName)}|${normalizeTitle(trackName)}`;
+}
+
+/** shares.artist_id holds a raw Spotify ID or a "spotify:"/"apple:" prefixed ID */
+function parseShareArtistId(artistId: string): { id: string; platform: "spotify" | "apple_music" } {
+  const [prefix, rest] = artistId.split(":", 2);
+  if (rest && prefix === "apple") return { id: rest, platform: "apple_music" };
+  if (rest && prefix === "spotify") return { id: rest, platform: "spotify" };
+  return { id: artistId, platform: "spotify" };
+}
+
+/** Genres for share artist IDs, from the artist_genres cache or looked up and cached */
+export async function loadArtistGenres(
+  supabase: SupabaseClient,
+  artistIds: string[]
+): Promise<Map<string, string[]>> {
+  const genres = new Map<string, string[]>();
+  if (artistIds.length === 0) return genres;
+
+  const cutoff = Date.now() - GENRE_TTL_MS;
+  for (let i = 0; i < artistIds.length; i += CACHE_READ_BATCH) {
+    const { data, error } = await supabase
+      .from("artist_genres")
+      .select("artist_id, genres, fetched_at")
+      .in("artist_id", artistIds.slice(i, i + CACHE_READ_BATCH));
+
+    if (error) throw error;
+
+    for (const row of (data ?? []) as Array<{ artist_id: string; genres: string[]; fetched_at: string }>) {
+      if (Date.parse(row.fetched_at) >= cutoff) genres.set(row.artist_id, row.genres);
+    }
+  }
+
+  const missing = artistIds.filter((id) => !genres.has(id));
+  if (missing.length === 0) return genres;
+
+  const spotifyIds = missing.filter((id) => parseShareArtistId(id).platform === "spotify");
+  // Apple has no batch lookup; the rest are filled in by later computations
+  const appleIds = missing
+    .filter((id) => parseShareArtistId(id).platform === "apple_music")
+    .slice(0, MAX_APPLE_LOOKUPS);
+  const fetched = new Map<string, string[]>();
+
+  for (let i = 0; i < spotifyIds.length; i += SPOTIFY_ARTIST_BATCH) {
+    const batch = spotifyIds.slice(i, i + SPOTIFY_ARTIST_BATCH);
+    try {
+      const byId = new Map(batch.map((shareId) => [parseShareArtistId(shareId).id, shareId]));
+      for (const artist of await spotify.getArtists([...byId.keys()])) {
+        const shareId = byId.get(artist.id);
+        if (shareId) fetched.set(shareId, artist.genres ?? []);
+      }
+    } catch (error) {
+      // Genres are one signal of four; score without them rather than fail
+      console.error("Failed to fetch Spotify artist genres:", error);
+    }
+  }
+
+  await mapWithConcurrency(appleIds, APPLE_LOOKUP_CONCURRENCY, async (shareId) => {
+    try {
+      const artist = await appleMusic.getArtist(parseShareArtistId(shareId).id);
+      // Apple tags nearly everything with the catch-all "Music"
+      fetched.set(shareId, (artist?.attributes.genreNames ?? []).filter((genre) => genre !== "Music"));
+    } catch (error) {
+      console.error(`Failed to fetch Apple Music artist ${shareId}:`, error);
+    }
+  });
+
+  if (fetched.size > 0) {
+    const { error: upsertError } = await supabase
+      .from("artist_genres")
+      .upsert([...fetched.entries()].map(([artist_id, artistGenres]) => ({
+        artist_id,
+        genres: artistGenres,
+        fetched_at: new Date().toISOString(),
+      })), { onConflict: "artist_id" });
+
+    if (upsertError) {
+      console.error("Failed to cache artist genres:", upsertError);
+    }
+  }
+
+  for (const [shareId, artistGenres] of fetched) genres.set(shareId, artistGenres);
+  return genres;
+}
+
+/**
+ * The user's public picks (daily songs) and their saves of other people's daily
+ * songs. Private sends are left out: the explanations built from this history are
+ * cached where both users can read them.
+ */
+export async function loadShareHistory(supabase: SupabaseClient, userId: string): Promise<ShareHistory> {
+  const [{ data: shares, error: sharesError }, { data: saves, error: savesError }] = await Promise.all([
+    supabase
+      .from("shares")
+      .select("id, track_name, artist_name, artist_id")
+      .eq("sender_id", userId)
+      .eq("is_daily_song", true)
+      .order("created_at", { ascending: false })
+      .limit(SHARE_HISTORY_LIMIT),
+    supabase
+      .from("engagements")
+      .select("share_id, shares!inner(is_daily_song)")
+      .eq("user_id", userId)
+      .eq("action", "saved")
+      .eq("shares.is_daily_song", true)
+      .order("created_at", { ascending: false })
+      .limit(SAVED_HISTORY_LIMIT),
+  ]);
+
+  if (sharesError) throw sharesError;
+  if (savesError) throw savesError;
+
+  const rows = (shares ?? []) as Array<{ id: string; track_name: string; artist_name: string; artist_id: string | null }>;
+  const artistGenres = await loadArtistGenres(
+    supabase,
+    [...new Set(rows.map((row) => row.artist_id).filter((id): id is string => !!id))]
+  );
+
+  const history: ShareHistory = {
+    userId,
+    artists: new Map(),
+    tracks: new Map(),
+    genres: new Map(),
+    shareIds: new Set(rows.map((row) => row.id)),
+    savedShareIds: new Set(((saves ?? []) as Array<{ share_id: string }>).map((row) => row.share_id)),
+  };
+
+  for (const row of rows) {
+    // A song sent to several friends is still one pick
+    const songKey = trackKey(row.track_name, row.artist_name);
+    if (history.tracks.has(songKey)) continue;
+    history.tracks.set(songKey, row.track_name);
+
+    const key = primaryArtistKey(row.artist_name);
+    if (key) {
+      const artist = history.artists.get(key) ?? { name: row.artist_name.split(",")[0].trim(), count: 0 };
+      artist.count += 1;
+      history.artists.set(key, artist);
+    }
+    for (const genre of row.artist_id ? artistGenres.get(row.artist_id) ?? [] : []) {
+      const name = genre.toLowerCase();
+      history.genres.set(name, (history.genres.get(name) ?? 0) + 1);
+    }
+  }
+
+  return history;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [key, value] of a) dot += value * (b.get(key) ?? 0);
+  if (dot === 0) return 0;
+
+  const norm = (map: Map<string, number>) => Math.sqrt([...map.values()].reduce((sum, value) => sum + value * value, 0));
+  return dot / (norm(a) * norm(b));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Score a pair; symmetric, so the cached row serves both users */
+export function computeCompatibility(
+  a: ShareHistory,
+  b: ShareHistory
+): { score: number; components: CompatibilityComponents; explanation: string[] } {
+  const counts = (history: ShareHistory) =>
+    new Map([...history.artists.entries()].map(([key, artist]) => [key, artist.count]));
+
+  const commonTracks = [...a.tracks.keys()].filter((key) => b.tracks.has(key));
+  const smallerTrackSet = Math.min(a.tracks.size, b.tracks.size);
+  const aSavedB = [...a.savedShareIds].filter((id) => b.shareIds.has(id)).length;
+  const bSavedA = [...b.savedShareIds].filter((id) => a.shareIds.has(id)).length;
+
+  const components: CompatibilityComponents = {
+    artists: round(cosine(counts(a), counts(b))),
+    tracks: round(smallerTrackSet > 0 ? commonTracks.length / smallerTrackSet : 0),
+    genres: round(cosine(a.genres, b.genres)),
+    saves: round(Math.min(1, (aSavedB + bSavedA) / SAVE_SATURATION)),
+  };
+
+  const score = Math.round(100 * (
+    WEIGHTS.artists * components.artists +
+    WEIGHTS.tracks * components.tracks +
+    WEIGHTS.genres * components.genres +
+    WEIGHTS.saves * components.saves
+  ));
+
+  // Each reason carries how much it explains, so the strongest read first
+  const reasons: Array<{ text: string; strength: number }> = [];
+
+  const commonArtists = [...a.artists.entries()]
+    .filter(([key]) => b.artists.has(key))
+    .map(([key, artist]) => ({ name: artist.name, total: artist.count + b.artists.get(key)!.count }))
+    .sort((x, y) => y.total - x.total);
+  for (const artist of commonArtists.slice(0, 2)) {
+    reasons.push({
+      text: `You both picked ${artist.total} ${artist.name} songs`,
+      strength: WEIGHTS.artists * components.artists * (artist.total / (commonArtists[0].total || 1)),
+    });
+  }
+
+  if (commonTracks.length === 1) {
+    reasons.push({ text: `You both picked "${a.tracks.get(commonTracks[0])}"`, strength: WEIGHTS.tracks * components.tracks });
+  } else if (commonTracks.length > 1) {
+    reasons.push({ text: `You've picked ${commonTracks.length} of the same songs`, strength: WEIGHTS.tracks * components.tracks });
+  }
+
+  const sharedGenres = [...a.genres.keys()]
+    .filter((genre) => b.genres.has(genre))
+    .sort((x, y) => Math.min(b.genres.get(y)!, a.genres.get(y)!) - Math.min(b.genres.get(x)!, a.genres.get(x)!));
+  if (sharedGenres.length > 0) {
+    reasons.push({
+      text: `You both lean towards ${sharedGenres.slice(0, 2).join(" and ")}`,
+      strength: WEIGHTS.genres * components.genres,
+    });
+  }
+
+  if (aSavedB > 0 && bSavedA > 0) {
+    reasons.push({ text: `You've saved each other's picks ${aSavedB + bSavedA} times`, strength: WEIGHTS.saves * components.saves });
+  } else if (aSavedB + bSavedA > 0) {
+    reasons.push({ text: `One of you has saved ${aSavedB + bSavedA} of the other's picks`, strength: WEIGHTS.saves * components.saves });
+  }
+
+  return {
+    score,
+    components,
+    explanation: reasons
+      .sort((x, y) => y.strength - x.strength)
+      .slice(0, MAX_EXPLANATIONS)
+      .map((reason) => reason.text),
+  };
+}
+
+function orderedPair(userId: string, otherId: string): { user_a: string; user_b: string } {
+  return userId < otherId ? { user_a: userId, user_b: otherId } : { user_a: otherId, user_b: userId };
+}
+
+/** Per-run cache so a user in many pairs is loaded once */
+export type ShareHistoryCache = Map<string, Promise<ShareHistory>>;
+
+function cachedHistory(supabase: SupabaseClient, cache: ShareHistoryCache, userId: string): Promise<ShareHistory> {
+  let history = cache.get(userId);
+  if (!history) {
+    history = loadShareHistory(supabase, userId);
+    cache.set(userId, history);
+  }
+  return history;
+}
+
+/** Recompute one pair and store it */
+export async function recomputePair(
+  supabase: SupabaseClient,
+  userId: string,
+  otherId: string,
+  cache: ShareHistoryCache = new Map()
+): Promise<CompatibilityRow> {
+  const [a, b] = await Promise.all([
+    cachedHistory(supabase, cache, userId),
+    cachedHistory(supabase, cache, otherId),
+  ]);
+  const result = computeCompatibility(a, b);
+
+  const row: CompatibilityRow = {
+    ...orderedPair(userId, otherId),
+    ...result,
+    stale: false,
+    computed_at: new Date().toISOString(),
+    failed_at: null,
+  };
+
+  const { error } = await supabase
+    .from("taste_compatibility")
+    .upsert(row, { onConflict: "user_a,user_b" });
+
+  if (error) throw error;
+  return row;
+}
+
+/**
+ * Compatibility between `userId` and each of `otherIds`, best first. Cached scores
+ * are served as-is unless stale or old; everything else is recomputed.
+ */
+export async function getCompatibility(
+  supabase: SupabaseClient,
+  userId: string,
+  otherIds: string[]
+): Promise<Compatibility[]> {
+  const others = [...new Set(otherIds)].filter((id) => id !== userId);
+  if (others.length === 0) return [];
+
+  const [{ data: asA, error: asAError }, { data: asB, error: asBError }] = await Promise.all([
+    supabase
+      .from("taste_compatibility")
+      .select("user_a, user_b, score, components, explanation, stale, computed_at")
+      .eq("user_a", userId)
+      .in("user_b", others),
+    supabase
+      .from("taste_compatibility")
+      .select("user_a, user_b, score, components, explanation, stale, computed_at")
+      .eq("user_b", userId)
+      .in("user_a", others),
+  ]);
+
+  if (asAError) throw asAError;
+  if (asBError) throw asBError;
+
+  const cached = new Map<string, CompatibilityRow>();
+  for (const row of [...(asA ?? []), ...(asB ?? [])] as CompatibilityRow[]) {
+    cached.set(row.user_a === userId ? row.user_b : row.user_a, row);
+  }
+
+  const now = Date.now();
+  const fresh = (row: CompatibilityRow | undefined) =>
+    row && !row.stale && now - Date.parse(row.computed_at) < MAX_SCORE_AGE_MS;
+
+  const toCompute = others.filter((otherId) => !fresh(cached.get(otherId)));
+  if (toCompute.length > 0) {
+    console.log(`🤝 Recomputing ${toCompute.length}/${others.length} compatibility scores for ${userId}`);
+    const cache: ShareHistoryCache = new Map();
+    const rows = await mapWithConcurrency(toCompute, PAIR_CONCURRENCY, (otherId) =>
+      recomputePair(supabase, userId, otherId, cache)
+    );
+    toCompute.forEach((otherId, index) => cached.set(otherId, rows[index]));
+  }
+
+  return others
+    .map((otherId) => {
+      const row = cached.get(otherId)!;
+      return {
+        userId: otherId,
+        score: row.score,
+        components: row.components,
+        explanation: row.explanation,
+        computedAt: row.computed_at,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,417 @@
+// Taste profiles imported from a user's own listening history (user_taste_profiles).
+// import-listening-history pulls top artists/tracks and recent plays from Spotify, or
+// recent plays and library songs from Apple Music, and weights them into a profile
+// that seeds onboarding: a first daily song and existing users with overlapping taste.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SpotifyClient, SpotifyTrack } from "./spotify/index.ts";
+import { artworkUrl, createAppleMusicLibraryClient, type AppleMusicSong } from "./apple-music/index.ts";
+import { normalizeArtist, parseArtists } from "./matching.ts";
+
+type MusicPlatform = "spotify" | "apple_music";
+
+export interface TasteArtist {
+  key: string; // normalizeArtist(name); compares across platforms
+  name: string;
+  id: string | null; // Spotify artist ID; Apple history doesn't carry artist IDs
+  imageUrl: string | null;
+  genres: string[];
+  weight: number;
+}
+
+export interface TasteTrack {
+  id: string; // On the profile's platform
+  name: string;
+  artistName: string;
+  albumArtUrl: string | null;
+  previewUrl: string | null;
+  isrc: string | null;
+  weight: number;
+}
+
+export interface TasteGenre {
+  name: string;
+  weight: number; // Scaled so the heaviest genre is 1
+}
+
+export interface TasteProfile {
+  platform: MusicPlatform;
+  artists: TasteArtist[]; // Heaviest first
+  tracks: TasteTrack[]; // Heaviest first
+  genres: TasteGenre[]; // Heaviest first
+  importedAt: string;
+}
+
+interface HistoryTrack extends Omit<TasteTrack, "weight"> {
+  artistId: string | null;
+  genres: string[];
+}
+
+/** Listening history as fetched, before weighting */
+export interface ListeningHistory {
+  topArtists: Array<{ id: string | null; name: string; imageUrl: string | null; genres: string[] }>; // Most listened first
+  topTracks: HistoryTrack[]; // Most listened first
+  recentTracks: HistoryTrack[]; // Newest first; repeat plays repeat
+  libraryTracks: HistoryTrack[];
+}
+
+export interface OverlappingUser {
+  userId: string;
+  score: number;
+  sharedArtists: string[]; // Artist names, heaviest in the importer's taste first
+  sharedTracks: string[]; // Track names
+}
+
+/** A daily song by another user, as read for overlap scoring */
+export interface OverlapShare {
+  sender_id: string;
+  track_id: string;
+  track_name: string;
+  artist_name: string;
+}
+
+const TOP_WEIGHT = 1;
+const RECENT_PLAY_WEIGHT = 0.3;
+const LIBRARY_WEIGHT = 0.2;
+// Share of a track's weight credited to its primary artist
+const TRACK_ARTIST_SHARE = 0.5;
+// Picking the exact same song says more than sharing an artist
+const TRACK_MATCH_WEIGHT = 2;
+const MAX_ARTISTS = 50;
+const MAX_TRACKS = 50;
+const MAX_GENRES = 20;
+// Apple tags nearly every song with this catch-all genre
+const IGNORED_GENRES = new Set(["music"]);
+// Apple serves recent plays 10 at a time
+const APPLE_RECENT_PAGE_SIZE = 10;
+const APPLE_RECENT_PAGES = 5;
+const APPLE_LIBRARY_LIMIT = 100;
+// Heaviest tracks considered for the first daily song
+const SUGGESTION_POOL = 5;
+// Bounds the shares scanned when looking for overlapping users
+const OVERLAP_ARTIST_LIMIT = 30;
+const OVERLAP_SHARE_SCAN = 500;
+
+function rankWeight(index: number, length: number): number {
+  return (length - index) / length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Cross-platform key for an artist credit: its first listed artist, normalized */
+export function primaryArtistKey(artistName: string): string {
+  const [first] = parseArtists(artistName.split(",")[0]);
+  return normalizeArtist(first ?? artistName);
+}
+
+function fromSpotifyTrack(track: SpotifyTrack): HistoryTrack {
+  return {
+    id: track.id,
+    name: track.name,
+    artistName: track.artists.map((artist) => artist.name).join(", "),
+    artistId: track.artists[0]?.id ?? null,
+    albumArtUrl: track.album?.images?.[0]?.url ?? null,
+    previewUrl: track.preview_url ?? null,
+    isrc: track.external_ids?.isrc ?? null,
+    genres: [],
+  };
+}
+
+function fromAppleMusicSong(song: AppleMusicSong): HistoryTrack {
+  const attributes = song.attributes;
+  return {
+    id: song.id,
+    name: attributes.name,
+    artistName: attributes.artistName,
+    artistId: null,
+    albumArtUrl: artworkUrl(attributes.artwork, 640),
+    previewUrl: attributes.previews?.[0]?.url ?? null,
+    isrc: attributes.isrc ?? null,
+    genres: attributes.genreNames ?? [],
+  };
+}
+
+/** Top artists (medium term), top tracks (short term) and recent plays; needs user-top-read and user-read-recently-played */
+export async function fetchSpotifyHistory(client: SpotifyClient): Promise<ListeningHistory> {
+  const [topArtists, topTracks, recent] = await Promise.all([
+    client.getTopArtists({ timeRange: "medium_term", limit: 50 }),
+    client.getTopTracks({ timeRange: "short_term", limit: 50 }),
+    client.getRecentlyPlayed({ limit: 50 }),
+  ]);
+
+  return {
+    topArtists: topArtists.map((artist) => ({
+      id: artist.id,
+      name: artist.name,
+      imageUrl: artist.images?.[0]?.url ?? null,
+      genres: artist.genres ?? [],
+    })),
+    topTracks: topTracks.map(fromSpotifyTrack),
+    // Podcast episodes come back without a track
+    recentTracks: recent.filter((play) => play.track?.id).map((play) => fromSpotifyTrack(play.track)),
+    libraryTracks: [],
+  };
+}
+
+/** Recent plays and library songs; Apple has no top-artists/tracks API */
+export async function fetchAppleMusicHistory(musicUserToken: string): Promise<ListeningHistory> {
+  const library = createAppleMusicLibraryClient(musicUserToken);
+
+  const fetchRecent = async () => {
+    const songs: AppleMusicSong[] = [];
+    for (let page = 0; page < APPLE_RECENT_PAGES; page++) {
+      const batch = await library.getRecentlyPlayedTracks({
+        limit: APPLE_RECENT_PAGE_SIZE,
+        offset: page * APPLE_RECENT_PAGE_SIZE,
+      });
+      songs.push(...batch);
+      if (batch.length < APPLE_RECENT_PAGE_SIZE) break;
+    }
+    return songs;
+  };
+
+  const [recent, librarySongs] = await Promise.all([
+    fetchRecent(),
+    library.getLibrarySongs({ limit: APPLE_LIBRARY_LIMIT }),
+  ]);
+
+  return {
+    topArtists: [],
+    topTracks: [],
+    recentTracks: recent.filter((song) => song.attributes).map(fromAppleMusicSong),
+    // Only songs that are also in the catalog can become daily songs
+    libraryTracks: librarySongs
+      .filter((song) => song.attributes && song.attributes.playParams?.catalogId)
+      .map((song) => ({
+        id: song.attributes!.playParams!.catalogId!,
+        name: song.attributes!.name,
+        artistName: song.attributes!.artistName,
+        artistId: null,
+        albumArtUrl: artworkUrl(song.attributes!.artwork, 640),
+        previewUrl: null,
+        isrc: null,
+        genres: song.attributes!.genreNames ?? [],
+      })),
+  };
+}
+
+/**
+ * Weight history into a profile. Tracks earn weight from their top-tracks rank,
+ * each recent play and library presence; artists from their top-artists rank plus
+ * a share of their tracks' weight; genres from the artists and tracks carrying them.
+ */
+export function buildTasteProfile(
+  platform: MusicPlatform,
+  history: ListeningHistory,
+  importedAt = new Date().toISOString()
+): TasteProfile {
+  const tracks = new Map<string, HistoryTrack & { weight: number }>();
+  const addTrack = (track: HistoryTrack, weight: number) => {
+    const existing = tracks.get(track.id);
+    if (existing) {
+      existing.weight += weight;
+      existing.previewUrl ??= track.previewUrl;
+      existing.isrc ??= track.isrc;
+    } else {
+      tracks.set(track.id, { ...track, weight });
+    }
+  };
+  history.topTracks.forEach((track, index, all) => addTrack(track, TOP_WEIGHT * rankWeight(index, all.length)));
+  history.recentTracks.forEach((track) => addTrack(track, RECENT_PLAY_WEIGHT));
+  history.libraryTracks.forEach((track, index, all) => addTrack(track, LIBRARY_WEIGHT * rankWeight(index, all.length)));
+
+  const artists = new Map<string, TasteArtist>();
+  const addArtist = (
+    name: string,
+    weight: number,
+    details: { id?: string | null; imageUrl?: string | null; genres?: string[] } = {}
+  ) => {
+    const key = primaryArtistKey(name);
+    if (!key) return;
+    const existing = artists.get(key);
+    if (existing) {
+      existing.weight += weight;
+      existing.id ??= details.id ?? null;
+      existing.imageUrl ??= details.imageUrl ?? null;
+      if (existing.genres.length === 0) existing.genres = details.genres ?? [];
+    } else {
+      artists.set(key, {
+        key,
+        name,
+        id: details.id ?? null,
+        imageUrl: details.imageUrl ?? null,
+        genres: details.genres ?? [],
+        weight,
+      });
+    }
+  };
+  history.topArtists.forEach((artist, index, all) =>
+    addArtist(artist.name, TOP_WEIGHT * rankWeight(index, all.length), artist)
+  );
+  for (const track of tracks.values()) {
+    const primaryName = track.artistName.split(/\s*,\s*/)[0] || track.artistName;
+    addArtist(primaryName, TRACK_ARTIST_SHARE * track.weight, { id: track.artistId });
+  }
+
+  const genres = new Map<string, number>();
+  const addGenres = (names: string[], weight: number) => {
+    for (const name of names) {
+      const genre = name.trim().toLowerCase();
+      if (!genre || IGNORED_GENRES.has(genre)) continue;
+      genres.set(genre, (genres.get(genre) ?? 0) + weight);
+    }
+  };
+  for (const artist of artists.values()) addGenres(artist.genres, artist.weight);
+  for (const track of tracks.values()) addGenres(track.genres, track.weight);
+  const heaviestGenre = Math.max(0, ...genres.values());
+
+  return {
+    platform,
+    artists: [...artists.values()]
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_ARTISTS)
+      .map((artist) => ({ ...artist, weight: round(artist.weight) })),
+    tracks: [...tracks.values()]
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_TRACKS)
+      .map(({ artistId: _artistId, genres: _genres, ...track }) => ({ ...track, weight: round(track.weight) })),
+    genres: [...genres.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_GENRES)
+      .map(([name, weight]) => ({ name, weight: round(weight / heaviestGenre) })),
+    importedAt,
+  };
+}
+
+/** One of the user's heaviest tracks, preferring one the app can preview */
+export function suggestFirstDailySong(profile: TasteProfile): TasteTrack | null {
+  const pool = profile.tracks.slice(0, SUGGESTION_POOL);
+  return pool.find((track) => track.previewUrl) ?? pool[0] ?? null;
+}
+
+export async function saveTasteProfile(
+  supabase: SupabaseClient,
+  userId: string,
+  profile: TasteProfile
+): Promise<void> {
+  const { error } = await supabase
+    .from("user_taste_profiles")
+    .upsert({
+      user_id: userId,
+      platform: profile.platform,
+      artists: profile.artists,
+      tracks: profile.tracks,
+      genres: profile.genres,
+      artist_keys: profile.artists.map((artist) => artist.key),
+      imported_at: profile.importedAt,
+    }, { onConflict: "user_id" });
+
+  if (error) throw error;
+}
+
+/**
+ * Score other users by how their daily songs overlap the profile: the taste weight
+ * of every distinct artist they picked, plus extra for picking the same tracks.
+ */
+export function rankOverlappingUsers(profile: TasteProfile, shares: OverlapShare[]): OverlappingUser[] {
+  const artistWeights = new Map(profile.artists.map((artist) => [artist.key, artist]));
+  const trackWeights = new Map(profile.tracks.map((track) => [track.id, track]));
+  const byUser = new Map<string, { artists: Map<string, TasteArtist>; tracks: Map<string, TasteTrack> }>();
+
+  for (const share of shares) {
+    const artist = artistWeights.get(primaryArtistKey(share.artist_name));
+    const track = trackWeights.get(share.track_id);
+    if (!artist && !track) continue;
+
+    const entry = byUser.get(share.sender_id) ?? { artists: new Map(), tracks: new Map() };
+    if (artist) entry.artists.set(artist.key, artist);
+    if (track) entry.tracks.set(track.id, track);
+    byUser.set(share.sender_id, entry);
+  }
+
+  return [...byUser.entries()]
+    .map(([userId, { artists, tracks }]) => {
+      const sharedArtists = [...artists.values()].sort((a, b) => b.weight - a.weight);
+      const sharedTracks = [...tracks.values()].sort((a, b) => b.weight - a.weight);
+      const score = sharedArtists.reduce((sum, artist) => sum + artist.weight, 0) +
+        TRACK_MATCH_WEIGHT * sharedTracks.reduce((sum, track) => sum + track.weight, 0);
+      return {
+        userId,
+        score: round(score),
+        sharedArtists: sharedArtists.map((artist) => artist.name),
+        sharedTracks: sharedTracks.map((track) => track.name),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Existing users whose daily songs overlap the profile, best match first.
+ * Skips the user, people they already follow and private profiles.
+ */
+export async function findOverlappingUsers(
+  supabase: SupabaseClient,
+  userId: string,
+  profile: TasteProfile,
+  limit: number
+): Promise<Array<OverlappingUser & { displayName: string | null; username: string | null; profilePhotoUrl: string | null }>> {
+  const artistNames = profile.artists.slice(0, OVERLAP_ARTIST_LIMIT).map((artist) => artist.name);
+  const trackIds = profile.tracks.map((track) => track.id);
+  if (artistNames.length === 0 && trackIds.length === 0) return [];
+
+  const shareQuery = () => supabase
+    .from("shares")
+    .select("sender_id, track_id, track_name, artist_name")
+    .eq("is_daily_song", true)
+    .neq("sender_id", userId);
+
+  const [byArtist, byTrack, following] = await Promise.all([
+    artistNames.length > 0
+      ? shareQuery().in("artist_name", artistNames).order("created_at", { ascending: false }).limit(OVERLAP_SHARE_SCAN)
+      : Promise.resolve({ data: [], error: null }),
+    trackIds.length > 0
+      ? shareQuery().in("track_id", trackIds).order("created_at", { ascending: false }).limit(OVERLAP_SHARE_SCAN)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from("follows").select("following_id").eq("follower_id", userId),
+  ]);
+
+  if (byArtist.error) throw byArtist.error;
+  if (byTrack.error) throw byTrack.error;
+  if (following.error) throw following.error;
+
+  const followed = new Set(((following.data ?? []) as Array<{ following_id: string }>).map((row) => row.following_id));
+  const candidates = rankOverlappingUsers(profile, [
+    ...((byArtist.data ?? []) as OverlapShare[]),
+    ...((byTrack.data ?? []) as OverlapShare[]),
+  ]).filter((candidate) => !followed.has(candidate.userId));
+
+  if (candidates.length === 0) return [];
+
+  const { data: users, error: usersError } = await supabase
+    .from("users")
+    .select("id, display_name, username, profile_photo_url, is_private")
+    .in("id", candidates.slice(0, limit * 3).map((candidate) => candidate.userId));
+
+  if (usersError) throw usersError;
+
+  const visible = new Map(
+    ((users ?? []) as Array<{ id: string; display_name: string | null; username: string | null; profile_photo_url: string | null; is_private: boolean | null }>)
+      .filter((user) => !user.is_private)
+      .map((user) => [user.id, user])
+  );
+
+  return candidates
+    .filter((candidate) => visible.has(candidate.userId))
+    .slice(0, limit)
+    .map((candidate) => {
+      const user = visible.get(candidate.userId)!;
+      return {
+        ...candidate,
+        displayName: user.display_name,
+        username: user.username,
+        profilePhotoUrl: user.profile_photo_url,
+      };
+    });
+}
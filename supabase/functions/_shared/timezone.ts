@@ -0,0 +1,77 @@
+// Local-day helpers for users.timezone (IANA names such as "America/Los_Angeles").
+// Daily songs, streaks and phlock swaps all turn over at the user's local midnight;
+// users without a timezone fall back to UTC.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let cached = formatters.get(timeZone);
+  if (!cached) {
+    cached = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, cached);
+  }
+  return cached;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function resolve(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC";
+}
+
+/** Wall-clock fields of `at` in `timeZone` */
+function wallClock(timeZone: string, at: Date) {
+  const parts: Record<string, string> = {};
+  for (const part of formatter(timeZone).formatToParts(at)) parts[part.type] = part.value;
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+/** Offset of `timeZone` from UTC at `at`, in milliseconds (negative west of Greenwich) */
+function offsetMs(timeZone: string, at: number): number {
+  const local = wallClock(timeZone, new Date(at));
+  const asUtc = Date.parse(`${local.date}T00:00:00Z`) + ((local.hour * 60 + local.minute) * 60 + local.second) * 1000;
+  return asUtc - Math.floor(at / 1000) * 1000;
+}
+
+/** The user's local date (YYYY-MM-DD) at `at` */
+export function localDate(timeZone: string | null | undefined, at: Date = new Date()): string {
+  return wallClock(resolve(timeZone), at).date;
+}
+
+/** Minutes since local midnight at `at` */
+export function localMinutes(timeZone: string | null | undefined, at: Date = new Date()): number {
+  const local = wallClock(resolve(timeZone), at);
+  return local.hour * 60 + local.minute;
+}
+
+/** The instant (ISO timestamp) local midnight starts `date` in `timeZone` */
+export function localMidnight(date: string, timeZone: string | null | undefined): string {
+  const zone = resolve(timeZone);
+  const naive = Date.parse(`${date}T00:00:00Z`);
+  let instant = naive - offsetMs(zone, naive);
+  // Across a DST change the offset at midnight differs from the one at UTC midnight
+  const corrected = naive - offsetMs(zone, instant);
+  if (corrected !== instant) instant = corrected;
+  return new Date(instant).toISOString();
+}
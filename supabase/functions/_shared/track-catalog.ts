@@ -0,0 +1,114 @@
+// Cross-platform track catalog (the `tracks` table, keyed by ISRC).
+// Edge functions read it before calling Spotify/Apple Music and write back
+// whatever they resolve, so each recording is looked up externally once.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface CatalogTrack {
+  isrc: string;
+  spotify_id: string | null;
+  apple_music_id: string | null;
+  title: string;
+  artist_name: string;
+  artists: string[];
+  spotify_artist_id: string | null;
+  album_art_url: string | null;
+  duration_ms: number | null;
+  popularity: number | null;
+  preview_url: string | null;
+  // Spotify is_playable per market code, e.g. { US: true, DE: false }
+  market_playability: Record<string, boolean>;
+  updated_at?: string;
+}
+
+/** Fields to write; columns left undefined keep their stored value */
+export type CatalogTrackUpdate =
+  & Pick<CatalogTrack, "isrc" | "title" | "artist_name">
+  & Partial<Omit<CatalogTrack, "isrc" | "title" | "artist_name" | "updated_at">>;
+
+export function normalizeISRC(isrc: string): string {
+  return isrc.trim().toUpperCase();
+}
+
+/**
+ * Find a catalog row by a Spotify or Apple Music track ID, or by ISRC.
+ * Lookup failures are logged and treated as a miss so callers fall through to the APIs.
+ */
+export async function findCatalogTrack(
+  supabase: SupabaseClient,
+  lookup: { trackId?: string; isrc?: string }
+): Promise<CatalogTrack | null> {
+  const filters: string[] = [];
+  if (lookup.trackId) {
+    // IDs are alphanumeric; anything else can't be a platform ID and would break the filter syntax
+    if (/^[A-Za-z0-9]+$/.test(lookup.trackId)) {
+      filters.push(`spotify_id.eq.${lookup.trackId}`, `apple_music_id.eq.${lookup.trackId}`);
+    }
+  }
+  if (lookup.isrc && /^[A-Za-z0-9]+$/.test(lookup.isrc)) {
+    filters.push(`isrc.eq.${normalizeISRC(lookup.isrc)}`);
+  }
+  if (filters.length === 0) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tracks")
+    .select("*")
+    .or(filters.join(","))
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Track catalog lookup failed:", error);
+    return null;
+  }
+
+  return data as CatalogTrack | null;
+}
+
+/**
+ * Insert or merge a catalog row. Undefined fields are not sent, so a Spotify
+ * resolution doesn't wipe an Apple Music ID stored earlier (and vice versa).
+ */
+export async function upsertCatalogTrack(
+  supabase: SupabaseClient,
+  track: CatalogTrackUpdate
+): Promise<void> {
+  const row = Object.fromEntries(
+    Object.entries({ ...track, isrc: normalizeISRC(track.isrc) })
+      .filter(([, value]) => value !== undefined)
+  );
+
+  const { error } = await supabase
+    .from("tracks")
+    .upsert(row, { onConflict: "isrc" });
+
+  if (error) {
+    // Caching is best-effort; the caller already has its answer
+    console.error(`Failed to store track ${track.isrc} in catalog:`, error);
+  }
+}
+
+/** Catalog rows for many ISRCs at once, keyed by normalized ISRC */
+export async function findCatalogTracksByISRC(
+  supabase: SupabaseClient,
+  isrcs: string[]
+): Promise<Map<string, CatalogTrack>> {
+  const normalized = [...new Set(isrcs.map(normalizeISRC))];
+  if (normalized.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await supabase
+    .from("tracks")
+    .select("*")
+    .in("isrc", normalized);
+
+  if (error) {
+    console.error("Track catalog lookup failed:", error);
+    return new Map();
+  }
+
+  return new Map((data as CatalogTrack[]).map((row) => [row.isrc, row]));
+}
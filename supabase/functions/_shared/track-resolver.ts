@@ -0,0 +1,238 @@
+// Cross-platform track resolution: given a track someone shared on one platform,
+// find the same recording on the listener's platform. Goes through the track catalog
+// first, then ISRC lookups, then a confidence-scored title/artist search, and writes
+// whatever it learns back to the catalog.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { spotify, type SpotifyTrack } from "./spotify/index.ts";
+import { appleMusic, artworkUrl, getAppleMusicPreview, type AppleMusicSong } from "./apple-music/index.ts";
+import { matchTrack, type MatchCandidate, type MatchQuery } from "./matching.ts";
+import { findCatalogTrack, normalizeISRC, upsertCatalogTrack, type CatalogTrack } from "./track-catalog.ts";
+import { isAppleMusicSongPlayable, isSpotifyTrackPlayable, type Region } from "./region.ts";
+
+export type MusicPlatform = "spotify" | "apple_music";
+
+/** What a share records about its track */
+export interface TrackReference {
+  trackId: string; // Spotify ID, or a numeric Apple Music song ID
+  trackName: string;
+  artistName: string;
+  albumArtUrl?: string | null;
+  previewUrl?: string | null;
+}
+
+export interface ResolvedTrack {
+  id: string | null; // ID on the requested platform; null when no match was found
+  platform: MusicPlatform;
+  name: string;
+  artistName: string;
+  albumArtUrl: string | null;
+  previewUrl: string | null;
+  durationMs: number | null;
+  isrc: string | null;
+  spotifyId: string | null;
+  appleMusicId: string | null;
+  isPlayable: boolean | null;
+  confidence: number | null; // 1 for ID/ISRC matches, the match score for search matches
+}
+
+const SEARCH_LIMIT = 10;
+
+function spotifyCandidate(track: SpotifyTrack): MatchCandidate {
+  return {
+    title: track.name,
+    artists: track.artists.map((artist) => artist.name),
+    durationMs: track.duration_ms,
+    isrc: track.external_ids?.isrc,
+    popularity: track.popularity,
+  };
+}
+
+function appleMusicCandidate(song: AppleMusicSong): MatchCandidate {
+  return {
+    title: song.attributes.name,
+    artists: [song.attributes.artistName],
+    durationMs: song.attributes.durationInMillis,
+    isrc: song.attributes.isrc,
+  };
+}
+
+function sourcePlatform(trackId: string): MusicPlatform {
+  return /^\d+$/.test(trackId) ? "apple_music" : "spotify";
+}
+
+/** The shared track on its own platform, for the ISRC and duration the search needs */
+async function lookupSource(
+  ref: TrackReference,
+  region: Region
+): Promise<{ isrc: string | null; durationMs: number | null; spotify?: SpotifyTrack; apple?: AppleMusicSong }> {
+  try {
+    if (sourcePlatform(ref.trackId) === "spotify") {
+      const track = await spotify.getTrack(ref.trackId, region.market);
+      return {
+        isrc: track?.external_ids?.isrc ? normalizeISRC(track.external_ids.isrc) : null,
+        durationMs: track?.duration_ms ?? null,
+        spotify: track ?? undefined,
+      };
+    }
+    const song = await appleMusic.getSong(ref.trackId, { storefront: region.storefront });
+    return {
+      isrc: song?.attributes.isrc ? normalizeISRC(song.attributes.isrc) : null,
+      durationMs: song?.attributes.durationInMillis ?? null,
+      apple: song ?? undefined,
+    };
+  } catch (error) {
+    console.error(`⚠️ Source lookup failed for ${ref.trackId}:`, error);
+    return { isrc: null, durationMs: null };
+  }
+}
+
+async function findOnSpotify(
+  query: MatchQuery,
+  region: Region
+): Promise<{ track: SpotifyTrack; confidence: number } | null> {
+  if (query.isrc) {
+    const byIsrc = await spotify.searchTracks(`isrc:${query.isrc}`, { limit: 5, market: region.market });
+    if (byIsrc.items[0]) return { track: byIsrc.items[0], confidence: 1 };
+  }
+
+  const results = await spotify.searchTracks(
+    `track:"${query.title}" artist:"${query.artist}"`,
+    { limit: SEARCH_LIMIT, market: region.market }
+  );
+  const { best } = matchTrack(query, results.items, spotifyCandidate);
+  return best ? { track: best.item, confidence: best.confidence } : null;
+}
+
+async function findOnAppleMusic(
+  query: MatchQuery,
+  region: Region
+): Promise<{ song: AppleMusicSong; confidence: number } | null> {
+  if (query.isrc) {
+    const byIsrc = await appleMusic.getSongsByISRC(query.isrc, { storefront: region.storefront });
+    if (byIsrc[0]) return { song: byIsrc[0], confidence: 1 };
+  }
+
+  const results = await appleMusic.searchSongs(`${query.title} ${query.artist}`, {
+    storefront: region.storefront,
+    limit: SEARCH_LIMIT,
+  });
+  const { best } = matchTrack(query, results, appleMusicCandidate);
+  return best ? { song: best.item, confidence: best.confidence } : null;
+}
+
+function fromCatalog(row: CatalogTrack, ref: TrackReference, platform: MusicPlatform, market: string): ResolvedTrack {
+  return {
+    id: platform === "spotify" ? row.spotify_id : row.apple_music_id,
+    platform,
+    name: row.title,
+    artistName: row.artist_name,
+    albumArtUrl: row.album_art_url ?? ref.albumArtUrl ?? null,
+    previewUrl: row.preview_url ?? ref.previewUrl ?? null,
+    durationMs: row.duration_ms,
+    isrc: row.isrc,
+    spotifyId: row.spotify_id,
+    appleMusicId: row.apple_music_id,
+    isPlayable: platform === "spotify" ? row.market_playability?.[market] ?? null : null,
+    confidence: 1,
+  };
+}
+
+/**
+ * Resolve a shared track onto `platform`. Never throws for a missing match: the
+ * result keeps the share's own metadata with `id: null`, so callers can still show it.
+ */
+export async function resolveTrackForPlatform(
+  supabase: SupabaseClient,
+  ref: TrackReference,
+  platform: MusicPlatform,
+  region: Region
+): Promise<ResolvedTrack> {
+  const cached = await findCatalogTrack(supabase, { trackId: ref.trackId });
+  const cachedId = cached && (platform === "spotify" ? cached.spotify_id : cached.apple_music_id);
+  if (cached && cachedId && (cached.preview_url || ref.previewUrl)) {
+    return fromCatalog(cached, ref, platform, region.market);
+  }
+
+  const source = cached
+    ? { isrc: cached.isrc, durationMs: cached.duration_ms }
+    : await lookupSource(ref, region);
+
+  const query: MatchQuery = {
+    title: ref.trackName,
+    artist: ref.artistName,
+    durationMs: source.durationMs ?? undefined,
+    isrc: source.isrc ?? undefined,
+  };
+
+  const resolved: ResolvedTrack = {
+    id: cachedId ?? (sourcePlatform(ref.trackId) === platform ? ref.trackId : null),
+    platform,
+    name: ref.trackName,
+    artistName: ref.artistName,
+    albumArtUrl: cached?.album_art_url ?? ref.albumArtUrl ?? null,
+    previewUrl: cached?.preview_url ?? ref.previewUrl ?? null,
+    durationMs: source.durationMs,
+    isrc: source.isrc,
+    spotifyId: cached?.spotify_id ?? (sourcePlatform(ref.trackId) === "spotify" ? ref.trackId : null),
+    appleMusicId: cached?.apple_music_id ?? (sourcePlatform(ref.trackId) === "apple_music" ? ref.trackId : null),
+    isPlayable: null,
+    confidence: cachedId || sourcePlatform(ref.trackId) === platform ? 1 : null,
+  };
+
+  try {
+    if (platform === "spotify") {
+      const match = resolved.id
+        ? { track: source.spotify ?? await spotify.getTrack(resolved.id, region.market), confidence: 1 }
+        : await findOnSpotify(query, region);
+      if (match?.track) {
+        resolved.id = resolved.spotifyId = match.track.id;
+        resolved.confidence = match.confidence;
+        resolved.isPlayable = isSpotifyTrackPlayable(match.track);
+        resolved.albumArtUrl ??= match.track.album.images[0]?.url ?? null;
+        resolved.previewUrl ??= match.track.preview_url;
+        resolved.isrc ??= match.track.external_ids?.isrc ? normalizeISRC(match.track.external_ids.isrc) : null;
+      }
+    } else {
+      const match = resolved.id
+        ? { song: source.apple ?? await appleMusic.getSong(resolved.id, { storefront: region.storefront }), confidence: 1 }
+        : await findOnAppleMusic(query, region);
+      if (match?.song) {
+        resolved.id = resolved.appleMusicId = match.song.id;
+        resolved.confidence = match.confidence;
+        resolved.isPlayable = isAppleMusicSongPlayable(match.song);
+        resolved.albumArtUrl ??= artworkUrl(match.song.attributes.artwork, 640);
+        resolved.previewUrl ??= match.song.attributes.previews?.[0]?.url ?? null;
+        resolved.isrc ??= match.song.attributes.isrc ? normalizeISRC(match.song.attributes.isrc) : null;
+      }
+    }
+  } catch (error) {
+    // Keep what we have; the track still shows with the share's metadata
+    console.error(`⚠️ Failed to resolve ${ref.trackId} on ${platform}:`, error);
+  }
+
+  if (!resolved.previewUrl) {
+    resolved.previewUrl = (await getAppleMusicPreview(
+      resolved.isrc ?? "",
+      ref.trackName,
+      ref.artistName,
+      region.storefront
+    ))?.url ?? null;
+  }
+
+  // Only exact (ISRC/ID) links are written back; search matches may be a different version
+  if (resolved.isrc && resolved.confidence === 1) {
+    await upsertCatalogTrack(supabase, {
+      isrc: resolved.isrc,
+      title: cached?.title ?? ref.trackName,
+      artist_name: cached?.artist_name ?? ref.artistName,
+      spotify_id: resolved.spotifyId ?? undefined,
+      apple_music_id: resolved.appleMusicId ?? undefined,
+      album_art_url: resolved.albumArtUrl ?? undefined,
+      duration_ms: resolved.durationMs ?? undefined,
+      preview_url: resolved.previewUrl ?? undefined,
+    });
+  }
+
+  return resolved;
+}
@@ -1,54 +1,42 @@
-// Supabase Edge Function to browse popular artists by genre using Spotify API
-// Uses genre-based search to find popular artists in a specific genre
+// Supabase Edge Function to browse popular artists (or representative tracks) by genre
+// Reads the genre catalog that refresh-genre-catalog keeps up to date, paging by rank.
+// Genres missing from the catalog fall back to a live Spotify genre search.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { DEFAULT_REGION, resolveRegion } from "../_shared/region.ts"
+import {
+  decodeRankCursor,
+  encodeRankCursor,
+  fetchGenreArtists,
+  findGenre,
+  listGenres,
+  refreshGenre,
+} from "../_shared/genre-catalog.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface SpotifyTokenResponse {
-  access_token: string
-  token_type: string
-  expires_in: number
-}
+const MAX_LIMIT = 50
 
-interface SpotifyArtist {
-  id: string
-  name: string
-  images?: Array<{
-    url: string
-    height: number
-    width: number
-  }>
-  popularity: number
-  followers?: {
-    total: number
-  }
-  genres?: string[]
-}
+type BrowseType = 'artists' | 'tracks'
 
-interface SpotifySearchResponse {
-  artists: {
-    items: SpotifyArtist[]
-  }
-}
+/** Regions to read a genre from: the caller's, then DEFAULT_REGION if it has been refreshed */
+async function findCatalogMarket(supabase: SupabaseClient, genreKey: string, market: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('genre_catalog_refreshes')
+    .select('market')
+    .eq('genre_key', genreKey)
+    .in('market', [...new Set([market, DEFAULT_REGION])])
+
+  if (error) throw error
 
-// Curated genre mappings - these are Spotify's genre seeds that work well
-const GENRE_MAPPINGS: Record<string, string[]> = {
-  'pop': ['pop'],
-  'hip-hop': ['hip-hop', 'rap'],
-  'r&b': ['r-n-b'],
-  'rock': ['rock'],
-  'indie': ['indie', 'indie-pop', 'alt-rock'],
-  'electronic': ['electronic', 'edm', 'house'],
-  'jazz': ['jazz'],
-  'classical': ['classical'],
-  'country': ['country'],
-  'latin': ['latin'],
-  'k-pop': ['k-pop'],
-  'soul': ['soul'],
+  const markets = (data ?? []).map((row: { market: string }) => row.market)
+  if (markets.includes(market)) return market
+  if (markets.includes(DEFAULT_REGION)) return DEFAULT_REGION
+  return null
 }
 
 serve(async (req) => {
@@ -58,7 +46,13 @@ serve(async (req) => {
   }
 
   try {
-    const { genre, limit = 20 } = await req.json()
+    const {
+      genre,
+      limit: requestedLimit = 20,
+      cursor,
+      type = 'artists',
+      region: requestedRegion,
+    }: { genre?: string; limit?: number; cursor?: string; type?: BrowseType; region?: string } = await req.json()
 
     if (!genre) {
       return new Response(
@@ -70,97 +64,140 @@ serve(async (req) => {
       )
     }
 
-    console.log(`🎵 Browsing artists for genre: ${genre}`)
-
-    // Get Spotify credentials
-    const clientId = Deno.env.get('SPOTIFY_CLIENT_ID')
-    const clientSecret = Deno.env.get('SPOTIFY_CLIENT_SECRET')
-
-    if (!clientId || !clientSecret) {
-      console.error('❌ Spotify credentials not configured')
+    if (type !== 'artists' && type !== 'tracks') {
       return new Response(
-        JSON.stringify({ error: 'Spotify credentials not configured' }),
+        JSON.stringify({ error: "type must be 'artists' or 'tracks'" }),
         {
-          status: 500,
+          status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Get access token
-    const tokenResponse = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Authorization': 'Basic ' + btoa(`${clientId}:${clientSecret}`)
-      },
-      body: 'grant_type=client_credentials'
-    })
-
-    if (!tokenResponse.ok) {
-      console.error('❌ Failed to get Spotify token')
+    const afterRank = cursor ? decodeRankCursor(cursor) : 0
+    if (afterRank === null) {
       return new Response(
-        JSON.stringify({ error: 'Failed to authenticate with Spotify' }),
+        JSON.stringify({ error: 'Invalid cursor' }),
         {
-          status: 500,
+          status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
     }
 
-    const tokenData: SpotifyTokenResponse = await tokenResponse.json()
-    console.log('✅ Got Spotify access token')
-
-    // Build genre search query
-    // Spotify search supports "genre:xxx" queries
+    const limit = Math.min(Math.max(1, requestedLimit), MAX_LIMIT)
+    const region = await resolveRegion(req, requestedRegion)
     const genreKey = genre.toLowerCase()
-    const genreTerms = GENRE_MAPPINGS[genreKey] || [genreKey]
+    console.log(`🎵 Browsing ${type} for genre: ${genreKey} (market: ${region.market})`)
 
-    // Search for artists in this genre
-    // We use multiple genre terms and combine results for better coverage
-    const allArtists: Map<string, SpotifyArtist> = new Map()
+    // Service role: the first browse of a genre in a region writes its catalog
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
 
-    for (const term of genreTerms) {
-      const searchQuery = encodeURIComponent(`genre:${term}`)
-      const searchResponse = await fetch(
-        `https://api.spotify.com/v1/search?q=${searchQuery}&type=artist&limit=${Math.min(limit, 50)}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${tokenData.access_token}`
+    const genreRow = await findGenre(supabase, genreKey)
+
+    if (!genreRow) {
+      // Not a catalog genre: search Spotify directly, single page only
+      if (type === 'tracks') {
+        return new Response(
+          JSON.stringify({ error: `Unknown genre: ${genre}` }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
           }
+        )
+      }
+
+      const artists = (await fetchGenreArtists([genreKey], region.market))
+        .slice(0, limit)
+        .map(artist => ({
+          id: artist.artist_id,
+          name: artist.name,
+          imageUrl: artist.image_url,
+          popularity: artist.popularity,
+          followerCount: artist.follower_count,
+          genres: artist.genres
+        }))
+
+      console.log(`✅ Found ${artists.length} artists for uncataloged genre: ${genreKey}`)
+
+      return new Response(
+        JSON.stringify({
+          genre: genre,
+          name: genre,
+          parentKey: null,
+          subgenres: [],
+          artists: artists,
+          market: region.market,
+          nextCursor: null
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
+    }
 
-      if (searchResponse.ok) {
-        const searchData: SpotifySearchResponse = await searchResponse.json()
-        for (const artist of searchData.artists.items) {
-          // Use map to dedupe artists
-          if (!allArtists.has(artist.id)) {
-            allArtists.set(artist.id, artist)
-          }
-        }
-      }
+    let market = await findCatalogMarket(supabase, genreRow.key, region.market)
+    if (!market) {
+      // Never refreshed anywhere we can use; build this region's catalog now
+      console.log(`📦 Bootstrapping genre catalog for ${genreRow.key} (${region.market})`)
+      await refreshGenre(supabase, genreRow, region.market)
+      market = region.market
     }
 
-    // Convert to array and sort by popularity
-    const artists = Array.from(allArtists.values())
-      .sort((a, b) => (b.popularity || 0) - (a.popularity || 0))
-      .slice(0, limit)
-      .map(artist => ({
-        id: artist.id,
-        name: artist.name,
-        imageUrl: artist.images?.[0]?.url || null,
-        popularity: artist.popularity,
-        followerCount: artist.followers?.total,
-        genres: artist.genres || []
-      }))
-
-    console.log(`✅ Found ${artists.length} artists for genre: ${genre}`)
+    const subgenres = (await listGenres(supabase))
+      .filter(g => g.parent_key === genreRow.key)
+      .map(g => ({ key: g.key, name: g.name }))
+
+    const { data: rows, error: rowsError } = await supabase
+      .from(type === 'artists' ? 'genre_artists' : 'genre_tracks')
+      .select('*')
+      .eq('genre_key', genreRow.key)
+      .eq('market', market)
+      .gt('rank', afterRank)
+      .order('rank', { ascending: true })
+      .limit(limit + 1)
+
+    if (rowsError) throw rowsError
+
+    const page = (rows ?? []).slice(0, limit)
+    const nextCursor = (rows ?? []).length > limit ? encodeRankCursor(page[page.length - 1].rank) : null
+
+    const items = type === 'artists'
+      ? page.map(row => ({
+          id: row.artist_id,
+          name: row.name,
+          imageUrl: row.image_url,
+          popularity: row.popularity,
+          followerCount: row.follower_count,
+          genres: row.genres || []
+        }))
+      : page.map(row => ({
+          id: row.track_id,
+          name: row.name,
+          artistName: row.artist_name,
+          artistId: row.artist_id,
+          albumArtUrl: row.album_art_url,
+          previewUrl: row.preview_url,
+          isrc: row.isrc,
+          popularity: row.popularity,
+          isPlayable: row.is_playable
+        }))
+
+    console.log(`✅ Found ${items.length} ${type} for genre: ${genreRow.key} (catalog: ${market})`)
 
     return new Response(
       JSON.stringify({
-        genre: genre,
-        artists: artists
+        genre: genreRow.key,
+        name: genreRow.name,
+        parentKey: genreRow.parent_key,
+        subgenres: subgenres,
+        [type]: items,
+        market: market,
+        nextCursor: nextCursor
       }),
       {
         status: 200,
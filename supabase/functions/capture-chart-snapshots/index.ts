@@ -0,0 +1,91 @@
+// Supabase Edge Function that snapshots music charts for trending
+// Meant to run on a schedule (e.g. every 6 hours via cron) with the CRON_SECRET
+// in the x-cron-secret header.
+// Captures Apple Music's most-played chart for every region our users are in and
+// prunes snapshots past the retention window.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { captureAppleChart } from "../_shared/chart-snapshots.ts";
+import { isCronRequest } from "../_shared/cron.ts";
+import { listUserRegions, normalizeRegion } from "../_shared/region.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-secret",
+};
+
+// Bounds the Apple Music calls per run if users come from many countries
+const MAX_REGIONS = 25;
+const RETENTION_DAYS = 30;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const { regions: requestedRegions } = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const regions = Array.isArray(requestedRegions)
+      ? [...new Set(requestedRegions.map(normalizeRegion).filter((code): code is string => code !== null))]
+        .slice(0, MAX_REGIONS)
+      : await listUserRegions(supabase, MAX_REGIONS);
+
+    console.log(`📊 Capturing charts for ${regions.length} regions: ${regions.join(", ")}`);
+
+    const results: Array<{ region: string; entries?: number; error?: string }> = [];
+    for (const region of regions) {
+      try {
+        const snapshot = await captureAppleChart(supabase, region);
+        results.push({ region, entries: snapshot.entries.length });
+      } catch (error) {
+        console.error(`❌ Failed to capture chart for ${region}:`, error);
+        results.push({ region, error: error.message });
+      }
+    }
+
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { error: pruneError } = await supabase
+      .from("chart_snapshots")
+      .delete()
+      .lt("captured_at", cutoff);
+
+    if (pruneError) {
+      console.error("⚠️ Failed to prune old chart snapshots:", pruneError);
+    }
+
+    const captured = results.filter((result) => !result.error).length;
+    console.log(`✅ Captured ${captured}/${regions.length} charts`);
+
+    return new Response(
+      JSON.stringify({ success: true, captured, results }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in capture-chart-snapshots:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
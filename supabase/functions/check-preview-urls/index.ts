@@ -0,0 +1,200 @@
+// Supabase Edge Function that re-checks stored preview URLs on shares
+// Meant to run on a schedule (e.g. daily cron) with the CRON_SECRET
+// in the x-cron-secret header.
+// Dead previews are re-resolved through the Apple Music preview chain and written
+// back; ones we can't replace are cleared so the app resolves them on play instead.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAppleMusicPreview } from '../_shared/apple-music/index.ts';
+import { mapWithConcurrency } from '../_shared/concurrency.ts';
+import { isCronRequest } from '../_shared/cron.ts';
+import { findCatalogTrack } from '../_shared/track-catalog.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+};
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+const CHECK_CONCURRENCY = 8;
+const CHECK_TIMEOUT_MS = 5000;
+const UPDATE_CHUNK_SIZE = 100;
+
+// Statuses that mean the preview is gone for good (expired signed URLs come back 403)
+const DEAD_STATUSES = new Set([400, 403, 404, 410]);
+
+type PreviewHealth = 'healthy' | 'dead' | 'unknown';
+
+interface ShareRow {
+  id: string;
+  track_id: string;
+  track_name: string;
+  artist_name: string;
+  preview_url: string;
+}
+
+/**
+ * HEAD-check a preview URL. Timeouts and 5xx are 'unknown' so a flaky CDN
+ * never causes a working preview to be replaced.
+ */
+async function checkPreviewUrl(url: string): Promise<PreviewHealth> {
+  try {
+    let response = await fetch(url, {
+      method: 'HEAD',
+      signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+    });
+
+    // Some CDNs don't allow HEAD; a one-byte ranged GET answers the same question
+    if (response.status === 405 || response.status === 501) {
+      response = await fetch(url, {
+        headers: { Range: 'bytes=0-0' },
+        signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+      });
+      await response.body?.cancel();
+    }
+
+    if (response.ok) return 'healthy';
+    if (DEAD_STATUSES.has(response.status)) return 'dead';
+    return 'unknown';
+  } catch (error) {
+    console.error(`⚠️ Preview check failed for ${url}:`, error);
+    return 'unknown';
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const { limit = DEFAULT_LIMIT } = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Least recently checked first; among those, daily songs (they're what phlocks actually play)
+    const { data: shares, error } = await supabase
+      .from('shares')
+      .select('id, track_id, track_name, artist_name, preview_url')
+      .not('preview_url', 'is', null)
+      .order('preview_checked_at', { ascending: true, nullsFirst: true })
+      .order('is_daily_song', { ascending: false })
+      .limit(Math.min(Math.max(1, limit), MAX_LIMIT));
+
+    if (error) throw error;
+
+    // Many shares point at the same preview; check each URL once
+    const sharesByUrl = new Map<string, ShareRow[]>();
+    for (const share of (shares ?? []) as ShareRow[]) {
+      const group = sharesByUrl.get(share.preview_url) ?? [];
+      group.push(share);
+      sharesByUrl.set(share.preview_url, group);
+    }
+
+    console.log(`🔍 Checking ${sharesByUrl.size} preview URLs across ${shares?.length ?? 0} shares`);
+
+    const counts = { healthy: 0, repaired: 0, unrecoverable: 0, skipped: 0 };
+    // Shares to stamp as checked: healthy ones, and inconclusive ones so a flaky URL
+    // goes to the back of the queue instead of starving the batch
+    const checkedShareIds: string[] = [];
+
+    await mapWithConcurrency([...sharesByUrl.entries()], CHECK_CONCURRENCY, async ([url, group]) => {
+      const health = await checkPreviewUrl(url);
+
+      if (health === 'healthy') {
+        counts.healthy++;
+        checkedShareIds.push(...group.map(s => s.id));
+        return;
+      }
+      if (health === 'unknown') {
+        // Tried again once the rest have had their turn
+        counts.skipped++;
+        checkedShareIds.push(...group.map(s => s.id));
+        return;
+      }
+
+      const { track_id, track_name, artist_name } = group[0];
+      const cached = await findCatalogTrack(supabase, { trackId: track_id });
+      const replacement = await getAppleMusicPreview(cached?.isrc ?? '', track_name, artist_name);
+
+      const newUrl = replacement && replacement.url !== url && await checkPreviewUrl(replacement.url) === 'healthy'
+        ? replacement.url
+        : null;
+
+      const { error: updateError } = await supabase
+        .from('shares')
+        .update({ preview_url: newUrl, preview_checked_at: new Date().toISOString() })
+        .in('id', group.map(s => s.id));
+
+      if (updateError) {
+        console.error(`❌ Failed to update preview for "${track_name}":`, updateError);
+        counts.skipped++;
+        checkedShareIds.push(...group.map(s => s.id));
+        return;
+      }
+
+      // Keep the catalog from handing the dead URL back out
+      await supabase
+        .from('tracks')
+        .update({ preview_url: newUrl })
+        .eq('preview_url', url);
+
+      if (newUrl) {
+        console.log(`✅ Repaired preview for "${track_name}" by ${artist_name}`);
+        counts.repaired++;
+      } else {
+        console.log(`⚠️ No replacement preview for "${track_name}" by ${artist_name}, cleared`);
+        counts.unrecoverable++;
+      }
+    });
+
+    // Chunked so the id filter stays within URL length limits
+    for (let i = 0; i < checkedShareIds.length; i += UPDATE_CHUNK_SIZE) {
+      const { error: touchError } = await supabase
+        .from('shares')
+        .update({ preview_checked_at: new Date().toISOString() })
+        .in('id', checkedShareIds.slice(i, i + UPDATE_CHUNK_SIZE));
+
+      if (touchError) {
+        console.error('❌ Failed to record preview checks:', touchError);
+      }
+    }
+
+    console.log(`✅ Preview check complete: ${JSON.stringify(counts)}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        checked: sharesByUrl.size,
+        sharesChecked: shares?.length ?? 0,
+        ...counts,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error) {
+    console.error('Error in check-preview-urls function:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
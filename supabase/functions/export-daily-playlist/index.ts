@@ -0,0 +1,405 @@
+// Supabase Edge Function that exports the caller's daily playlist to their own library
+// Creates or updates a "Phlock – Today" playlist on Spotify or Apple Music from
+// get-daily-playlist's tracks (matched onto the platform by ISRC), and optionally
+// appends them to a rolling "Phlock Archive" playlist. Picks that only have an
+// approximate title/artist match on the platform are left out and listed instead.
+//
+// Spotify uses the token stored in platform_tokens. Apple Music needs a Music User
+// Token, which only MusicKit on the device can issue, so the app sends it along.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildDailyPlaylist } from "../_shared/daily-playlist.ts";
+import { createUserTokenProvider, getPlatformToken, hasScopes } from "../_shared/platform-tokens.ts";
+import { resolveRegion } from "../_shared/region.ts";
+import { localDate } from "../_shared/timezone.ts";
+import {
+  createSpotifyClient,
+  SpotifyAuthError,
+  SpotifyNotFoundError,
+  type SpotifyClient,
+} from "../_shared/spotify/index.ts";
+import { AppleMusicAuthError, createAppleMusicLibraryClient } from "../_shared/apple-music/index.ts";
+import type { MusicPlatform } from "../_shared/track-resolver.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface ExportRequest {
+  date?: string; // Caller's local date (YYYY-MM-DD)
+  platform?: MusicPlatform; // Defaults to the caller's music_platform
+  archive?: boolean; // Also append to the rolling archive playlist
+  musicUserToken?: string; // Required for Apple Music
+  region?: string;
+}
+
+type ExportKind = "today" | "archive";
+
+interface ExportRow {
+  external_playlist_id: string;
+  external_url: string | null;
+  last_exported_date: string;
+  track_ids: string[];
+}
+
+interface ExportResult {
+  playlistId: string;
+  url: string | null;
+  created: boolean;
+  added: number;
+}
+
+const TODAY_PLAYLIST_NAME = "Phlock – Today";
+const ARCHIVE_PLAYLIST_NAME = "Phlock Archive";
+const SPOTIFY_EXPORT_SCOPES = ["playlist-modify-private"];
+
+function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+async function loadExport(
+  supabase: SupabaseClient,
+  userId: string,
+  platform: MusicPlatform,
+  kind: ExportKind
+): Promise<ExportRow | null> {
+  const { data, error } = await supabase
+    .from("playlist_exports")
+    .select("external_playlist_id, external_url, last_exported_date, track_ids")
+    .eq("user_id", userId)
+    .eq("platform", platform)
+    .eq("kind", kind)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ExportRow | null;
+}
+
+async function saveExport(
+  supabase: SupabaseClient,
+  userId: string,
+  platform: MusicPlatform,
+  kind: ExportKind,
+  row: ExportRow
+): Promise<void> {
+  const { error } = await supabase
+    .from("playlist_exports")
+    .upsert({ user_id: userId, platform, kind, ...row }, { onConflict: "user_id,platform,kind" });
+
+  if (error) throw error;
+}
+
+/** IDs to add for `date`: everything on a new day, only the missing ones on a re-export */
+function idsToAppend(existing: ExportRow | null, date: string, trackIds: string[]): string[] {
+  if (!existing || existing.last_exported_date !== date) return trackIds;
+  return trackIds.filter((id) => !existing.track_ids.includes(id));
+}
+
+function exportedIds(existing: ExportRow | null, date: string, added: string[]): string[] {
+  return existing?.last_exported_date === date ? [...existing.track_ids, ...added] : added;
+}
+
+async function exportToSpotify(
+  supabase: SupabaseClient,
+  client: SpotifyClient,
+  userId: string,
+  trackIds: string[],
+  date: string,
+  archive: boolean
+): Promise<{ today: ExportResult; archive: ExportResult | null }> {
+  const uris = trackIds.map((id) => `spotify:track:${id}`);
+  const description = `Your phlock's daily picks for ${date}`;
+  let ownerId: string | null = null;
+  const createPrivatePlaylist = async (name: string, playlistDescription: string) => {
+    ownerId ??= (await client.getCurrentUser()).id;
+    return await client.createPlaylist(ownerId, { name, description: playlistDescription, public: false });
+  };
+
+  // Today: replaced wholesale, so it always matches the current playlist
+  const existingToday = await loadExport(supabase, userId, "spotify", "today");
+  let today: ExportResult | null = null;
+  if (existingToday) {
+    try {
+      await client.replacePlaylistItems(existingToday.external_playlist_id, uris);
+      await client.updatePlaylistDetails(existingToday.external_playlist_id, { description });
+      today = {
+        playlistId: existingToday.external_playlist_id,
+        url: existingToday.external_url,
+        created: false,
+        added: uris.length,
+      };
+    } catch (error) {
+      if (!(error instanceof SpotifyNotFoundError)) throw error;
+      console.log(`Stored Spotify playlist ${existingToday.external_playlist_id} is gone, creating a new one`);
+    }
+  }
+  if (!today) {
+    const playlist = await createPrivatePlaylist(TODAY_PLAYLIST_NAME, description);
+    await client.replacePlaylistItems(playlist.id, uris);
+    today = { playlistId: playlist.id, url: playlist.external_urls?.spotify ?? null, created: true, added: uris.length };
+  }
+  await saveExport(supabase, userId, "spotify", "today", {
+    external_playlist_id: today.playlistId,
+    external_url: today.url,
+    last_exported_date: date,
+    track_ids: trackIds,
+  });
+
+  if (!archive) return { today, archive: null };
+
+  // Archive: appended to, so only the picks it doesn't have for this date yet
+  const existingArchive = await loadExport(supabase, userId, "spotify", "archive");
+  let archiveResult: ExportResult | null = null;
+  let archivedIds: string[] = trackIds;
+  if (existingArchive) {
+    const toAdd = idsToAppend(existingArchive, date, trackIds);
+    try {
+      if (toAdd.length > 0) {
+        await client.addPlaylistItems(existingArchive.external_playlist_id, toAdd.map((id) => `spotify:track:${id}`));
+      }
+      archiveResult = {
+        playlistId: existingArchive.external_playlist_id,
+        url: existingArchive.external_url,
+        created: false,
+        added: toAdd.length,
+      };
+      archivedIds = exportedIds(existingArchive, date, toAdd);
+    } catch (error) {
+      if (!(error instanceof SpotifyNotFoundError)) throw error;
+      console.log(`Stored Spotify playlist ${existingArchive.external_playlist_id} is gone, creating a new archive`);
+    }
+  }
+  if (!archiveResult) {
+    const playlist = await createPrivatePlaylist(ARCHIVE_PLAYLIST_NAME, "Every day of your phlock's picks");
+    await client.addPlaylistItems(playlist.id, uris);
+    archiveResult = { playlistId: playlist.id, url: playlist.external_urls?.spotify ?? null, created: true, added: uris.length };
+  }
+  await saveExport(supabase, userId, "spotify", "archive", {
+    external_playlist_id: archiveResult.playlistId,
+    external_url: archiveResult.url,
+    last_exported_date: date,
+    track_ids: archivedIds,
+  });
+
+  return { today, archive: archiveResult };
+}
+
+/**
+ * Apple Music can't remove tracks from a library playlist, so "today" can only be
+ * appended to on the same day; each new day gets a new playlist named with its date.
+ */
+async function exportToAppleMusic(
+  supabase: SupabaseClient,
+  musicUserToken: string,
+  userId: string,
+  trackIds: string[],
+  date: string,
+  archive: boolean
+): Promise<{ today: ExportResult; archive: ExportResult | null }> {
+  const library = createAppleMusicLibraryClient(musicUserToken);
+  const description = `Your phlock's daily picks for ${date}`;
+
+  const appendOrCreate = async (kind: ExportKind, name: string, playlistDescription: string, newPerDay: boolean) => {
+    const existing = await loadExport(supabase, userId, "apple_music", kind);
+    const reuse = existing && (!newPerDay || existing.last_exported_date === date) ? existing : null;
+    const toAdd = idsToAppend(reuse, date, trackIds);
+
+    let result: ExportResult;
+    if (reuse) {
+      if (toAdd.length > 0) await library.addPlaylistTracks(reuse.external_playlist_id, toAdd);
+      result = { playlistId: reuse.external_playlist_id, url: null, created: false, added: toAdd.length };
+    } else {
+      const playlist = await library.createPlaylist({ name, description: playlistDescription }, toAdd);
+      result = { playlistId: playlist.id, url: null, created: true, added: toAdd.length };
+    }
+
+    await saveExport(supabase, userId, "apple_music", kind, {
+      external_playlist_id: result.playlistId,
+      external_url: null,
+      last_exported_date: date,
+      track_ids: exportedIds(reuse, date, toAdd),
+    });
+    return result;
+  };
+
+  const today = await appendOrCreate("today", `${TODAY_PLAYLIST_NAME} (${date})`, description, true);
+  const archiveResult = archive
+    ? await appendOrCreate("archive", ARCHIVE_PLAYLIST_NAME, "Every day of your phlock's picks", false)
+    : null;
+
+  return { today, archive: archiveResult };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      date: requestedDate,
+      platform: requestedPlatform,
+      archive = false,
+      musicUserToken,
+      region: requestedRegion,
+    }: ExportRequest = await req.json().catch(() => ({}));
+
+    if (requestedDate !== undefined && !isValidDate(requestedDate)) {
+      return new Response(
+        JSON.stringify({ error: "date must be a YYYY-MM-DD date" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (requestedPlatform !== undefined && requestedPlatform !== "spotify" && requestedPlatform !== "apple_music") {
+      return new Response(
+        JSON.stringify({ error: "platform must be 'spotify' or 'apple_music'" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Missing authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Service role: reads the user's platform tokens and writes export state
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: profile, error: profileError } = await supabase
+      .from("users")
+      .select("id, music_platform, timezone")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (!profile) {
+      return new Response(
+        JSON.stringify({ error: "User profile not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const date = requestedDate ?? localDate(profile.timezone);
+    const platform: MusicPlatform = requestedPlatform ??
+      (profile.music_platform === "apple_music" ? "apple_music" : "spotify");
+
+    // Check credentials before resolving tracks, which is the slow part
+    let spotifyClient: SpotifyClient | null = null;
+    if (platform === "spotify") {
+      const token = await getPlatformToken(supabase, profile.id, "spotify");
+      if (!token || token.revoked_at || !hasScopes(token, SPOTIFY_EXPORT_SCOPES)) {
+        return new Response(
+          JSON.stringify({
+            error: "Reconnect Spotify to let Phlock create playlists",
+            reauthorizationRequired: true,
+          }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      spotifyClient = createSpotifyClient(createUserTokenProvider(supabase, token));
+    } else if (!musicUserToken) {
+      return new Response(
+        JSON.stringify({ error: "musicUserToken is required to export to Apple Music" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const region = await resolveRegion(req, requestedRegion);
+    const playlist = await buildDailyPlaylist(supabase, profile.id, date, platform, region, profile.timezone);
+
+    // Only exact (ID/ISRC) matches are exported; a title/artist search match may be a
+    // different version, so those are listed for the app instead
+    const matched = playlist.tracks.filter((entry) => entry.track.id && entry.track.confidence === 1);
+    const unmatched = playlist.tracks
+      .filter((entry) => !entry.track.id)
+      .map((entry) => ({
+        memberId: entry.member.userId,
+        trackName: entry.track.name,
+        artistName: entry.track.artistName,
+      }));
+    const approximate = playlist.tracks
+      .filter((entry) => entry.track.id && entry.track.confidence !== 1)
+      .map((entry) => ({
+        memberId: entry.member.userId,
+        trackName: entry.track.name,
+        artistName: entry.track.artistName,
+        trackId: entry.track.id,
+        confidence: entry.track.confidence,
+      }));
+
+    if (matched.length === 0) {
+      return new Response(
+        JSON.stringify({
+          error: playlist.tracks.length === 0
+            ? "Nobody in your phlock has picked a song for this day yet"
+            : "None of today's picks are available on your platform",
+          unmatched,
+          approximate,
+          waitingOn: playlist.waitingOn.map((member) => member.userId),
+        }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const trackIds = [...new Set(matched.map((entry) => entry.track.id as string))];
+    console.log(`📤 Exporting ${trackIds.length} tracks for ${profile.id} to ${platform} (${date}, archive: ${archive})`);
+
+    const result = spotifyClient
+      ? await exportToSpotify(supabase, spotifyClient, profile.id, trackIds, date, archive)
+      : await exportToAppleMusic(supabase, musicUserToken as string, profile.id, trackIds, date, archive);
+
+    console.log(`✅ Exported to ${platform} playlist ${result.today.playlistId}`);
+
+    return new Response(
+      JSON.stringify({
+        platform,
+        date,
+        today: result.today,
+        archive: result.archive,
+        unmatched,
+        approximate,
+        waitingOn: playlist.waitingOn.map((member) => member.userId),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in export-daily-playlist:", error);
+    if (error instanceof SpotifyAuthError || error instanceof AppleMusicAuthError) {
+      return new Response(
+        JSON.stringify({ error: error.message, reauthorizationRequired: true }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
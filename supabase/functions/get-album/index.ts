@@ -0,0 +1,329 @@
+// Supabase Edge Function for album details
+// Takes a Spotify or Apple Music album ID and returns artwork, release info and the
+// full tracklist, with missing previews resolved through the Apple Music fallback chain.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  spotify,
+  type SpotifyImage,
+  type SpotifySimplifiedTrack,
+  type SpotifyTrack,
+} from "../_shared/spotify/index.ts";
+import {
+  appleMusic,
+  artworkImages,
+  getAppleMusicPreview,
+  type AppleMusicSong,
+} from "../_shared/apple-music/index.ts";
+import { mapWithConcurrency } from "../_shared/concurrency.ts";
+import { isAppleMusicSongPlayable, resolveRegion, type Region } from "../_shared/region.ts";
+import { findCatalogTracksByISRC, normalizeISRC, upsertCatalogTrack } from "../_shared/track-catalog.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+type MusicPlatform = "spotify" | "apple_music";
+
+interface AlbumRequest {
+  albumId: string;
+  platform?: MusicPlatform; // Inferred from the ID when omitted (Apple IDs are numeric)
+  region?: string;
+}
+
+interface AlbumTrack {
+  id: string; // ID on the album's platform
+  platform: MusicPlatform;
+  name: string;
+  artistName: string;
+  artists: string[];
+  trackNumber: number | null;
+  discNumber: number | null;
+  durationMs: number | null;
+  isrc: string | null;
+  previewUrl: string | null;
+  spotifyId: string | null;
+  appleMusicId: string | null;
+  isPlayable: boolean;
+}
+
+interface Album {
+  id: string;
+  platform: MusicPlatform;
+  name: string;
+  artistName: string;
+  artists: Array<{ id: string | null; name: string }>;
+  albumType: "album" | "single" | "compilation";
+  releaseDate: string | null;
+  label: string | null;
+  upc: string | null;
+  genres: string[];
+  totalTracks: number;
+  artwork: SpotifyImage[]; // Largest first
+  spotifyId: string | null;
+  appleMusicId: string | null;
+}
+
+// Box sets can run to hundreds of tracks; the app only shows a tracklist
+const MAX_TRACKS = 200;
+// Spotify's per-request cap for album tracks and /tracks?ids=
+const SPOTIFY_PAGE_SIZE = 50;
+// Apple artwork can be rendered at any size up to the original
+const APPLE_ARTWORK_SIZES = [1200, 640, 300, 64];
+const PREVIEW_CONCURRENCY = 5;
+
+function parseAlbumId(albumId: string, platform?: MusicPlatform): { id: string; platform: MusicPlatform } {
+  const [prefix, rest] = albumId.split(":", 2);
+  if (rest && prefix === "spotify") return { id: rest, platform: "spotify" };
+  if (rest && prefix === "apple") return { id: rest, platform: "apple_music" };
+  return { id: albumId, platform: platform ?? (/^\d+$/.test(albumId) ? "apple_music" : "spotify") };
+}
+
+function fromSpotify(track: SpotifySimplifiedTrack, full: SpotifyTrack | undefined): AlbumTrack {
+  const isrc = full?.external_ids?.isrc;
+  return {
+    id: track.id,
+    platform: "spotify",
+    name: track.name,
+    artistName: track.artists[0]?.name ?? "Unknown Artist",
+    artists: track.artists.map((artist) => artist.name),
+    trackNumber: track.track_number,
+    discNumber: track.disc_number,
+    durationMs: track.duration_ms ?? null,
+    isrc: isrc ? normalizeISRC(isrc) : null,
+    previewUrl: track.preview_url,
+    spotifyId: track.id,
+    appleMusicId: null,
+    isPlayable: track.is_playable !== false,
+  };
+}
+
+function fromAppleMusic(song: AppleMusicSong): AlbumTrack {
+  const { attributes } = song;
+  return {
+    id: song.id,
+    platform: "apple_music",
+    name: attributes.name,
+    artistName: attributes.artistName,
+    artists: [attributes.artistName],
+    trackNumber: attributes.trackNumber ?? null,
+    discNumber: attributes.discNumber ?? null,
+    durationMs: attributes.durationInMillis ?? null,
+    isrc: attributes.isrc ? normalizeISRC(attributes.isrc) : null,
+    previewUrl: attributes.previews?.[0]?.url ?? null,
+    spotifyId: null,
+    appleMusicId: song.id,
+    isPlayable: isAppleMusicSongPlayable(song),
+  };
+}
+
+async function getSpotifyAlbum(albumId: string, region: Region): Promise<{ album: Album; tracks: AlbumTrack[] } | null> {
+  const album = await spotify.getAlbum(albumId, region.market);
+  if (!album) return null;
+
+  const listed = [...album.tracks.items];
+  let next = album.tracks.next;
+  while (next && listed.length < MAX_TRACKS) {
+    const page = await spotify.getAlbumTracks(album.id, {
+      limit: SPOTIFY_PAGE_SIZE,
+      offset: listed.length,
+      market: region.market,
+    });
+    listed.push(...page.items);
+    next = page.next;
+  }
+  const albumTracks = listed.slice(0, MAX_TRACKS);
+
+  // Album tracklists omit ISRCs, which the preview chain and catalog are keyed by
+  const fullTracks = new Map<string, SpotifyTrack>();
+  for (let i = 0; i < albumTracks.length; i += SPOTIFY_PAGE_SIZE) {
+    const ids = albumTracks.slice(i, i + SPOTIFY_PAGE_SIZE).map((track) => track.id);
+    for (const track of await spotify.getTracks(ids, region.market)) {
+      fullTracks.set(track.id, track);
+    }
+  }
+
+  return {
+    album: {
+      id: album.id,
+      platform: "spotify",
+      name: album.name,
+      artistName: album.artists[0]?.name ?? "Unknown Artist",
+      artists: album.artists.map((artist) => ({ id: artist.id, name: artist.name })),
+      albumType: album.album_type ?? "album",
+      releaseDate: album.release_date ?? null,
+      label: album.label ?? null,
+      upc: album.external_ids?.upc ?? null,
+      genres: album.genres ?? [],
+      totalTracks: album.total_tracks ?? albumTracks.length,
+      artwork: album.images,
+      spotifyId: album.id,
+      appleMusicId: null,
+    },
+    tracks: albumTracks.map((track) => fromSpotify(track, fullTracks.get(track.id))),
+  };
+}
+
+async function getAppleMusicAlbum(albumId: string, region: Region): Promise<{ album: Album; tracks: AlbumTrack[] } | null> {
+  const album = await appleMusic.getAlbum(albumId, { storefront: region.storefront });
+  if (!album) return null;
+
+  const listed = [...(album.relationships?.tracks?.data ?? [])];
+  let next = album.relationships?.tracks?.next;
+  while (next && listed.length < MAX_TRACKS) {
+    const page = await appleMusic.getAlbumTracks(album.id, {
+      offset: listed.length,
+      storefront: region.storefront,
+    });
+    listed.push(...page.data);
+    next = page.next;
+  }
+
+  // Tracklists can include music videos, which have no audio preview to share
+  const songs = listed.filter((item) => item.type === "songs").slice(0, MAX_TRACKS);
+  const { attributes } = album;
+  const largestSize = attributes.artwork?.width ?? APPLE_ARTWORK_SIZES[0];
+
+  return {
+    album: {
+      id: album.id,
+      platform: "apple_music",
+      name: attributes.name,
+      artistName: attributes.artistName,
+      artists: [{ id: null, name: attributes.artistName }],
+      albumType: attributes.isCompilation ? "compilation" : attributes.isSingle ? "single" : "album",
+      releaseDate: attributes.releaseDate ?? null,
+      label: attributes.recordLabel ?? null,
+      upc: attributes.upc ?? null,
+      genres: (attributes.genreNames ?? []).filter((genre) => genre !== "Music"),
+      totalTracks: attributes.trackCount ?? songs.length,
+      artwork: artworkImages(attributes.artwork, APPLE_ARTWORK_SIZES.filter((size) => size <= largestSize)),
+      spotifyId: null,
+      appleMusicId: album.id,
+    },
+    tracks: songs.map(fromAppleMusic),
+  };
+}
+
+/**
+ * Link tracks to the other platform from the catalog and fill missing previews,
+ * first from the catalog and then through the Apple Music preview chain.
+ * Previews found by the chain are written back so the next lookup is a catalog hit.
+ */
+async function resolvePreviews(
+  supabase: SupabaseClient,
+  album: Album,
+  tracks: AlbumTrack[],
+  storefront: string
+): Promise<void> {
+  const catalog = await findCatalogTracksByISRC(
+    supabase,
+    tracks.map((track) => track.isrc).filter((isrc): isrc is string => !!isrc)
+  );
+
+  for (const track of tracks) {
+    const known = track.isrc ? catalog.get(track.isrc) : undefined;
+    track.spotifyId ??= known?.spotify_id ?? null;
+    track.appleMusicId ??= known?.apple_music_id ?? null;
+    track.previewUrl ??= known?.preview_url ?? null;
+  }
+
+  const missing = tracks.filter((track) => !track.previewUrl);
+  if (missing.length === 0) return;
+
+  console.log(`🔍 Resolving ${missing.length} missing previews through Apple Music`);
+
+  await mapWithConcurrency(missing, PREVIEW_CONCURRENCY, async (track) => {
+    const preview = await getAppleMusicPreview(track.isrc ?? "", track.name, track.artistName, storefront);
+    if (!preview) return;
+
+    track.previewUrl = preview.url;
+    // Text-search matches are good enough to play but not to link IDs
+    if (preview.matchedBy === "isrc") {
+      track.appleMusicId ??= preview.appleMusicId;
+    }
+
+    if (track.isrc) {
+      await upsertCatalogTrack(supabase, {
+        isrc: track.isrc,
+        title: track.name,
+        artist_name: track.artistName,
+        artists: track.artists,
+        spotify_id: track.spotifyId ?? undefined,
+        apple_music_id: preview.matchedBy === "isrc" ? preview.appleMusicId : undefined,
+        album_art_url: album.artwork[0]?.url,
+        duration_ms: track.durationMs ?? undefined,
+        preview_url: preview.url,
+      });
+    }
+  });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { albumId, platform: requestedPlatform, region: requestedRegion }: AlbumRequest = await req.json();
+
+    if (!albumId || typeof albumId !== "string") {
+      return new Response(
+        JSON.stringify({ error: "Album ID is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { id, platform } = parseAlbumId(albumId.trim(), requestedPlatform);
+    const region = await resolveRegion(req, requestedRegion);
+
+    console.log(`🎵 Fetching ${platform} album: ${id} (region: ${region.market})`);
+
+    const result = platform === "spotify"
+      ? await getSpotifyAlbum(id, region)
+      : await getAppleMusicAlbum(id, region);
+
+    if (!result) {
+      return new Response(
+        JSON.stringify({ error: "Album not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+    await resolvePreviews(supabase, result.album, result.tracks, region.storefront);
+
+    console.log(
+      `✅ Album "${result.album.name}": ${result.tracks.length} tracks, ${result.tracks.filter((t) => t.previewUrl).length} with previews`
+    );
+
+    return new Response(
+      JSON.stringify({ ...result, market: region.market }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in get-album:", error);
+    return new Response(
+      JSON.stringify({ error: error.message || "Internal server error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -1,6 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const APPLE_MUSIC_DEVELOPER_TOKEN = Deno.env.get("APPLE_MUSIC_DEVELOPER_TOKEN")!;
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { appleMusic } from "../_shared/apple-music/index.ts";
+import {
+  APPLE_MOST_PLAYED,
+  computeTrending,
+  fetchAppleChart,
+  loadTrendingWindow,
+  songToChartTrack,
+} from "../_shared/chart-snapshots.ts";
+import { resolveRegion } from "../_shared/region.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,7 +19,8 @@ const corsHeaders = {
 interface ChartsRequest {
   chartType: "top-songs" | "trending";
   limit?: number;
-  storefront?: string;
+  storefront?: string; // Legacy name for region
+  region?: string;
 }
 
 serve(async (req) => {
@@ -21,64 +30,59 @@ serve(async (req) => {
   }
 
   try {
-    const { chartType, limit = 15, storefront = "us" }: ChartsRequest = await req.json();
+    const { chartType, limit = 15, storefront: requestedStorefront, region: requestedRegion }: ChartsRequest = await req.json();
+    const { market, storefront } = await resolveRegion(req, requestedRegion ?? requestedStorefront);
 
     console.log(`Fetching Apple Music charts: ${chartType}, limit: ${limit}, storefront: ${storefront}`);
 
-    if (!APPLE_MUSIC_DEVELOPER_TOKEN) {
-      throw new Error("APPLE_MUSIC_DEVELOPER_TOKEN not configured");
-    }
-
-    // Apple Music only has 'most-played' as a reliable chart endpoint
-    // For both 'top-songs' and 'trending', we use the same endpoint but can shuffle for variety
-    const url = `https://api.music.apple.com/v1/catalog/${storefront}/charts?types=songs&chart=most-played&limit=${Math.min(limit * 2, 50)}`;
-    const shouldShuffle = chartType === "trending"; // Shuffle for viral/trending to show different songs
-
-    console.log("Apple Music API URL:", url);
+    if (chartType !== "trending") {
+      // Apple Music only has 'most-played' as a reliable chart endpoint
+      const chart = await appleMusic.getChart("most-played", {
+        storefront,
+        limit: Math.min(limit, 50),
+      });
+      const tracks = (chart?.data ?? []).slice(0, limit).map(songToChartTrack);
+      console.log(`Got ${tracks.length} songs from Apple Music`);
 
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${APPLE_MUSIC_DEVELOPER_TOKEN}`,
-      },
-    });
-
-    console.log("Apple Music response status:", response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Apple Music API error:", response.status, errorText);
-      throw new Error(`Apple Music API error: ${response.status} - ${errorText}`);
+      return new Response(JSON.stringify({ tracks }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
 
-    const data = await response.json();
+    // Trending comes from stored snapshots, which only capture-chart-snapshots writes
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
 
-    // Transform Apple Music response to our track format
-    // Apple Music returns charts in results.songs[0].data array
-    let songs = data.results?.songs?.[0]?.data || [];
-    console.log(`Got ${songs.length} songs from Apple Music`);
+    const { latest, baseline } = await loadTrendingWindow(supabase, APPLE_MOST_PLAYED, market);
+    // A region capture-chart-snapshots doesn't cover yet: the live chart, with nothing to compare it to
+    const entries = latest?.entries ?? await fetchAppleChart(market);
+    if (!latest) console.log(`No chart snapshots for ${market} yet, serving the live chart`);
 
-    // For trending/viral, shuffle the results to show variety
-    if (shouldShuffle && songs.length > 0) {
-      songs = [...songs].sort(() => Math.random() - 0.5);
-    }
+    const trending = computeTrending(entries, baseline?.entries ?? null).slice(0, limit);
+    console.log(`Got ${trending.length} trending songs (baseline: ${baseline?.captured_at ?? "none"})`);
 
-    const tracks = songs.slice(0, limit).map((song: any) => ({
-      id: song.id,
-      name: song.attributes?.name || "Unknown Track",
-      artistName: song.attributes?.artistName || "Unknown Artist",
-      previewUrl: song.attributes?.previews?.[0]?.url || null,
-      albumArtUrl: song.attributes?.artwork?.url
-        ?.replace("{w}", "300")
-        ?.replace("{h}", "300") || null,
-      isrc: song.attributes?.isrc || null,
-      appleMusicId: song.id,
-      durationMs: song.attributes?.durationInMillis || null,
-      albumName: song.attributes?.albumName || null,
+    const tracks = trending.map(({ track, rank, previousRank, rankDelta, isNewEntry }) => ({
+      ...track,
+      rank,
+      previousRank,
+      rankDelta,
+      isNewEntry,
     }));
 
-    return new Response(JSON.stringify({ tracks }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return new Response(
+      JSON.stringify({
+        tracks,
+        snapshot: {
+          capturedAt: latest?.captured_at ?? null,
+          comparedTo: baseline?.captured_at ?? null,
+        },
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
   } catch (error) {
     console.error("Error:", error);
     return new Response(
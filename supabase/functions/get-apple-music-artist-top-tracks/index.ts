@@ -0,0 +1,78 @@
+// Supabase Edge Function to fetch an Apple Music artist's top songs
+// Same request/response shape as get-artist-top-tracks so the app can switch on platform
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  appleMusic,
+  AppleMusicNotFoundError,
+  songToTrackResponse,
+} from "../_shared/apple-music/index.ts";
+import { resolveRegion } from "../_shared/region.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface ArtistTopTracksRequest {
+  artistId: string;
+  limit?: number;
+  region?: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { artistId, limit = 10, region: requestedRegion }: ArtistTopTracksRequest = await req.json();
+
+    if (!artistId) {
+      return new Response(
+        JSON.stringify({ error: "Artist ID is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const region = await resolveRegion(req, requestedRegion);
+    console.log(`🎵 Fetching Apple Music top songs for artist: ${artistId} (storefront: ${region.storefront})`);
+
+    const songs = await appleMusic.getArtistTopSongs(artistId, {
+      storefront: region.storefront,
+      limit: Math.min(Math.max(1, limit), 20),
+    });
+
+    const tracks = songs.map(songToTrackResponse);
+
+    console.log(`✅ Found ${tracks.length} top tracks`);
+
+    return new Response(JSON.stringify({ tracks }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof AppleMusicNotFoundError) {
+      return new Response(
+        JSON.stringify({ error: "Artist not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ error: error.message || "Internal server error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,348 @@
+// Supabase Edge Function for artist profiles
+// Takes a Spotify or Apple Music artist ID and merges both platforms' view of the
+// artist (images, genres, followers, top tracks, latest releases) with Phlock stats.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  spotify,
+  type SpotifyAlbumRef,
+  type SpotifyArtist,
+  type SpotifyImage,
+  type SpotifyTrack,
+} from "../_shared/spotify/index.ts";
+import {
+  appleMusic,
+  artworkImages,
+  songToTrackResponse,
+  type AppleMusicAlbum,
+  type AppleMusicArtist,
+  type AppleMusicSong,
+} from "../_shared/apple-music/index.ts";
+import { normalizeArtist, stringSimilarity } from "../_shared/matching.ts";
+import { isSpotifyTrackPlayable, resolveRegion, type Region } from "../_shared/region.ts";
+import { findCatalogTracksByISRC } from "../_shared/track-catalog.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+type MusicPlatform = "spotify" | "apple_music";
+
+interface ArtistProfileRequest {
+  artistId: string; // Raw ID, or the "spotify:{id}" / "apple:{id}" form stored on shares
+  platform?: MusicPlatform; // Inferred from the ID when omitted (Apple IDs are numeric)
+  region?: string;
+}
+
+interface Release {
+  id: string;
+  platform: MusicPlatform;
+  name: string;
+  type: "album" | "single" | "compilation";
+  releaseDate: string | null;
+  totalTracks: number | null;
+  images: SpotifyImage[];
+}
+
+const TOP_TRACKS_LIMIT = 10;
+const RELEASES_LIMIT = 5;
+// Both platforms list releases in their own order, so fetch a page and sort by date
+const RELEASES_FETCH_LIMIT = 25;
+// Artist names must be near-identical to link profiles; similar names are usually different artists
+const ARTIST_MATCH_THRESHOLD = 0.9;
+// Caps the rows read to count distinct curators
+const STATS_ROW_LIMIT = 1000;
+
+function parseArtistId(artistId: string, platform?: MusicPlatform): { id: string; platform: MusicPlatform } {
+  const [prefix, rest] = artistId.split(":", 2);
+  if (rest && prefix === "spotify") return { id: rest, platform: "spotify" };
+  if (rest && prefix === "apple") return { id: rest, platform: "apple_music" };
+  return { id: artistId, platform: platform ?? (/^\d+$/.test(artistId) ? "apple_music" : "spotify") };
+}
+
+function spotifyTrackResponse(track: SpotifyTrack) {
+  return {
+    id: track.id,
+    name: track.name,
+    artists: track.artists.map((artist) => ({ name: artist.name })),
+    album: {
+      name: track.album.name ?? null,
+      images: track.album.images,
+    },
+    preview_url: track.preview_url,
+    external_ids: track.external_ids,
+    popularity: track.popularity ?? null,
+    duration_ms: track.duration_ms ?? null,
+    is_playable: isSpotifyTrackPlayable(track),
+  };
+}
+
+function fromSpotifyAlbum(album: SpotifyAlbumRef): Release {
+  return {
+    id: album.id,
+    platform: "spotify",
+    name: album.name,
+    type: album.album_type ?? "album",
+    releaseDate: album.release_date ?? null,
+    totalTracks: album.total_tracks ?? null,
+    images: album.images,
+  };
+}
+
+function fromAppleMusicAlbum(album: AppleMusicAlbum): Release {
+  const { attributes } = album;
+  return {
+    id: album.id,
+    platform: "apple_music",
+    name: attributes.name,
+    type: attributes.isCompilation ? "compilation" : attributes.isSingle ? "single" : "album",
+    releaseDate: attributes.releaseDate ?? null,
+    totalTracks: attributes.trackCount ?? null,
+    images: artworkImages(attributes.artwork),
+  };
+}
+
+/** Newest first; Spotify dates can be year-only ("2019"), which still sorts correctly as a string */
+function latestReleases(releases: Release[]): Release[] {
+  return [...releases]
+    .sort((a, b) => (b.releaseDate ?? "").localeCompare(a.releaseDate ?? ""))
+    .slice(0, RELEASES_LIMIT);
+}
+
+/** Best name match among search results, or null when none is close enough */
+function bestArtistMatch<T>(name: string, candidates: T[], candidateName: (candidate: T) => string): T | null {
+  const target = normalizeArtist(name);
+  let best: { candidate: T; score: number } | null = null;
+
+  // Search results come back by relevance, so the first of equal scores wins
+  for (const candidate of candidates) {
+    const score = stringSimilarity(target, normalizeArtist(candidateName(candidate)));
+    if (score >= ARTIST_MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { candidate, score };
+    }
+  }
+
+  return best?.candidate ?? null;
+}
+
+/**
+ * Spotify artist for an Apple Music artist. The track catalog records the
+ * Spotify artist of ISRC-linked tracks, which beats a name search when present.
+ */
+async function findSpotifyArtist(
+  supabase: SupabaseClient,
+  name: string,
+  topSongs: AppleMusicSong[],
+  market: string
+): Promise<SpotifyArtist | null> {
+  const isrcs = topSongs.map((song) => song.attributes.isrc).filter((isrc): isrc is string => !!isrc);
+  const catalog = await findCatalogTracksByISRC(supabase, isrcs);
+
+  const votes = new Map<string, number>();
+  for (const row of catalog.values()) {
+    if (row.spotify_artist_id && normalizeArtist(row.artist_name) === normalizeArtist(name)) {
+      votes.set(row.spotify_artist_id, (votes.get(row.spotify_artist_id) ?? 0) + 1);
+    }
+  }
+
+  const [linkedId] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (linkedId) {
+    const artist = await spotify.getArtist(linkedId);
+    if (artist) return artist;
+  }
+
+  const results = await spotify.searchArtists(name, { limit: 5, market });
+  return bestArtistMatch(name, results.items, (artist) => artist.name);
+}
+
+async function findAppleMusicArtist(name: string, storefront: string): Promise<AppleMusicArtist | null> {
+  const results = await appleMusic.searchArtists(name, { limit: 5, storefront });
+  return bestArtistMatch(name, results, (artist) => artist.attributes.name);
+}
+
+/**
+ * How often Phlock users have picked this artist. shares.artist_id holds the raw
+ * Spotify ID (what the app writes today) or a "spotify:"/"apple:" prefixed ID.
+ */
+async function getPhlockStats(
+  supabase: SupabaseClient,
+  spotifyId: string | null,
+  appleMusicId: string | null
+) {
+  const artistIds = [
+    ...(spotifyId ? [spotifyId, `spotify:${spotifyId}`] : []),
+    ...(appleMusicId ? [appleMusicId, `apple:${appleMusicId}`] : []),
+  ];
+
+  const [dailySongs, allShares] = await Promise.all([
+    supabase
+      .from("shares")
+      .select("sender_id, selected_date", { count: "exact" })
+      .in("artist_id", artistIds)
+      .eq("is_daily_song", true)
+      .order("selected_date", { ascending: false, nullsFirst: false })
+      .limit(STATS_ROW_LIMIT),
+    supabase
+      .from("shares")
+      .select("id", { count: "exact", head: true })
+      .in("artist_id", artistIds),
+  ]);
+
+  if (dailySongs.error) throw dailySongs.error;
+  if (allShares.error) throw allShares.error;
+
+  const rows = (dailySongs.data ?? []) as Array<{ sender_id: string; selected_date: string | null }>;
+
+  return {
+    dailySongCount: dailySongs.count ?? rows.length,
+    shareCount: allShares.count ?? 0,
+    curatorCount: new Set(rows.map((row) => row.sender_id)).size,
+    lastFeaturedDate: rows[0]?.selected_date ?? null,
+  };
+}
+
+async function buildSpotifyProfile(artistId: string, region: Region) {
+  const artist = await spotify.getArtist(artistId);
+  if (!artist) return null;
+
+  const [topTracks, albums, appleArtist] = await Promise.all([
+    spotify.getArtistTopTracks(artist.id, region.market),
+    spotify.getArtistAlbums(artist.id, { limit: RELEASES_FETCH_LIMIT, market: region.market }),
+    findAppleMusicArtist(artist.name, region.storefront).catch((error) => {
+      console.error("⚠️ Apple Music artist lookup failed:", error);
+      return null;
+    }),
+  ]);
+
+  return {
+    artist: {
+      name: artist.name,
+      spotifyId: artist.id,
+      appleMusicId: appleArtist?.id ?? null,
+      images: artist.images?.length ? artist.images : artworkImages(appleArtist?.attributes.artwork),
+      genres: mergeGenres(artist.genres ?? [], appleArtist?.attributes.genreNames ?? []),
+      followers: artist.followers?.total ?? null,
+      popularity: artist.popularity ?? null,
+    },
+    topTracks: topTracks.slice(0, TOP_TRACKS_LIMIT).map(spotifyTrackResponse),
+    latestReleases: latestReleases(albums.items.map(fromSpotifyAlbum)),
+  };
+}
+
+async function buildAppleMusicProfile(supabase: SupabaseClient, artistId: string, region: Region) {
+  const artist = await appleMusic.getArtist(artistId, { storefront: region.storefront });
+  if (!artist) return null;
+
+  const [topSongs, albums] = await Promise.all([
+    appleMusic.getArtistTopSongs(artist.id, { limit: TOP_TRACKS_LIMIT, storefront: region.storefront }),
+    appleMusic.getArtistAlbums(artist.id, { limit: RELEASES_FETCH_LIMIT, storefront: region.storefront }),
+  ]);
+
+  const spotifyArtist = await findSpotifyArtist(supabase, artist.attributes.name, topSongs, region.market)
+    .catch((error) => {
+      console.error("⚠️ Spotify artist lookup failed:", error);
+      return null;
+    });
+
+  const appleImages = artworkImages(artist.attributes.artwork);
+
+  return {
+    artist: {
+      name: artist.attributes.name,
+      spotifyId: spotifyArtist?.id ?? null,
+      appleMusicId: artist.id,
+      images: appleImages.length ? appleImages : spotifyArtist?.images ?? [],
+      genres: mergeGenres(spotifyArtist?.genres ?? [], artist.attributes.genreNames ?? []),
+      // Apple Music doesn't publish follower counts or popularity
+      followers: spotifyArtist?.followers?.total ?? null,
+      popularity: spotifyArtist?.popularity ?? null,
+    },
+    topTracks: topSongs.map(songToTrackResponse),
+    latestReleases: latestReleases(albums.map(fromAppleMusicAlbum)),
+  };
+}
+
+/** Spotify genres are lower-case and Apple's title-case; keep the first spelling of each */
+function mergeGenres(...lists: string[][]): string[] {
+  const seen = new Set<string>();
+  const genres: string[] = [];
+  for (const genre of lists.flat()) {
+    // Apple tags everything with the catch-all "Music" genre
+    const key = genre.toLowerCase();
+    if (key === "music" || seen.has(key)) continue;
+    seen.add(key);
+    genres.push(genre);
+  }
+  return genres;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { artistId, platform: requestedPlatform, region: requestedRegion }: ArtistProfileRequest =
+      await req.json();
+
+    if (!artistId || typeof artistId !== "string") {
+      return new Response(
+        JSON.stringify({ error: "Artist ID is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { id, platform } = parseArtistId(artistId.trim(), requestedPlatform);
+    const region = await resolveRegion(req, requestedRegion);
+
+    console.log(`🎵 Fetching ${platform} artist profile: ${id} (region: ${region.market})`);
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const profile = platform === "spotify"
+      ? await buildSpotifyProfile(id, region)
+      : await buildAppleMusicProfile(supabase, id, region);
+
+    if (!profile) {
+      return new Response(
+        JSON.stringify({ error: "Artist not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const phlockStats = await getPhlockStats(supabase, profile.artist.spotifyId, profile.artist.appleMusicId);
+
+    console.log(
+      `✅ Built profile for ${profile.artist.name} (spotify: ${profile.artist.spotifyId ?? "none"}, apple: ${profile.artist.appleMusicId ?? "none"})`
+    );
+
+    return new Response(
+      JSON.stringify({ ...profile, platform, market: region.market, phlockStats }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in get-artist-profile:", error);
+    return new Response(
+      JSON.stringify({ error: error.message || "Internal server error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
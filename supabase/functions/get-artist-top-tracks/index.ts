@@ -1,7 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const SPOTIFY_CLIENT_ID = Deno.env.get("SPOTIFY_CLIENT_ID");
-const SPOTIFY_CLIENT_SECRET = Deno.env.get("SPOTIFY_CLIENT_SECRET");
+import { spotify, type SpotifyTrack } from "../_shared/spotify/index.ts";
+import { isSpotifyTrackPlayable, resolveRegion } from "../_shared/region.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,7 +10,8 @@ const corsHeaders = {
 
 interface ArtistTopTracksRequest {
   artistId: string;
-  market?: string;
+  market?: string; // Legacy name for region
+  region?: string;
 }
 
 serve(async (req) => {
@@ -21,7 +21,7 @@ serve(async (req) => {
   }
 
   try {
-    const { artistId, market = "US" }: ArtistTopTracksRequest = await req.json();
+    const { artistId, market, region: requestedRegion }: ArtistTopTracksRequest = await req.json();
 
     if (!artistId) {
       return new Response(
@@ -33,48 +33,17 @@ serve(async (req) => {
       );
     }
 
-    console.log(`🎵 Fetching top tracks for artist: ${artistId}`);
-
-    // Get Spotify access token using client credentials flow
-    const tokenResponse = await fetch(
-      "https://accounts.spotify.com/api/token",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Authorization: `Basic ${btoa(
-            `${SPOTIFY_CLIENT_ID}:${SPOTIFY_CLIENT_SECRET}`
-          )}`,
-        },
-        body: "grant_type=client_credentials",
-      }
-    );
-
-    if (!tokenResponse.ok) {
-      throw new Error("Failed to get Spotify access token");
-    }
-
-    const { access_token } = await tokenResponse.json();
+    const region = await resolveRegion(req, requestedRegion ?? market);
+    console.log(`🎵 Fetching top tracks for artist: ${artistId} (market: ${region.market})`);
 
     // Get artist's top tracks
-    const topTracksUrl = `https://api.spotify.com/v1/artists/${artistId}/top-tracks?market=${market}`;
-    const topTracksResponse = await fetch(topTracksUrl, {
-      headers: {
-        Authorization: `Bearer ${access_token}`,
-      },
-    });
-
-    if (!topTracksResponse.ok) {
-      throw new Error("Failed to fetch artist top tracks");
-    }
-
-    const topTracksData = await topTracksResponse.json();
+    const topTracks = await spotify.getArtistTopTracks(artistId, region.market);
 
     // Transform Spotify response to our format
-    const tracks = topTracksData.tracks.map((track: any) => ({
+    const tracks = topTracks.map((track: SpotifyTrack) => ({
       id: track.id,
       name: track.name,
-      artists: track.artists.map((artist: any) => ({
+      artists: track.artists.map((artist) => ({
         name: artist.name,
       })),
       album: {
@@ -82,6 +51,7 @@ serve(async (req) => {
       },
       preview_url: track.preview_url,
       external_ids: track.external_ids,
+      is_playable: isSpotifyTrackPlayable(track),
     }));
 
     console.log(`✅ Found ${tracks.length} top tracks`);
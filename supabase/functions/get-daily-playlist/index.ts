@@ -0,0 +1,122 @@
+// Supabase Edge Function that assembles the caller's daily playlist
+// One track per phlock member: their daily song for the date, resolved onto the
+// caller's platform with a preview URL, plus the members who haven't picked yet.
+// Pending scheduled swaps that are already due are reflected in the member list.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildDailyPlaylist } from "../_shared/daily-playlist.ts";
+import { resolveRegion } from "../_shared/region.ts";
+import { localDate } from "../_shared/timezone.ts";
+import type { MusicPlatform } from "../_shared/track-resolver.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface DailyPlaylistRequest {
+  date?: string; // Caller's local date (YYYY-MM-DD); daily songs are dated in local time
+  platform?: MusicPlatform; // Defaults to the caller's music_platform
+  region?: string;
+}
+
+function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      date: requestedDate,
+      platform: requestedPlatform,
+      region: requestedRegion,
+    }: DailyPlaylistRequest = await req.json().catch(() => ({}));
+
+    if (requestedDate !== undefined && !isValidDate(requestedDate)) {
+      return new Response(
+        JSON.stringify({ error: "date must be a YYYY-MM-DD date" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (requestedPlatform !== undefined && requestedPlatform !== "spotify" && requestedPlatform !== "apple_music") {
+      return new Response(
+        JSON.stringify({ error: "platform must be 'spotify' or 'apple_music'" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Missing authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Service role: reads pending swaps and writes resolved tracks to the catalog
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: profile, error: profileError } = await supabase
+      .from("users")
+      .select("id, music_platform, timezone")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (!profile) {
+      return new Response(
+        JSON.stringify({ error: "User profile not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const date = requestedDate ?? localDate(profile.timezone);
+    const platform: MusicPlatform = requestedPlatform ??
+      (profile.music_platform === "apple_music" ? "apple_music" : "spotify");
+    const region = await resolveRegion(req, requestedRegion);
+
+    console.log(`🎧 Building daily playlist for ${profile.id} on ${date} (${platform}, ${region.market})`);
+
+    const playlist = await buildDailyPlaylist(supabase, profile.id, date, platform, region, profile.timezone);
+
+    console.log(`✅ Daily playlist: ${playlist.tracks.length} tracks, waiting on ${playlist.waitingOn.length} members`);
+
+    return new Response(
+      JSON.stringify(playlist),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in get-daily-playlist:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
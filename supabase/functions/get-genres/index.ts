@@ -0,0 +1,56 @@
+// Supabase Edge Function listing browsable genres
+// Returns top-level genres in display order, each with its sub-genres, so the
+// Discover genre picker comes from the catalog rather than a hard-coded list.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { listGenres } from "../_shared/genre-catalog.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const genres = await listGenres(supabase);
+
+    // Sub-genres whose parent is inactive are left out with it
+    const tree = genres
+      .filter((genre) => genre.parent_key === null)
+      .map((genre) => ({
+        key: genre.key,
+        name: genre.name,
+        subgenres: genres
+          .filter((child) => child.parent_key === genre.key)
+          .map((child) => ({ key: child.key, name: child.name })),
+      }));
+
+    return new Response(
+      JSON.stringify({ genres: tree }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in get-genres:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
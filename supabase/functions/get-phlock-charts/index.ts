@@ -0,0 +1,170 @@
+// Supabase Edge Function for Phlock-native charts
+// Ranks the tracks and artists our community picks as daily songs over a day, week
+// or month, weighted by saves, plays, likes, sends and curator reach (see the
+// get_phlock_track_chart / get_phlock_artist_chart database functions).
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type ChartWindow = 'day' | 'week' | 'month';
+type ChartScope = 'global' | 'network';
+type ChartType = 'tracks' | 'artists' | 'all';
+
+interface PhlockChartsRequest {
+  window?: ChartWindow;
+  scope?: ChartScope; // 'network' = the caller, who they follow, and their phlock's phlocks
+  type?: ChartType;
+  limit?: number;
+  today?: string; // Caller's local date (YYYY-MM-DD); daily songs are dated in local time
+}
+
+// Days covered by each window, counting today
+const WINDOW_DAYS: Record<ChartWindow, number> = { day: 1, week: 7, month: 30 };
+const MAX_LIMIT = 100;
+
+function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      window = 'week',
+      scope = 'global',
+      type = 'all',
+      limit = 20,
+      today: requestedToday,
+    }: PhlockChartsRequest = await req.json().catch(() => ({}));
+
+    if (!(window in WINDOW_DAYS)) {
+      return new Response(
+        JSON.stringify({ error: "window must be 'day', 'week' or 'month'" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (scope !== 'global' && scope !== 'network') {
+      return new Response(
+        JSON.stringify({ error: "scope must be 'global' or 'network'" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (type !== 'tracks' && type !== 'artists' && type !== 'all') {
+      return new Response(
+        JSON.stringify({ error: "type must be 'tracks', 'artists' or 'all'" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (requestedToday !== undefined && !isValidDate(requestedToday)) {
+      return new Response(
+        JSON.stringify({ error: 'today must be a YYYY-MM-DD date' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Caller's JWT: the chart functions are only granted to signed-in users, and
+    // resolve the caller's network from it
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const until = requestedToday ?? new Date().toISOString().slice(0, 10);
+    const since = addDays(until, 1 - WINDOW_DAYS[window]);
+    const params = {
+      p_since: since,
+      p_until: until,
+      p_network_only: scope === 'network',
+      p_limit: Math.min(Math.max(1, limit), MAX_LIMIT),
+    };
+
+    console.log(`📊 Phlock charts: ${type}, ${window} (${since}..${until}), ${scope}`);
+
+    const [trackChart, artistChart] = await Promise.all([
+      type !== 'artists' ? supabase.rpc('get_phlock_track_chart', params) : null,
+      type !== 'tracks' ? supabase.rpc('get_phlock_artist_chart', params) : null,
+    ]);
+
+    if (trackChart?.error) throw trackChart.error;
+    if (artistChart?.error) throw artistChart.error;
+
+    const tracks = trackChart?.data?.map((row: Record<string, any>, index: number) => ({
+      rank: index + 1,
+      id: row.track_id,
+      name: row.track_name,
+      artistName: row.artist_name,
+      artistId: row.artist_id,
+      albumArtUrl: row.album_art_url,
+      previewUrl: row.preview_url,
+      isrc: row.isrc,
+      pickCount: row.pick_count,
+      curatorCount: row.curator_count,
+      playCount: row.play_count,
+      saveCount: row.save_count,
+      likeCount: row.like_count,
+      sendCount: row.send_count,
+      score: Number(row.score),
+    }));
+
+    const artists = artistChart?.data?.map((row: Record<string, any>, index: number) => ({
+      rank: index + 1,
+      id: row.artist_id,
+      name: row.artist_name,
+      imageUrl: row.album_art_url, // Art of the artist's top pick; shares don't store artist images
+      topTrackName: row.top_track_name,
+      pickCount: row.pick_count,
+      trackCount: row.track_count,
+      curatorCount: row.curator_count,
+      playCount: row.play_count,
+      saveCount: row.save_count,
+      likeCount: row.like_count,
+      sendCount: row.send_count,
+      score: Number(row.score),
+    }));
+
+    console.log(`✅ Phlock charts: ${tracks?.length ?? 0} tracks, ${artists?.length ?? 0} artists`);
+
+    return new Response(
+      JSON.stringify({ window, scope, since, until, tracks, artists }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in get-phlock-charts:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
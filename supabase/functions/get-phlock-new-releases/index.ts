@@ -0,0 +1,102 @@
+// Supabase Edge Function for the "new from artists your phlock loves" feed
+// Serves the caller's cached feed (see refresh-phlock-new-releases); a user without one
+// yet, e.g. right after building their phlock, gets it computed on the spot.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { refreshUserNewReleases } from "../_shared/new-releases.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Missing authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Service role: computing a missing feed reads phlock members' shares and writes the cache
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: profile, error: profileError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (!profile) {
+      return new Response(
+        JSON.stringify({ error: "User profile not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: cached, error: cachedError } = await supabase
+      .from("phlock_new_releases")
+      .select("releases, artist_count, window_days, computed_at")
+      .eq("user_id", profile.id)
+      .maybeSingle();
+
+    if (cachedError) throw cachedError;
+
+    if (cached) {
+      console.log(`🆕 Serving cached new releases for ${profile.id} (${cached.computed_at})`);
+      return new Response(
+        JSON.stringify({
+          releases: cached.releases,
+          artistCount: cached.artist_count,
+          days: cached.window_days,
+          computedAt: cached.computed_at,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`🆕 No cached new releases for ${profile.id}, computing now`);
+    const feed = await refreshUserNewReleases(supabase, profile.id);
+
+    return new Response(
+      JSON.stringify(feed),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in get-phlock-new-releases:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
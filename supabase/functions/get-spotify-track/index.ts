@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { spotify } from "../_shared/spotify/index.ts";
+import { isSpotifyTrackPlayable, resolveRegion } from "../_shared/region.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,7 +13,7 @@ serve(async (req) => {
   }
 
   try {
-    const { trackId } = await req.json();
+    const { trackId, region: requestedRegion } = await req.json();
 
     if (!trackId) {
       return new Response(
@@ -21,60 +22,23 @@ serve(async (req) => {
       );
     }
 
-    // Get Spotify client credentials
-    const clientId = Deno.env.get("SPOTIFY_CLIENT_ID");
-    const clientSecret = Deno.env.get("SPOTIFY_CLIENT_SECRET");
-
-    if (!clientId || !clientSecret) {
-      return new Response(
-        JSON.stringify({ error: "Spotify credentials not configured" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Get Spotify access token
-    const tokenResponse = await fetch("https://accounts.spotify.com/api/token", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
-      },
-      body: "grant_type=client_credentials",
-    });
-
-    if (!tokenResponse.ok) {
-      throw new Error("Failed to get Spotify access token");
-    }
-
-    const { access_token } = await tokenResponse.json();
+    const region = await resolveRegion(req, requestedRegion);
 
     // Get track details from Spotify
-    const trackResponse = await fetch(
-      `https://api.spotify.com/v1/tracks/${trackId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${access_token}`,
-        },
-      }
-    );
+    const track = await spotify.getTrack(trackId, region.market);
 
-    if (!trackResponse.ok) {
-      if (trackResponse.status === 404) {
-        return new Response(
-          JSON.stringify({ error: "Track not found" }),
-          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      throw new Error(`Spotify API error: ${trackResponse.status}`);
+    if (!track) {
+      return new Response(
+        JSON.stringify({ error: "Track not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    const track = await trackResponse.json();
-
     // Return formatted track data
     const formattedTrack = {
       id: track.id,
       name: track.name,
-      artists: track.artists.map((artist: any) => ({
+      artists: track.artists.map((artist) => ({
         id: artist.id,
         name: artist.name,
       })),
@@ -87,6 +51,8 @@ serve(async (req) => {
       external_ids: track.external_ids,
       popularity: track.popularity,
       duration_ms: track.duration_ms,
+      is_playable: isSpotifyTrackPlayable(track),
+      market: region.market,
     };
 
     return new Response(
@@ -0,0 +1,128 @@
+// Supabase Edge Function that scores the caller's taste compatibility with other users
+// For choosing phlock members: a 0-100 score per user from both users' share history,
+// with the signals behind it and a short explanation ("You both picked 4 Frank Ocean songs").
+// Private profiles are only scored when the caller follows them.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCompatibility } from "../_shared/taste-compatibility.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface CompatibilityRequest {
+  userId?: string;
+  userIds?: string[];
+}
+
+// Scoring a cold pair loads both share histories, so keep requests small
+const MAX_USERS = 25;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { userId, userIds }: CompatibilityRequest = await req.json().catch(() => ({}));
+    const requested = [...new Set([...(userId ? [userId] : []), ...(Array.isArray(userIds) ? userIds : [])])]
+      .filter((id) => typeof id === "string" && id.length > 0);
+
+    if (requested.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "userId or userIds is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (requested.length > MAX_USERS) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_USERS} users per request` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Missing authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Service role: reads both users' shares and saves, writes the score cache
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: profile, error: profileError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (!profile) {
+      return new Response(
+        JSON.stringify({ error: "User profile not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const [{ data: targets, error: targetsError }, { data: following, error: followingError }] = await Promise.all([
+      supabase
+        .from("users")
+        .select("id, is_private")
+        .in("id", requested),
+      supabase
+        .from("follows")
+        .select("following_id")
+        .eq("follower_id", profile.id)
+        .in("following_id", requested),
+    ]);
+
+    if (targetsError) throw targetsError;
+    if (followingError) throw followingError;
+
+    const followed = new Set(((following ?? []) as Array<{ following_id: string }>).map((row) => row.following_id));
+    const visible = ((targets ?? []) as Array<{ id: string; is_private: boolean | null }>)
+      .filter((target) => target.id !== profile.id && (!target.is_private || followed.has(target.id)))
+      .map((target) => target.id);
+
+    const scores = await getCompatibility(supabase, profile.id, visible);
+
+    console.log(`✅ Compatibility for ${profile.id}: ${scores.length}/${requested.length} users scored`);
+
+    return new Response(
+      JSON.stringify({ scores }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in get-taste-compatibility:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
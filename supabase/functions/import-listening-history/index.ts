@@ -0,0 +1,173 @@
+// Supabase Edge Function that imports the caller's listening history for onboarding
+// Reads top artists/tracks and recent plays from Spotify (via the stored platform
+// token) or recent plays and library songs from Apple Music (via a Music User Token
+// from the app), stores them as the user's taste profile, and suggests a first
+// daily song plus existing users whose daily songs overlap that taste.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createUserTokenProvider, getPlatformToken, hasScopes } from "../_shared/platform-tokens.ts";
+import { createSpotifyClient, SpotifyAuthError } from "../_shared/spotify/index.ts";
+import { AppleMusicAuthError } from "../_shared/apple-music/index.ts";
+import {
+  buildTasteProfile,
+  fetchAppleMusicHistory,
+  fetchSpotifyHistory,
+  findOverlappingUsers,
+  saveTasteProfile,
+  suggestFirstDailySong,
+} from "../_shared/taste-profile.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+type MusicPlatform = "spotify" | "apple_music";
+
+interface ImportRequest {
+  platform?: MusicPlatform; // Defaults to the caller's music_platform
+  musicUserToken?: string; // Required for Apple Music
+  limit?: number; // Suggested users to return
+}
+
+const SPOTIFY_HISTORY_SCOPES = ["user-top-read", "user-read-recently-played"];
+const DEFAULT_SUGGESTED_USERS = 10;
+const MAX_SUGGESTED_USERS = 30;
+// Enough of the profile for the onboarding summary; the full profile is stored
+const SUMMARY_SIZE = 10;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      platform: requestedPlatform,
+      musicUserToken,
+      limit = DEFAULT_SUGGESTED_USERS,
+    }: ImportRequest = await req.json().catch(() => ({}));
+
+    if (requestedPlatform !== undefined && requestedPlatform !== "spotify" && requestedPlatform !== "apple_music") {
+      return new Response(
+        JSON.stringify({ error: "platform must be 'spotify' or 'apple_music'" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Missing authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Service role: reads platform tokens and other users' daily songs, writes the profile
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: profile, error: profileError } = await supabase
+      .from("users")
+      .select("id, music_platform")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (!profile) {
+      return new Response(
+        JSON.stringify({ error: "User profile not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const platform: MusicPlatform = requestedPlatform ??
+      (profile.music_platform === "apple_music" ? "apple_music" : "spotify");
+
+    let history;
+    if (platform === "spotify") {
+      const token = await getPlatformToken(supabase, profile.id, "spotify");
+      if (!token || token.revoked_at || !hasScopes(token, SPOTIFY_HISTORY_SCOPES)) {
+        return new Response(
+          JSON.stringify({
+            error: "Reconnect Spotify to let Phlock read your listening history",
+            reauthorizationRequired: true,
+          }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      history = await fetchSpotifyHistory(createSpotifyClient(createUserTokenProvider(supabase, token)));
+    } else {
+      if (!musicUserToken) {
+        return new Response(
+          JSON.stringify({ error: "musicUserToken is required to import Apple Music history" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      history = await fetchAppleMusicHistory(musicUserToken);
+    }
+
+    const taste = buildTasteProfile(platform, history);
+    console.log(`🎼 Imported ${platform} history for ${profile.id}: ${taste.artists.length} artists, ${taste.tracks.length} tracks, ${taste.genres.length} genres`);
+
+    await saveTasteProfile(supabase, profile.id, taste);
+
+    const suggestedUsers = await findOverlappingUsers(
+      supabase,
+      profile.id,
+      taste,
+      Math.min(Math.max(1, limit), MAX_SUGGESTED_USERS)
+    );
+
+    console.log(`✅ Taste profile saved for ${profile.id}, ${suggestedUsers.length} overlapping users`);
+
+    return new Response(
+      JSON.stringify({
+        platform,
+        profile: {
+          artists: taste.artists.slice(0, SUMMARY_SIZE),
+          genres: taste.genres.slice(0, SUMMARY_SIZE),
+          trackCount: taste.tracks.length,
+          importedAt: taste.importedAt,
+        },
+        suggestedDailySong: suggestFirstDailySong(taste),
+        suggestedUsers,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in import-listening-history:", error);
+    if (error instanceof SpotifyAuthError || error instanceof AppleMusicAuthError) {
+      return new Response(
+        JSON.stringify({ error: error.message, reauthorizationRequired: true }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
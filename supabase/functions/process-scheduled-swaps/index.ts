@@ -1,38 +1,142 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+// Supabase Edge Function that applies scheduled phlock swaps and removals
+// Meant to run on a schedule (e.g. every 15 minutes via cron) with the CRON_SECRET
+// in the x-cron-secret header. Swaps are due at each user's local midnight, so due
+// swaps are processed one timezone at a time. Returns an outcome per swap; with
+// { dryRun: true } it reports what would happen without applying anything.
+// Each completed swap gets a notification row (written by process_scheduled_swaps)
+// and a push.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { mapWithConcurrency } from "../_shared/concurrency.ts";
+import { isCronRequest } from "../_shared/cron.ts";
+import { sendPush } from "../_shared/push.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-secret",
+};
+
+interface SwapOutcome {
+  swap_id: string;
+  user_id: string;
+  old_member_id: string;
+  new_member_id: string | null;
+  status: "completed" | "failed";
+  error_message: string | null;
+  message: string | null;
+  notification_id: string | null;
+}
+
+interface TimezoneBatch {
+  timezone: string;
+  due: number;
+  completed: number;
+  failed: number;
+  error?: string;
+}
+
+const PUSH_CONCURRENCY = 5;
 
 serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
   try {
-    // Create a Supabase client with the Auth context of the logged in user
-    const supabaseClient = createClient(
-      // Supabase API URL - env var automatically populated by Supabase
-      Deno.env.get('SUPABASE_URL') ?? '',
-      // Supabase API ANON KEY - env var automatically populated by Supabase
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      // Create client with Auth context of the user that called the function
-      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
-    )
-
-    // Or use SERVICE_ROLE_KEY if this is a cron job that needs admin privileges
-    // For cron jobs, we usually use the service role key because there is no user context
-    const supabaseAdmin = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
-    // Call the database function
-    const { data, error } = await supabaseAdmin.rpc('process_scheduled_swaps')
-
-    if (error) throw error
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body.dryRun === true;
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: due, error: dueError } = await supabase.rpc("due_scheduled_swap_timezones");
+    if (dueError) throw dueError;
+
+    const batches: TimezoneBatch[] = [];
+    const swaps: SwapOutcome[] = [];
+    for (const { timezone, due_count } of (due ?? []) as Array<{ timezone: string; due_count: number }>) {
+      const { data, error } = await supabase.rpc("process_scheduled_swaps", {
+        p_timezones: [timezone],
+        p_dry_run: dryRun,
+      });
+
+      if (error) {
+        console.error(`❌ Failed to process swaps for ${timezone}:`, error);
+        batches.push({ timezone, due: due_count, completed: 0, failed: 0, error: error.message });
+        continue;
+      }
+
+      const outcomes = (data ?? []) as SwapOutcome[];
+      const completed = outcomes.filter((outcome) => outcome.status === "completed").length;
+      console.log(`🔁 ${timezone}: ${completed}/${outcomes.length} swaps ${dryRun ? "would complete" : "completed"}`);
+      for (const outcome of outcomes.filter((outcome) => outcome.status === "failed")) {
+        console.warn(`⚠️ Swap ${outcome.swap_id} failed: ${outcome.error_message}`);
+      }
+
+      batches.push({ timezone, due: due_count, completed, failed: outcomes.length - completed });
+      swaps.push(...outcomes);
+    }
+
+    // The notification rows are already written; a failed push only loses the banner
+    let pushed = 0;
+    if (!dryRun) {
+      const completed = swaps.filter((swap) => swap.status === "completed" && swap.message);
+      const sent = await mapWithConcurrency(completed, PUSH_CONCURRENCY, async (swap) => {
+        try {
+          await sendPush(supabase, {
+            userId: swap.user_id,
+            title: "Phlock updated",
+            body: swap.message!,
+            type: "phlock_swap_completed",
+            data: {
+              notification_id: swap.notification_id,
+              actor_id: swap.new_member_id ?? swap.old_member_id,
+            },
+          });
+          return true;
+        } catch (error) {
+          console.error(`❌ Failed to push swap ${swap.swap_id} to ${swap.user_id}:`, error);
+          return false;
+        }
+      });
+      pushed = sent.filter(Boolean).length;
+    }
+
+    const processedCount = swaps.filter((swap) => swap.status === "completed").length;
+    console.log(`✅ ${dryRun ? "Dry run: " : ""}${processedCount}/${swaps.length} swaps completed, ${pushed} pushes sent`);
 
     return new Response(
-      JSON.stringify({ success: true, processed_count: data }),
-      { headers: { "Content-Type": "application/json" } },
-    )
+      JSON.stringify({
+        success: true,
+        dryRun,
+        processed_count: processedCount,
+        failed_count: swaps.length - processedCount,
+        pushed,
+        batches,
+        swaps,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
   } catch (error) {
+    console.error("Error in process-scheduled-swaps:", error);
     return new Response(
       JSON.stringify({ success: false, error: error.message }),
-      { status: 500, headers: { "Content-Type": "application/json" } },
-    )
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
   }
-})
+});
@@ -0,0 +1,93 @@
+// Supabase Edge Function that suggests curators for the caller's phlock
+// Ranks people from the follow graph, phone contacts and shared artists by those
+// signals plus taste compatibility, how reliably they pick a daily song and how many
+// phlocks they're already in. Each suggestion comes with the reasons behind it.
+// Current phlock members and private profiles the caller doesn't follow are skipped.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { recommendPhlockMembers } from "../_shared/phlock-recommendations.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 30;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { limit = DEFAULT_LIMIT } = await req.json().catch(() => ({}));
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Missing authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Service role: walks other users' follows, contacts and shares
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: profile, error: profileError } = await supabase
+      .from("users")
+      .select("id, phone_hash")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (!profile) {
+      return new Response(
+        JSON.stringify({ error: "User profile not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const recommendations = await recommendPhlockMembers(
+      supabase,
+      { id: profile.id, authUserId: user.id, phoneHash: profile.phone_hash ?? null },
+      Math.min(Math.max(1, Number(limit) || DEFAULT_LIMIT), MAX_LIMIT)
+    );
+
+    console.log(`✅ ${recommendations.length} phlock suggestions for ${profile.id}`);
+
+    return new Response(
+      JSON.stringify({ recommendations }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in recommend-phlock-members:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,129 @@
+// Supabase Edge Function that refreshes the genre catalog
+// Meant to run on a schedule (e.g. hourly via cron) with the CRON_SECRET
+// in the x-cron-secret header.
+// Each run refreshes the stalest (genre, region) pairs, so every genre in every
+// region our users are in cycles through without one run doing them all. A failed
+// refresh counts as an attempt, so pairs that keep failing don't hold up the rest.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isCronRequest } from "../_shared/cron.ts";
+import { listGenres, refreshGenre } from "../_shared/genre-catalog.ts";
+import { listUserRegions, normalizeRegion } from "../_shared/region.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-secret",
+};
+
+// Each pair costs several Spotify searches; keep a run well inside the function timeout
+const DEFAULT_BATCH = 10;
+const MAX_BATCH = 40;
+const MAX_REGIONS = 25;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const { limit = DEFAULT_BATCH, regions: requestedRegions } = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const regions = Array.isArray(requestedRegions)
+      ? [...new Set(requestedRegions.map(normalizeRegion).filter((code): code is string => code !== null))]
+        .slice(0, MAX_REGIONS)
+      : await listUserRegions(supabase, MAX_REGIONS);
+
+    const genres = await listGenres(supabase);
+
+    const [{ data: refreshes, error: refreshesError }, { data: failures, error: failuresError }] = await Promise.all([
+      supabase
+        .from("genre_catalog_refreshes")
+        .select("genre_key, market, refreshed_at")
+        .in("market", regions),
+      supabase
+        .from("genre_catalog_refresh_failures")
+        .select("genre_key, market, failed_at")
+        .in("market", regions),
+    ]);
+
+    if (refreshesError) throw refreshesError;
+    if (failuresError) throw failuresError;
+
+    // Last attempt per pair, successful or not
+    const lastAttempted = new Map<string, number>();
+    for (const row of (refreshes ?? []) as Array<{ genre_key: string; market: string; refreshed_at: string }>) {
+      lastAttempted.set(`${row.genre_key}:${row.market}`, Date.parse(row.refreshed_at));
+    }
+    for (const row of (failures ?? []) as Array<{ genre_key: string; market: string; failed_at: string }>) {
+      const key = `${row.genre_key}:${row.market}`;
+      lastAttempted.set(key, Math.max(lastAttempted.get(key) ?? 0, Date.parse(row.failed_at)));
+    }
+
+    // Never-attempted pairs first, then oldest
+    const batch = genres
+      .flatMap((genre) => regions.map((market) => ({
+        genre,
+        market,
+        attemptedAt: lastAttempted.get(`${genre.key}:${market}`) ?? 0,
+      })))
+      .sort((a, b) => a.attemptedAt - b.attemptedAt)
+      .slice(0, Math.min(Math.max(1, limit), MAX_BATCH));
+
+    console.log(`🎼 Refreshing ${batch.length} genre catalogs across ${regions.length} regions`);
+
+    const results: Array<{ genre: string; market: string; artists?: number; tracks?: number; error?: string }> = [];
+    for (const { genre, market } of batch) {
+      try {
+        const { artistCount, trackCount } = await refreshGenre(supabase, genre, market);
+        results.push({ genre: genre.key, market, artists: artistCount, tracks: trackCount });
+      } catch (error) {
+        console.error(`❌ Failed to refresh ${genre.key} (${market}):`, error);
+        results.push({ genre: genre.key, market, error: error.message });
+
+        const { error: failureError } = await supabase
+          .from("genre_catalog_refresh_failures")
+          .upsert(
+            { genre_key: genre.key, market, failed_at: new Date().toISOString(), error: error.message },
+            { onConflict: "genre_key,market" }
+          );
+        if (failureError) {
+          console.error(`Failed to record refresh failure for ${genre.key} (${market}):`, failureError);
+        }
+      }
+    }
+
+    const refreshed = results.filter((result) => !result.error).length;
+    console.log(`✅ Refreshed ${refreshed}/${batch.length} genre catalogs`);
+
+    return new Response(
+      JSON.stringify({ success: true, refreshed, results }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in refresh-genre-catalog:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
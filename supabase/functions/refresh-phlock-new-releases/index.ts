@@ -0,0 +1,99 @@
+// Supabase Edge Function that refreshes cached "new from your phlock's artists" feeds
+// Meant to run on a schedule (e.g. every few hours via cron) with the CRON_SECRET
+// in the x-cron-secret header.
+// Each run recomputes the stalest feeds among users who have a phlock; a failed
+// refresh counts as an attempt, so feeds that keep failing don't hold up the rest.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isCronRequest } from "../_shared/cron.ts";
+import {
+  DEFAULT_WINDOW_DAYS,
+  refreshUserNewReleases,
+  type ArtistReleaseCache,
+} from "../_shared/new-releases.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-secret",
+};
+
+// Users per run; artist lookups are shared across them, so overlapping phlocks are cheap
+const DEFAULT_BATCH = 25;
+const MAX_BATCH = 100;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const { limit = DEFAULT_BATCH, days = DEFAULT_WINDOW_DAYS } = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // Users with a phlock, stalest feed first; feeds that failed go by when they failed
+    const { data: due, error: dueError } = await supabase.rpc("due_phlock_new_release_users", {
+      p_limit: Math.min(Math.max(1, limit), MAX_BATCH),
+    });
+
+    if (dueError) throw dueError;
+
+    const batch = ((due ?? []) as Array<{ user_id: string }>).map((row) => row.user_id);
+
+    console.log(`🆕 Refreshing new-release feeds for ${batch.length} users`);
+
+    const cache: ArtistReleaseCache = new Map();
+    const results: Array<{ userId: string; releases?: number; error?: string }> = [];
+    for (const userId of batch) {
+      try {
+        const feed = await refreshUserNewReleases(supabase, userId, { days, cache });
+        results.push({ userId, releases: feed.releases.length });
+      } catch (error) {
+        console.error(`❌ Failed to refresh new releases for ${userId}:`, error);
+        results.push({ userId, error: error.message });
+
+        const { error: failureError } = await supabase
+          .from("phlock_new_release_failures")
+          .upsert(
+            { user_id: userId, failed_at: new Date().toISOString(), error: error.message },
+            { onConflict: "user_id" }
+          );
+        if (failureError) {
+          console.error(`Failed to record new-release failure for ${userId}:`, failureError);
+        }
+      }
+    }
+
+    const refreshed = results.filter((result) => !result.error).length;
+    console.log(`✅ Refreshed ${refreshed}/${batch.length} feeds (${cache.size} artist lookups)`);
+
+    return new Response(
+      JSON.stringify({ success: true, refreshed, results }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in refresh-phlock-new-releases:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,122 @@
+// Supabase Edge Function that keeps users' platform tokens fresh
+// Meant to run on a schedule (e.g. every 10 minutes via cron) with the CRON_SECRET
+// in the x-cron-secret header. Refreshes Spotify tokens that expire within the window,
+// and marks tokens that can't be refreshed (rejected refresh token, expired Apple Music
+// token) revoked so the app prompts the user to reconnect. A Spotify token that failed
+// to refresh is skipped until its backoff (refresh_retry_at) has passed.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isCronRequest } from "../_shared/cron.ts";
+import {
+  markTokenRevoked,
+  refreshSpotifyToken,
+  TOKEN_COLUMNS,
+  type PlatformToken,
+} from "../_shared/platform-tokens.ts";
+import { SpotifyAuthError } from "../_shared/spotify/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-secret",
+};
+
+// Refresh tokens expiring within this many minutes; should exceed the cron interval
+const DEFAULT_WINDOW_MINUTES = 20;
+const DEFAULT_BATCH = 50;
+const MAX_BATCH = 200;
+
+type SweepOutcome = "refreshed" | "revoked" | "failed";
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const {
+      limit = DEFAULT_BATCH,
+      windowMinutes = DEFAULT_WINDOW_MINUTES,
+    } = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const now = new Date().toISOString();
+    const horizon = new Date(Date.now() + Math.max(1, windowMinutes) * 60 * 1000).toISOString();
+
+    // Live tokens, soonest-to-expire first: Spotify tokens expiring within the window
+    // and not backing off, Apple Music tokens once they have expired
+    const { data, error } = await supabase
+      .from("platform_tokens")
+      .select(TOKEN_COLUMNS)
+      .is("revoked_at", null)
+      .or(
+        `and(platform_type.eq.spotify,token_expires_at.lte.${horizon},or(refresh_retry_at.is.null,refresh_retry_at.lte.${now})),` +
+          `and(platform_type.eq.apple_music,token_expires_at.lte.${now})`
+      )
+      .order("token_expires_at", { ascending: true })
+      .limit(Math.min(Math.max(1, limit), MAX_BATCH));
+
+    if (error) throw error;
+
+    const tokens = (data ?? []) as PlatformToken[];
+    console.log(`🔑 Sweeping ${tokens.length} platform tokens expiring before ${horizon}`);
+
+    const results: Array<{ userId: string; platform: string; outcome: SweepOutcome; error?: string }> = [];
+    for (const token of tokens) {
+      try {
+        if (token.platform_type === "apple_music") {
+          // MusicKit issues these on the device; once expired only a reconnect helps
+          await markTokenRevoked(supabase, token, "Apple Music user token expired");
+          results.push({ userId: token.user_id, platform: token.platform_type, outcome: "revoked" });
+          continue;
+        }
+
+        await refreshSpotifyToken(supabase, token);
+        results.push({ userId: token.user_id, platform: token.platform_type, outcome: "refreshed" });
+      } catch (error) {
+        // refreshSpotifyToken has already marked the row when the grant was rejected
+        const outcome: SweepOutcome = error instanceof SpotifyAuthError ? "revoked" : "failed";
+        if (outcome === "failed") {
+          console.error(`❌ Failed to refresh ${token.platform_type} token for ${token.user_id}:`, error);
+        }
+        results.push({ userId: token.user_id, platform: token.platform_type, outcome, error: error.message });
+      }
+    }
+
+    const count = (outcome: SweepOutcome) => results.filter((result) => result.outcome === outcome).length;
+    const refreshed = count("refreshed");
+    const revoked = count("revoked");
+    const failed = count("failed");
+
+    console.log(`✅ Token sweep: ${refreshed} refreshed, ${revoked} revoked, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, refreshed, revoked, failed, results }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in refresh-platform-tokens:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
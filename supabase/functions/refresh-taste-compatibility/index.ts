@@ -0,0 +1,98 @@
+// Supabase Edge Function that recomputes stale taste-compatibility scores
+// Meant to run on a schedule (e.g. hourly via cron) with the CRON_SECRET
+// in the x-cron-secret header.
+// New shares and saves mark the affected pairs stale; each run recomputes the
+// longest-stale pairs so reads rarely have to. Pairs whose recompute failed go after
+// the rest, oldest failure first.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isCronRequest } from "../_shared/cron.ts";
+import { recomputePair, type ShareHistoryCache } from "../_shared/taste-compatibility.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-secret",
+};
+
+// Pairs per run; share histories are reused across pairs with a user in common
+const DEFAULT_BATCH = 100;
+const MAX_BATCH = 500;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const { limit = DEFAULT_BATCH } = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: stale, error } = await supabase
+      .from("taste_compatibility")
+      .select("user_a, user_b")
+      .eq("stale", true)
+      .order("failed_at", { ascending: true, nullsFirst: true })
+      .order("computed_at", { ascending: true })
+      .limit(Math.min(Math.max(1, limit), MAX_BATCH));
+
+    if (error) throw error;
+
+    const pairs = (stale ?? []) as Array<{ user_a: string; user_b: string }>;
+    console.log(`🤝 Recomputing ${pairs.length} stale compatibility scores`);
+
+    const cache: ShareHistoryCache = new Map();
+    const results: Array<{ userA: string; userB: string; score?: number; error?: string }> = [];
+    for (const pair of pairs) {
+      try {
+        const row = await recomputePair(supabase, pair.user_a, pair.user_b, cache);
+        results.push({ userA: pair.user_a, userB: pair.user_b, score: row.score });
+      } catch (error) {
+        console.error(`❌ Failed to recompute compatibility for ${pair.user_a}/${pair.user_b}:`, error);
+        results.push({ userA: pair.user_a, userB: pair.user_b, error: error.message });
+
+        // Send it to the back of the queue so failing pairs don't take every run's batch
+        const { error: failureError } = await supabase
+          .from("taste_compatibility")
+          .update({ failed_at: new Date().toISOString() })
+          .eq("user_a", pair.user_a)
+          .eq("user_b", pair.user_b);
+        if (failureError) {
+          console.error(`Failed to record compatibility failure for ${pair.user_a}/${pair.user_b}:`, failureError);
+        }
+      }
+    }
+
+    const refreshed = results.filter((result) => !result.error).length;
+    console.log(`✅ Recomputed ${refreshed}/${pairs.length} scores (${cache.size} share histories loaded)`);
+
+    return new Response(
+      JSON.stringify({ success: true, refreshed, results }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in refresh-taste-compatibility:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -2,26 +2,14 @@
 // Uses the Apple Music Catalog API with developer token for reliable results
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { appleMusic } from "../_shared/apple-music/index.ts"
+import { resolveRegion } from "../_shared/region.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface AppleMusicSearchResponse {
-  results: {
-    artists?: {
-      data: Array<{
-        id: string
-        attributes: {
-          name: string
-          url?: string
-        }
-      }>
-    }
-  }
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -29,8 +17,8 @@ serve(async (req) => {
   }
 
   try {
-    // Get artist name from request
-    const { artistName } = await req.json()
+    // Get artist name (and optional region) from request
+    const { artistName, region: requestedRegion } = await req.json()
 
     if (!artistName) {
       return new Response(
@@ -42,60 +30,11 @@ serve(async (req) => {
       )
     }
 
-    console.log(`🔍 Searching Apple Music for artist: ${artistName}`)
-
-    // Get Apple Music developer token from environment
-    const developerToken = Deno.env.get('APPLE_MUSIC_DEVELOPER_TOKEN')
-
-    if (!developerToken) {
-      console.error('❌ Apple Music developer token not configured')
-      return new Response(
-        JSON.stringify({ error: 'Apple Music developer token not configured' }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      )
-    }
+    const region = await resolveRegion(req, requestedRegion)
+    console.log(`🔍 Searching Apple Music (${region.storefront}) for artist: ${artistName}`)
 
     // Search Apple Music Catalog API for artists
-    const searchQuery = encodeURIComponent(artistName)
-    const searchResponse = await fetch(
-      `https://api.music.apple.com/v1/catalog/us/search?term=${searchQuery}&types=artists&limit=5`,
-      {
-        headers: {
-          'Authorization': `Bearer ${developerToken}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    )
-
-    if (!searchResponse.ok) {
-      const errorText = await searchResponse.text()
-      console.error(`❌ Apple Music API error: ${searchResponse.status} - ${errorText}`)
-
-      // If token is expired or invalid, return specific error
-      if (searchResponse.status === 401 || searchResponse.status === 403) {
-        return new Response(
-          JSON.stringify({ error: 'Apple Music developer token may be expired' }),
-          {
-            status: 500,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          }
-        )
-      }
-
-      return new Response(
-        JSON.stringify({ error: 'Apple Music search failed' }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      )
-    }
-
-    const searchData: AppleMusicSearchResponse = await searchResponse.json()
-    const artists = searchData.results?.artists?.data || []
+    const artists = await appleMusic.searchArtists(artistName, { limit: 5, storefront: region.storefront })
 
     if (artists.length > 0) {
       const firstArtist = artists[0]
@@ -0,0 +1,83 @@
+// Supabase Edge Function to search the Apple Music catalog for tracks
+// Same request/response shape as search-spotify-tracks so the app can switch on platform
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { appleMusic, songToTrackResponse } from "../_shared/apple-music/index.ts";
+import { resolveRegion } from "../_shared/region.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface TrackSearchRequest {
+  query: string;
+  limit?: number;
+  region?: string; // ISO country code; defaults to the user's profile region
+}
+
+// Apple Music search pages max out at 25 results
+const MAX_LIMIT = 25;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    let requestBody: TrackSearchRequest;
+
+    try {
+      requestBody = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "Invalid JSON in request body" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { query, limit = 20, region: requestedRegion } = requestBody;
+
+    if (!query || typeof query !== "string" || query.trim().length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Query parameter is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const region = await resolveRegion(req, requestedRegion);
+
+    // Search the catalog (developer token, retries and error mapping live in the shared client)
+    const songs = await appleMusic.searchSongs(query.trim(), {
+      limit: Math.min(Math.max(1, limit), MAX_LIMIT),
+      storefront: region.storefront,
+    });
+
+    const tracks = songs.map(songToTrackResponse);
+
+    return new Response(JSON.stringify({ tracks, market: region.market }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error:", error);
+
+    // Provide user-friendly error messages
+    const message = error.message || "Something went wrong. Please try again.";
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -2,89 +2,14 @@
 // This keeps the Spotify client secret secure on the server side
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-
-const SPOTIFY_CLIENT_ID = Deno.env.get('SPOTIFY_CLIENT_ID')
-const SPOTIFY_CLIENT_SECRET = Deno.env.get('SPOTIFY_CLIENT_SECRET')
+import { spotify, type SpotifyArtist } from "../_shared/spotify/index.ts"
+import { resolveRegion } from "../_shared/region.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Helper to fetch with retry logic
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  maxRetries = 2
-): Promise<Response> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      const response = await fetch(url, options);
-
-      // If rate limited, wait and retry
-      if (response.status === 429) {
-        const retryAfter = parseInt(response.headers.get("Retry-After") || "1");
-        console.log(`Rate limited, waiting ${retryAfter}s before retry...`);
-        await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
-        continue;
-      }
-
-      return response;
-    } catch (error) {
-      lastError = error;
-      console.error(`Fetch attempt ${attempt + 1} failed:`, error);
-
-      if (attempt < maxRetries) {
-        await new Promise(resolve => setTimeout(resolve, 500 * (attempt + 1)));
-      }
-    }
-  }
-
-  throw lastError || new Error("All fetch attempts failed");
-}
-
-// Cache for Spotify access token
-let cachedToken: { token: string; expiresAt: number } | null = null;
-
-async function getSpotifyToken(): Promise<string> {
-  if (cachedToken && Date.now() < cachedToken.expiresAt - 60000) {
-    return cachedToken.token;
-  }
-
-  if (!SPOTIFY_CLIENT_ID || !SPOTIFY_CLIENT_SECRET) {
-    throw new Error("Spotify credentials not configured");
-  }
-
-  const tokenResponse = await fetchWithRetry(
-    'https://accounts.spotify.com/api/token',
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Authorization': 'Basic ' + btoa(`${SPOTIFY_CLIENT_ID}:${SPOTIFY_CLIENT_SECRET}`)
-      },
-      body: 'grant_type=client_credentials'
-    }
-  );
-
-  if (!tokenResponse.ok) {
-    const errorText = await tokenResponse.text();
-    console.error("Token error response:", errorText);
-    throw new Error(`Spotify authentication failed (${tokenResponse.status})`);
-  }
-
-  const { access_token, expires_in } = await tokenResponse.json();
-
-  cachedToken = {
-    token: access_token,
-    expiresAt: Date.now() + (expires_in * 1000),
-  };
-
-  return access_token;
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -92,7 +17,7 @@ serve(async (req) => {
   }
 
   try {
-    let requestBody: { artistName?: string };
+    let requestBody: { artistName?: string; region?: string };
 
     try {
       requestBody = await req.json();
@@ -106,7 +31,7 @@ serve(async (req) => {
       );
     }
 
-    const { artistName } = requestBody;
+    const { artistName, region: requestedRegion } = requestBody;
 
     if (!artistName || typeof artistName !== "string" || artistName.trim().length === 0) {
       return new Response(
@@ -120,51 +45,13 @@ serve(async (req) => {
 
     console.log(`🔍 Searching for artist: ${artistName}`)
 
-    // Get Spotify access token (with caching and retry)
-    const access_token = await getSpotifyToken();
-
-    // Search for artist with retry
-    const searchQuery = encodeURIComponent(artistName.trim())
-    const searchResponse = await fetchWithRetry(
-      `https://api.spotify.com/v1/search?q=${searchQuery}&type=artist&limit=20&market=US`,
-      {
-        headers: {
-          'Authorization': `Bearer ${access_token}`
-        }
-      }
-    )
-
-    if (!searchResponse.ok) {
-      const errorText = await searchResponse.text();
-      console.error("Search error response:", errorText);
-
-      if (searchResponse.status === 401) {
-        cachedToken = null;
-        throw new Error("Spotify session expired. Please try again.");
-      } else if (searchResponse.status === 429) {
-        throw new Error("Too many requests. Please wait a moment and try again.");
-      } else if (searchResponse.status >= 500) {
-        throw new Error("Spotify is temporarily unavailable. Please try again.");
-      }
-
-      throw new Error(`Search failed (${searchResponse.status})`);
-    }
-
-    const searchData = await searchResponse.json();
+    const region = await resolveRegion(req, requestedRegion)
 
-    // Handle case where artists might be undefined
-    if (!searchData.artists?.items) {
-      return new Response(
-        JSON.stringify({ artists: [], spotifyId: null }),
-        {
-          status: 200,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
-    }
+    // Search for artist (token caching, retries and error mapping live in the shared client)
+    const searchResults = await spotify.searchArtists(artistName.trim(), { limit: 20, market: region.market })
 
     // Return all artists (for search UI) or first artist only (for legacy compatibility)
-    const artists = searchData.artists.items.map((artist: any) => ({
+    const artists = searchResults.items.map((artist: SpotifyArtist) => ({
       id: artist.id,
       name: artist.name,
       images: artist.images || [],
@@ -0,0 +1,266 @@
+// Supabase Edge Function for cross-platform track search
+// Searches the catalog of the user's music platform, then links each result to
+// the other platform by ISRC so shares work for Spotify and Apple Music users alike.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { spotify, type SpotifyTrack } from "../_shared/spotify/index.ts";
+import { appleMusic, artworkUrl, type AppleMusicSong } from "../_shared/apple-music/index.ts";
+import { isAppleMusicSongPlayable, isSpotifyTrackPlayable, resolveRegion } from "../_shared/region.ts";
+import { findCatalogTracksByISRC, normalizeISRC } from "../_shared/track-catalog.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+type MusicPlatform = "spotify" | "apple_music";
+
+interface TrackSearchRequest {
+  query: string;
+  music_platform?: MusicPlatform;
+  limit?: number;
+  offset?: number;
+  cursor?: string; // Opaque cursor from a previous response; takes precedence over offset
+  region?: string;
+}
+
+interface UnifiedTrack {
+  id: string; // ID on the searched platform
+  platform: MusicPlatform;
+  name: string;
+  artistName: string;
+  artists: string[];
+  albumName: string | null;
+  albumArtUrl: string | null;
+  durationMs: number | null;
+  isrc: string | null;
+  previewUrl: string | null;
+  spotifyId: string | null;
+  appleMusicId: string | null;
+  popularity: number | null; // Spotify only
+  isPlayable: boolean;
+}
+
+// Apple Music caps search pages at 25, so both platforms page by the same size
+const MAX_LIMIT = 25;
+
+function encodeCursor(offset: number): string {
+  return btoa(JSON.stringify({ offset }));
+}
+
+function decodeCursor(cursor: string): number | null {
+  try {
+    const { offset } = JSON.parse(atob(cursor));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+}
+
+function fromSpotify(track: SpotifyTrack): UnifiedTrack {
+  return {
+    id: track.id,
+    platform: "spotify",
+    name: track.name,
+    artistName: track.artists[0]?.name ?? "Unknown Artist",
+    artists: track.artists.map((artist) => artist.name),
+    albumName: track.album.name ?? null,
+    albumArtUrl: track.album.images[0]?.url ?? null,
+    durationMs: track.duration_ms ?? null,
+    isrc: track.external_ids?.isrc ? normalizeISRC(track.external_ids.isrc) : null,
+    previewUrl: track.preview_url,
+    spotifyId: track.id,
+    appleMusicId: null,
+    popularity: track.popularity ?? null,
+    isPlayable: isSpotifyTrackPlayable(track),
+  };
+}
+
+function fromAppleMusic(song: AppleMusicSong): UnifiedTrack {
+  const { attributes } = song;
+  return {
+    id: song.id,
+    platform: "apple_music",
+    name: attributes.name,
+    artistName: attributes.artistName,
+    artists: [attributes.artistName],
+    albumName: attributes.albumName ?? null,
+    albumArtUrl: artworkUrl(attributes.artwork, 640),
+    durationMs: attributes.durationInMillis ?? null,
+    isrc: attributes.isrc ? normalizeISRC(attributes.isrc) : null,
+    previewUrl: attributes.previews?.[0]?.url ?? null,
+    spotifyId: null,
+    appleMusicId: song.id,
+    popularity: null,
+    isPlayable: isAppleMusicSongPlayable(song),
+  };
+}
+
+/**
+ * Search one platform's catalog. The native search fails the request; the
+ * cross-platform lookup passes `optional` so an outage there only loses the links.
+ */
+async function searchPlatform(
+  platform: MusicPlatform,
+  query: string,
+  options: { limit: number; offset: number; market: string; storefront: string },
+  optional = false
+): Promise<{ tracks: UnifiedTrack[]; hasMore: boolean }> {
+  try {
+    if (platform === "spotify") {
+      const page = await spotify.searchTracks(query, {
+        limit: options.limit,
+        offset: options.offset,
+        market: options.market,
+      });
+      return { tracks: page.items.map(fromSpotify), hasMore: page.next !== null };
+    }
+
+    const songs = await appleMusic.searchSongs(query, {
+      limit: options.limit,
+      offset: options.offset,
+      storefront: options.storefront,
+    });
+    return { tracks: songs.map(fromAppleMusic), hasMore: songs.length === options.limit };
+  } catch (error) {
+    if (!optional) throw error;
+    console.error(`⚠️ ${platform} search failed, skipping cross-platform links:`, error);
+    return { tracks: [], hasMore: false };
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    let requestBody: TrackSearchRequest;
+
+    try {
+      requestBody = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "Invalid JSON in request body" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const {
+      query,
+      music_platform: platform = "spotify",
+      limit = 20,
+      offset: requestedOffset = 0,
+      cursor,
+      region: requestedRegion,
+    } = requestBody;
+
+    if (!query || typeof query !== "string" || query.trim().length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Query parameter is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (platform !== "spotify" && platform !== "apple_music") {
+      return new Response(
+        JSON.stringify({ error: "music_platform must be 'spotify' or 'apple_music'" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const offset = cursor ? decodeCursor(cursor) : Math.max(0, requestedOffset);
+    if (offset === null) {
+      return new Response(
+        JSON.stringify({ error: "Invalid cursor" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const pageSize = Math.min(Math.max(1, limit), MAX_LIMIT);
+    const { market, storefront } = await resolveRegion(req, requestedRegion);
+    const otherPlatform: MusicPlatform = platform === "spotify" ? "apple_music" : "spotify";
+
+    console.log(`🔍 Searching ${platform} (${market}) for "${query.trim()}" at offset ${offset}`);
+
+    // Same page of the other catalog, used to link results by ISRC
+    const [native, other] = await Promise.all([
+      searchPlatform(platform, query.trim(), { limit: pageSize, offset, market, storefront }),
+      searchPlatform(otherPlatform, query.trim(), { limit: pageSize, offset, market, storefront }, true),
+    ]);
+
+    // Platforms list the same recording on several releases; keep the first of each ISRC
+    const seenIsrcs = new Set<string>();
+    const tracks = native.tracks.filter((track) => {
+      if (!track.isrc) return true;
+      if (seenIsrcs.has(track.isrc)) return false;
+      seenIsrcs.add(track.isrc);
+      return true;
+    });
+
+    const otherByIsrc = new Map(
+      other.tracks.filter((t) => t.isrc).map((t) => [t.isrc as string, t])
+    );
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+    const catalog = await findCatalogTracksByISRC(supabase, [...seenIsrcs]);
+
+    for (const track of tracks) {
+      if (!track.isrc) continue;
+      const match = otherByIsrc.get(track.isrc);
+      const known = catalog.get(track.isrc);
+
+      track.spotifyId ??= match?.spotifyId ?? known?.spotify_id ?? null;
+      track.appleMusicId ??= match?.appleMusicId ?? known?.apple_music_id ?? null;
+      track.previewUrl ??= match?.previewUrl ?? known?.preview_url ?? null;
+    }
+
+    const nextOffset = offset + native.tracks.length;
+
+    console.log(`✅ Found ${tracks.length} tracks (${tracks.filter((t) => t.spotifyId && t.appleMusicId).length} linked across platforms)`);
+
+    return new Response(
+      JSON.stringify({
+        tracks,
+        platform,
+        market,
+        offset,
+        nextOffset: native.hasMore ? nextOffset : null,
+        nextCursor: native.hasMore ? encodeCursor(nextOffset) : null,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in search-tracks:", error);
+
+    const message = error.message || "Something went wrong. Please try again.";
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
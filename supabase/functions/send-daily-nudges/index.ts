@@ -0,0 +1,248 @@
+// Supabase Edge Function that reminds users to pick today's song
+// Meant to run on a schedule (e.g. every 15 minutes via cron) with the CRON_SECRET
+// in the x-cron-secret header. Nudges users who haven't picked a daily song for their
+// local date (has_daily_song_today) once their nudge_time has passed, outside their
+// quiet hours. Each user gets at most one nudge per local date, claimed in
+// daily_nudges before sending: a 'daily_nudge' notification row plus a push.
+// Users a phlock member already nudged today are skipped.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { mapWithConcurrency } from "../_shared/concurrency.ts";
+import { isCronRequest } from "../_shared/cron.ts";
+import { sendPush } from "../_shared/push.ts";
+import { localDate, localMidnight, localMinutes } from "../_shared/timezone.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cron-secret",
+};
+
+interface NudgeUser {
+  id: string;
+  timezone: string | null;
+  nudge_time: string; // "HH:MM:SS", local
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  daily_song_streak: number | null;
+  last_daily_song_date: string | null;
+}
+
+interface DueNudge {
+  user: NudgeUser;
+  date: string; // The user's local date
+}
+
+const PAGE_SIZE = 1000;
+const ID_BATCH = 100;
+const CHECK_CONCURRENCY = 10;
+const SEND_CONCURRENCY = 5;
+
+/** "HH:MM[:SS]" to minutes since midnight */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a nudge may go out `now` minutes after local midnight: once the nudge
+ * time has passed and outside quiet hours, which may wrap past midnight. A nudge
+ * time inside quiet hours is released when they end.
+ */
+function isNudgeDue(
+  prefs: { nudgeTime: string; quietStart: string | null; quietEnd: string | null },
+  now: number
+): boolean {
+  let due = toMinutes(prefs.nudgeTime);
+  if (prefs.quietStart && prefs.quietEnd && prefs.quietStart !== prefs.quietEnd) {
+    const start = toMinutes(prefs.quietStart);
+    const end = toMinutes(prefs.quietEnd);
+    const isQuiet = (minutes: number) =>
+      start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+
+    if (isQuiet(now)) return false;
+    // A nudge time inside quiet hours moves to when they end. For quiet hours that
+    // wrap past midnight that is the morning of the same local date, since by the
+    // next morning it's a new day's song.
+    if (isQuiet(due)) due = end;
+  }
+  return now >= due;
+}
+
+function nudgeMessage(user: NudgeUser, date: string): string {
+  const yesterday = new Date(Date.parse(`${date}T00:00:00Z`) - 86_400_000).toISOString().slice(0, 10);
+  const streak = user.daily_song_streak ?? 0;
+  if (streak > 0 && user.last_daily_song_date === yesterday) {
+    return `Keep your ${streak}-day streak going: pick today's song`;
+  }
+  return "Your phlock is waiting: pick today's song";
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // 1. Users whose nudge time has come, outside quiet hours
+    const now = new Date();
+    const due: DueNudge[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("users")
+        .select("id, timezone, nudge_time, quiet_hours_start, quiet_hours_end, daily_song_streak, last_daily_song_date")
+        .eq("daily_nudge_enabled", true)
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      const page = (data ?? []) as NudgeUser[];
+      for (const user of page) {
+        const date = localDate(user.timezone, now);
+        // Already picked today according to the streak bookkeeping
+        if (user.last_daily_song_date === date) continue;
+
+        const prefs = { nudgeTime: user.nudge_time, quietStart: user.quiet_hours_start, quietEnd: user.quiet_hours_end };
+        if (isNudgeDue(prefs, localMinutes(user.timezone, now))) due.push({ user, date });
+      }
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    // 2. Skip anyone already nudged today, by this job or by their phlock
+    const nudged = new Set<string>();
+    for (let i = 0; i < due.length; i += ID_BATCH) {
+      const batch = due.slice(i, i + ID_BATCH);
+      const ids = batch.map(({ user }) => user.id);
+      const earliest = batch
+        .map(({ user, date }) => localMidnight(date, user.timezone))
+        .reduce((min, value) => (value < min ? value : min));
+
+      const [{ data: sent, error: sentError }, { data: peer, error: peerError }] = await Promise.all([
+        supabase
+          .from("daily_nudges")
+          .select("user_id, local_date")
+          .in("user_id", ids)
+          .in("local_date", [...new Set(batch.map(({ date }) => date))]),
+        supabase
+          .from("notifications")
+          .select("user_id, created_at")
+          .eq("type", "daily_nudge")
+          .in("user_id", ids)
+          .gte("created_at", earliest),
+      ]);
+
+      if (sentError) throw sentError;
+      if (peerError) throw peerError;
+
+      for (const row of (sent ?? []) as Array<{ user_id: string; local_date: string }>) {
+        nudged.add(`${row.user_id}|${row.local_date}`);
+      }
+      const dates = new Map(batch.map(({ user, date }) => [user.id, date]));
+      const timezones = new Map(batch.map(({ user }) => [user.id, user.timezone]));
+      for (const row of (peer ?? []) as Array<{ user_id: string; created_at: string }>) {
+        const date = dates.get(row.user_id)!;
+        if (localDate(timezones.get(row.user_id), new Date(row.created_at)) === date) {
+          nudged.add(`${row.user_id}|${date}`);
+        }
+      }
+    }
+    const pending = due.filter(({ user, date }) => !nudged.has(`${user.id}|${date}`));
+
+    // 3. Confirm there's no daily song for their local date
+    const unpicked = await mapWithConcurrency(pending, CHECK_CONCURRENCY, async ({ user, date }) => {
+      const { data, error } = await supabase.rpc("has_daily_song_today", { check_user_id: user.id, check_date: date });
+      if (error) {
+        console.error(`❌ Failed to check ${user.id}'s daily song:`, error);
+        return false;
+      }
+      return data !== true;
+    });
+    const toNudge = pending.filter((_, index) => unpicked[index]);
+
+    // 4. Claim each user's nudge for the day; rows another run claimed first are skipped
+    const claimed = new Set<string>();
+    if (toNudge.length > 0) {
+      const { data, error } = await supabase
+        .from("daily_nudges")
+        .upsert(
+          toNudge.map(({ user, date }) => ({ user_id: user.id, local_date: date })),
+          { onConflict: "user_id,local_date", ignoreDuplicates: true }
+        )
+        .select("user_id, local_date");
+
+      if (error) throw error;
+      for (const row of (data ?? []) as Array<{ user_id: string; local_date: string }>) {
+        claimed.add(`${row.user_id}|${row.local_date}`);
+      }
+    }
+    const sending = toNudge.filter(({ user, date }) => claimed.has(`${user.id}|${date}`));
+
+    console.log(`🔔 ${due.length} users due, ${pending.length} not yet nudged, sending ${sending.length}`);
+
+    // 5. Notification row, then push
+    const results = await mapWithConcurrency(sending, SEND_CONCURRENCY, async ({ user, date }) => {
+      const message = nudgeMessage(user, date);
+      try {
+        const { data: notification, error: notificationError } = await supabase
+          .from("notifications")
+          .insert({ user_id: user.id, type: "daily_nudge", message, metadata: { local_date: date } })
+          .select("id")
+          .single();
+
+        if (notificationError) throw notificationError;
+
+        const { error: linkError } = await supabase
+          .from("daily_nudges")
+          .update({ notification_id: notification.id })
+          .eq("user_id", user.id)
+          .eq("local_date", date);
+
+        if (linkError) throw linkError;
+
+        const devices = await sendPush(supabase, {
+          userId: user.id,
+          title: "Pick your song!",
+          body: message,
+          type: "daily_nudge",
+          data: { notification_id: notification.id },
+        });
+        return { userId: user.id, date, notificationId: notification.id, devices };
+      } catch (error) {
+        console.error(`❌ Failed to nudge ${user.id}:`, error);
+        return { userId: user.id, date, error: error.message };
+      }
+    });
+
+    const nudgedCount = results.filter((result) => !("error" in result)).length;
+    console.log(`✅ Sent ${nudgedCount}/${sending.length} daily nudges`);
+
+    return new Response(
+      JSON.stringify({ success: true, nudged: nudgedCount, results }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in send-daily-nudges:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
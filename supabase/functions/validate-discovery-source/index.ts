@@ -0,0 +1,148 @@
+// Supabase Edge Function for admins to check a discovery source before it goes live
+// Fetches the source exactly as get-playlist-tracks would and records the outcome.
+// A source can only be activated (is_active) once it returns tracks after its filters.
+// Admin-only: callers must authenticate with the service role key.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  applySourceRules,
+  fetchSourceTracks,
+  type DiscoverySource,
+} from "../_shared/discovery-sources.ts";
+import { resolveRegion } from "../_shared/region.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface ValidateSourceRequest {
+  sourceId: string;
+  activate?: boolean; // Put the source live if validation passes
+  region?: string; // Region to fetch in (defaults to US)
+}
+
+const SAMPLE_SIZE = 5;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  if (!serviceRoleKey || req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  try {
+    const { sourceId, activate = false, region: requestedRegion }: ValidateSourceRequest = await req.json();
+
+    if (!sourceId) {
+      return new Response(
+        JSON.stringify({ error: "sourceId is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
+
+    const { data: source, error: loadError } = await supabase
+      .from("discovery_sources")
+      .select("*")
+      .eq("id", sourceId)
+      .maybeSingle();
+
+    if (loadError) throw loadError;
+    if (!source) {
+      return new Response(
+        JSON.stringify({ error: "Discovery source not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const discoverySource = source as DiscoverySource;
+    const region = await resolveRegion(req, requestedRegion);
+
+    console.log(`🔍 Validating ${discoverySource.feed} source "${discoverySource.name}" (${discoverySource.source_type}, ${region.market})`);
+
+    let validationError: string | null = null;
+    let tracks: ReturnType<typeof applySourceRules> = [];
+    try {
+      tracks = applySourceRules(discoverySource, await fetchSourceTracks(discoverySource, region));
+      if (tracks.length === 0) {
+        validationError = "Source returned no tracks after filters";
+      }
+    } catch (error) {
+      validationError = error.message || "Source could not be fetched";
+    }
+
+    // A failed re-check of a live source is recorded but doesn't take the feed down;
+    // get-playlist-tracks already skips sources that fail at read time
+    const update = validationError
+      ? { last_validation_error: validationError, last_validated_track_count: 0 }
+      : {
+        validated_at: new Date().toISOString(),
+        last_validation_error: null,
+        last_validated_track_count: tracks.length,
+        ...(activate ? { is_active: true } : {}),
+      };
+
+    const { data: updated, error: updateError } = await supabase
+      .from("discovery_sources")
+      .update(update)
+      .eq("id", discoverySource.id)
+      .select("id, feed, name, is_active, validated_at")
+      .single();
+
+    if (updateError) throw updateError;
+
+    if (validationError) {
+      console.log(`❌ Source "${discoverySource.name}" failed validation: ${validationError}`);
+    } else {
+      console.log(`✅ Source "${discoverySource.name}" returned ${tracks.length} tracks${activate ? ", now live" : ""}`);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: validationError === null,
+        error: validationError,
+        source: updated,
+        trackCount: tracks.length,
+        sample: tracks.slice(0, SAMPLE_SIZE).map((track) => ({
+          name: track.name,
+          artistName: track.artistName,
+          hasPreview: track.previewUrl !== null,
+        })),
+        market: region.market,
+      }),
+      {
+        status: validationError ? 422 : 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in validate-discovery-source:", error);
+    return new Response(
+      JSON.stringify({ error: error.message || "Internal server error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
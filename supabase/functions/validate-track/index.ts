@@ -1,5 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { spotify, type SpotifyTrack } from '../_shared/spotify/index.ts';
+import { appleMusic, getAppleMusicPreview, type ApplePreview } from '../_shared/apple-music/index.ts';
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  MATCH_THRESHOLD,
+  matchTrack,
+  parseArtists,
+  scoreCandidate,
+  type MatchCandidate,
+  type MatchQuery,
+  type MatchResult,
+  type ScoredCandidate,
+} from '../_shared/matching.ts';
+import { findCatalogTrack, upsertCatalogTrack, type CatalogTrack } from '../_shared/track-catalog.ts';
+import { mapWithConcurrency } from '../_shared/concurrency.ts';
+import { isSpotifyTrackPlayable, normalizeRegion, resolveRegion, toRegion, type Region } from '../_shared/region.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,420 +27,456 @@ interface TrackValidationRequest {
   trackName?: string;
   artistName?: string;
   isrc?: string;  // For exact version matching
+  durationMs?: number;  // Helps tell edits/live versions apart
+  region?: string;  // ISO country code; defaults to the user's profile region
 }
 
-interface SpotifyToken {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
+interface ValidationResult {
+  status: number;
+  body: Record<string, unknown>;
 }
 
-interface SpotifyTrack {
-  id: string;
-  name: string;
-  artists: Array<{ id: string; name: string }>;
-  album: {
-    images: Array<{ url: string; height: number; width: number }>;
-  };
-  preview_url: string | null;
-  external_ids?: {
-    isrc?: string;
-  };
-  popularity: number;
-}
+// Batch limits: enough for a daily playlist or an import page without tripping rate limits
+const MAX_BATCH_SIZE = 50;
+const BATCH_CONCURRENCY = 5;
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
 
 /**
- * Get Spotify access token using client credentials
+ * Search for a track by ISRC (most precise matching)
  */
-async function getSpotifyToken(): Promise<SpotifyToken> {
-  const clientId = Deno.env.get('SPOTIFY_CLIENT_ID') ?? '';
-  const clientSecret = Deno.env.get('SPOTIFY_CLIENT_SECRET') ?? '';
-
-  const response = await fetch('https://accounts.spotify.com/api/token', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      'Authorization': 'Basic ' + btoa(`${clientId}:${clientSecret}`)
-    },
-    body: 'grant_type=client_credentials'
-  });
+async function searchByISRC(isrc: string, market: string): Promise<SpotifyTrack | null> {
+  try {
+    const results = await spotify.searchTracks(`isrc:${isrc}`, { limit: 1, market });
 
-  if (!response.ok) {
-    throw new Error('Failed to get Spotify access token');
+    if (results.items.length > 0) {
+      console.log(`Found track by ISRC ${isrc}: ${results.items[0].name} by ${results.items[0].artists[0].name}`);
+      return results.items[0];
+    }
+  } catch (error) {
+    console.error('Spotify ISRC search failed:', error);
   }
 
-  return await response.json();
+  return null;
 }
 
 /**
- * Validate a track ID by fetching it from Spotify
+ * Convert a Spotify track into a candidate for the matcher
  */
-async function validateTrackId(trackId: string, accessToken: string): Promise<SpotifyTrack | null> {
-  const response = await fetch(`https://api.spotify.com/v1/tracks/${trackId}`, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`
-    }
-  });
-
-  if (response.status === 200) {
-    return await response.json();
-  }
-
-  return null;
+function toMatchCandidate(track: SpotifyTrack): MatchCandidate {
+  return {
+    title: track.name,
+    artists: track.artists.map(a => a.name),
+    durationMs: track.duration_ms,
+    isrc: track.external_ids?.isrc,
+    popularity: track.popularity,
+  };
 }
 
 /**
- * Search for a track by ISRC (most precise matching)
+ * Search for a track on Spotify and score every result against the request
  */
-async function searchByISRC(isrc: string, accessToken: string): Promise<SpotifyTrack | null> {
-  const query = `isrc:${isrc}`;
-  const encodedQuery = encodeURIComponent(query);
-
-  const response = await fetch(
-    `https://api.spotify.com/v1/search?q=${encodedQuery}&type=track&limit=1`,
-    {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`
-      }
-    }
-  );
+async function searchTrack(query: MatchQuery, market: string): Promise<MatchResult<SpotifyTrack>> {
+  // Parse all artists from the artist name
+  const allArtists = parseArtists(query.artist);
 
-  if (!response.ok) {
-    console.error('Spotify ISRC search failed:', await response.text());
-    return null;
+  // Build search query with all artists for precise matching
+  // For "Dua Lipa ft. DaBaby", this creates: track:"Levitating" artist:"dua lipa" artist:"dababy"
+  const artistQueries = allArtists.map(artist => `artist:"${artist}"`).join(' ');
+  const fieldQuery = `track:"${query.title}" ${artistQueries}`;
+
+  let items: SpotifyTrack[];
+  try {
+    items = (await spotify.searchTracks(fieldQuery, { limit: 20, market })).items;
+
+    // Field filters miss alternate spellings ("Beyonce" vs "Beyoncé"); widen to free text
+    if (items.length === 0) {
+      items = (await spotify.searchTracks(`${query.title} ${allArtists[0]}`, { limit: 20, market })).items;
+    }
+  } catch (error) {
+    console.error('Spotify search failed:', error);
+    return { best: null, alternatives: [] };
   }
 
-  const data = await response.json();
+  const result = matchTrack(query, items, toMatchCandidate);
 
-  if (data.tracks && data.tracks.items.length > 0) {
-    console.log(`Found track by ISRC ${isrc}: ${data.tracks.items[0].name} by ${data.tracks.items[0].artists[0].name}`);
-    return data.tracks.items[0];
+  if (result.best) {
+    const track = result.best.item;
+    console.log(`Best match: ${track.name} by ${track.artists.map(a => a.name).join(', ')} (confidence: ${result.best.confidence}, ${result.alternatives.length} alternative(s))`);
+  } else {
+    // Do NOT return a low-scoring track - this causes wrong songs to be linked
+    // If we can't find a good match, return the candidates and let the client decide
+    console.log(`No matching track found for "${query.title}" by "${query.artist}"`);
   }
 
-  return null;
+  return result;
 }
 
 /**
- * Search Apple Music Catalog API by ISRC for exact track matching
- * Uses Developer Token for server-side authentication (no user permission needed)
- * Falls back to iTunes Search API if developer token is not available
+ * Format a Spotify track for the app (preview URL is resolved separately)
  */
-async function getAppleMusicPreview(isrc: string, trackName: string, artistName: string): Promise<string | null> {
-  // First try Apple Music Catalog API with ISRC (most accurate)
-  if (isrc) {
-    const catalogPreview = await getAppleMusicPreviewByISRC(isrc, artistName);
-    if (catalogPreview) {
-      return catalogPreview;
-    }
-
-    // Try iTunes API with ISRC as fallback (also very accurate)
-    const itunesIsrcPreview = await getAppleMusicPreviewByISRC_iTunes(isrc, artistName);
-    if (itunesIsrcPreview) {
-      return itunesIsrcPreview;
-    }
-  }
+function formatTrack(track: SpotifyTrack) {
+  return {
+    id: track.id,
+    name: track.name,
+    artistName: track.artists[0].name,
+    artistId: track.artists[0].id,  // Primary artist Spotify ID for direct profile linking
+    artists: track.artists.map(a => a.name),
+    // Get the highest quality album art (first image is largest, sorted by size desc)
+    albumArtUrl: track.album.images[0]?.url,
+    isrc: track.external_ids?.isrc,
+    popularity: track.popularity,
+    spotifyUrl: `https://open.spotify.com/track/${track.id}`,
+    // False when the track can't be played in the requested market
+    isPlayable: isSpotifyTrackPlayable(track),
+  };
+}
 
-  // Fall back to iTunes Search API (text-based, less accurate)
-  return getAppleMusicPreviewBySearch(trackName, artistName);
+/**
+ * Runner-up candidates for the iOS picker when confidence is low
+ */
+function formatAlternatives(alternatives: ScoredCandidate<SpotifyTrack>[]) {
+  return alternatives.map(({ item, confidence }) => ({
+    ...formatTrack(item),
+    previewUrl: item.preview_url,
+    confidence,
+  }));
 }
 
 /**
- * Search Apple Music Catalog API by ISRC for 100% accurate matching
- * Requires APPLE_MUSIC_DEVELOPER_TOKEN in environment
+ * Convert a catalog row into a candidate for the matcher
  */
-async function getAppleMusicPreviewByISRC(isrc: string, expectedArtistName: string, storefront: string = 'us'): Promise<string | null> {
-  const developerToken = Deno.env.get('APPLE_MUSIC_DEVELOPER_TOKEN');
-  if (!developerToken) {
-    console.log('No Apple Music developer token configured, falling back to iTunes Search');
-    return null;
-  }
+function catalogCandidate(row: CatalogTrack): MatchCandidate {
+  return {
+    title: row.title,
+    artists: row.artists.length > 0 ? row.artists : [row.artist_name],
+    durationMs: row.duration_ms ?? undefined,
+    isrc: row.isrc,
+    popularity: row.popularity ?? undefined,
+  };
+}
 
-  // Helper to clean artist name
-  const cleanArtistName = (name: string) => name.split(/\s+(?:ft\.|feat\.|featuring|&)\s+/i)[0].toLowerCase().trim();
-  const targetCleanArtist = cleanArtistName(expectedArtistName);
+/**
+ * Format a catalog row the same way as formatTrack
+ */
+function formatCatalogTrack(row: CatalogTrack) {
+  return {
+    id: row.spotify_id,
+    name: row.title,
+    artistName: row.artist_name,
+    artistId: row.spotify_artist_id,
+    artists: row.artists,
+    albumArtUrl: row.album_art_url,
+    isrc: row.isrc,
+    popularity: row.popularity,
+    spotifyUrl: `https://open.spotify.com/track/${row.spotify_id}`,
+    appleMusicId: row.apple_music_id,
+  };
+}
 
+/**
+ * Resolve an Apple Music song ID to its Spotify equivalent through the ISRC
+ */
+async function searchByAppleMusicId(appleMusicId: string, region: Region): Promise<SpotifyTrack | null> {
   try {
-    const response = await fetch(
-      `https://api.music.apple.com/v1/catalog/${storefront}/songs?filter[isrc]=${isrc}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${developerToken}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    if (!response.ok) {
-      console.log(`Apple Music Catalog API error: ${response.status}`);
-      // If 401/403, token may be expired
-      if (response.status === 401 || response.status === 403) {
-        console.log('Apple Music developer token may be expired');
-      }
-      return null;
+    const song = await appleMusic.getSong(appleMusicId, { storefront: region.storefront });
+    if (song?.attributes.isrc) {
+      console.log(`Apple Music ID ${appleMusicId} has ISRC ${song.attributes.isrc}`);
+      return await searchByISRC(song.attributes.isrc, region.market);
     }
-
-    const data = await response.json();
-    const song = data.data?.[0];
-
-    if (song?.attributes?.previews?.[0]?.url) {
-      // Verify artist match
-      const resultArtist = song.attributes.artistName ?? "";
-      const resultCleanArtist = cleanArtistName(resultArtist);
-
-      if (resultCleanArtist === targetCleanArtist) {
-        console.log(`✅ Found Apple Music preview via ISRC ${isrc}: ${song.attributes.name}`);
-        return song.attributes.previews[0].url;
-      } else {
-        console.log(`⚠️ Apple Music ISRC match rejected due to artist mismatch: '${resultCleanArtist}' vs '${targetCleanArtist}'`);
-      }
-    }
-
-    console.log(`No matching preview found for ISRC ${isrc} on Apple Music`);
-    return null;
   } catch (error) {
-    console.error('Apple Music Catalog API error:', error);
-    return null;
+    console.error('Apple Music song lookup failed:', error);
   }
+
+  return null;
 }
 
 /**
- * Search iTunes API by ISRC (fallback if Catalog API fails)
+ * Whether a catalog track plays in `market`. Learned once per market with a
+ * single track lookup, then remembered on the catalog row.
  */
-async function getAppleMusicPreviewByISRC_iTunes(isrc: string, expectedArtistName: string): Promise<string | null> {
-  // Helper to clean artist name
-  const cleanArtistName = (name: string) => name.split(/\s+(?:ft\.|feat\.|featuring|&)\s+/i)[0].toLowerCase().trim();
-  const targetCleanArtist = cleanArtistName(expectedArtistName);
+async function catalogPlayability(row: CatalogTrack, market: string): Promise<boolean | null> {
+  const known = row.market_playability?.[market];
+  if (known !== undefined) {
+    return known;
+  }
 
   try {
-    const response = await fetch(`https://itunes.apple.com/lookup?isrc=${isrc}&entity=song&limit=1`);
-
-    if (!response.ok) {
-      console.log('iTunes ISRC Lookup failed:', response.status);
+    const track = await spotify.getTrack(row.spotify_id ?? '', market);
+    if (!track) {
       return null;
     }
 
-    const data = await response.json();
-
-    if (data.results && data.results.length > 0) {
-      const track = data.results[0];
-      if (track.previewUrl) {
-        // Verify artist match
-        const resultArtist = track.artistName ?? "";
-        const resultCleanArtist = cleanArtistName(resultArtist);
-
-        if (resultCleanArtist === targetCleanArtist) {
-          console.log(`✅ Found iTunes preview via ISRC ${isrc}: ${track.trackName}`);
-          return track.previewUrl;
-        } else {
-          console.log(`⚠️ iTunes ISRC match rejected due to artist mismatch: '${resultCleanArtist}' vs '${targetCleanArtist}'`);
-        }
-      }
-    }
-
-    return null;
+    const isPlayable = isSpotifyTrackPlayable(track);
+    await upsertCatalogTrack(supabase, {
+      isrc: row.isrc,
+      title: row.title,
+      artist_name: row.artist_name,
+      market_playability: { ...row.market_playability, [market]: isPlayable },
+    });
+    return isPlayable;
   } catch (error) {
-    console.error('iTunes ISRC Lookup error:', error);
+    console.error(`Failed to check ${market} playability for ${row.isrc}:`, error);
     return null;
   }
 }
 
 /**
- * Fallback: Search iTunes API by track name and artist (less accurate)
+ * Validate a single track request. Token caches and the catalog are shared
+ * across calls, so batch items reuse each other's work.
  */
-async function getAppleMusicPreviewBySearch(trackName: string, artistName: string): Promise<string | null> {
-  // Helper to clean artist name (remove ft., etc)
-  const cleanArtistName = (name: string) => name.split(/\s+(?:ft\.|feat\.|featuring|&)\s+/i)[0].toLowerCase().trim();
-  const targetCleanArtist = cleanArtistName(artistName);
-
-  // Helper to perform search and check matches
-  const performSearch = async (searchTrackName: string): Promise<string | null> => {
-    try {
-      const searchTerm = encodeURIComponent(`${searchTrackName} ${targetCleanArtist}`);
-      const response = await fetch(
-        `https://itunes.apple.com/search?term=${searchTerm}&media=music&entity=song&limit=10`,
-        { headers: { 'Accept': 'application/json' } }
-      );
-
-      if (!response.ok) return null;
-      const data = await response.json();
-
-      if (data.results && data.results.length > 0) {
-        // 1. Try exact match on name AND artist
-        const exactMatch = data.results.find((result: any) => {
-          const resultName = result.trackName?.toLowerCase() ?? "";
-          const resultCleanArtist = cleanArtistName(result.artistName ?? "");
+async function validateTrack(request: TrackValidationRequest, region: Region): Promise<ValidationResult> {
+  const { trackId, trackName, artistName, isrc, durationMs } = request;
+  const { market, storefront } = region;
 
-          const nameMatch = resultName === searchTrackName.toLowerCase();
-          // Strict artist match: must be equal (ignoring case/features)
-          const artistMatch = resultCleanArtist === targetCleanArtist;
-
-          return nameMatch && artistMatch && result.previewUrl;
-        });
-
-        if (exactMatch?.previewUrl) {
-          console.log(`Found iTunes exact preview for "${searchTrackName}": ${exactMatch.previewUrl}`);
-          return exactMatch.previewUrl;
-        }
+  const query: MatchQuery | null = trackName && artistName
+    ? { title: trackName, artist: artistName, durationMs, isrc }
+    : null;
 
-        // 2. Try fuzzy match: Name must contain track name, Artist must match exactly
-        const fuzzyMatch = data.results.find((result: any) => {
-          const resultName = result.trackName?.toLowerCase() ?? "";
-          const resultCleanArtist = cleanArtistName(result.artistName ?? "");
+  // Known recordings are answered from the catalog without calling Spotify/Apple Music
+  const cached = await findCatalogTrack(supabase, { trackId, isrc });
+  if (cached?.spotify_id) {
+    const cachedConfidence = query ? scoreCandidate(query, catalogCandidate(cached)).confidence : 1;
 
-          const nameMatch = resultName.includes(searchTrackName.toLowerCase()) || searchTrackName.toLowerCase().includes(resultName);
-          const artistMatch = resultCleanArtist === targetCleanArtist;
-
-          return nameMatch && artistMatch && result.previewUrl;
-        });
-
-        if (fuzzyMatch?.previewUrl) {
-          console.log(`Using iTunes fuzzy match preview: ${fuzzyMatch.previewUrl}`);
-          return fuzzyMatch.previewUrl;
+    if (cachedConfidence >= MATCH_THRESHOLD) {
+      let previewUrl = cached.preview_url;
+      if (!previewUrl) {
+        previewUrl = (await getAppleMusicPreview(cached.isrc, cached.title, cached.artist_name, storefront))?.url ?? null;
+        if (previewUrl) {
+          await upsertCatalogTrack(supabase, {
+            isrc: cached.isrc,
+            title: cached.title,
+            artist_name: cached.artist_name,
+            preview_url: previewUrl,
+          });
         }
       }
-      return null;
-    } catch (error) {
-      console.error('iTunes Search API error:', error);
-      return null;
-    }
-  };
-
-  // 1. Try full track name first
-  const fullMatch = await performSearch(trackName);
-  if (fullMatch) return fullMatch;
 
-  // 2. Try simplified track name (remove " - ", "(", "[")
-  // e.g. "Bags - Recorded At Electric Lady Studios" -> "Bags"
-  // e.g. "Untitled (How Does It Feel)" -> "Untitled"
-  const simplifiedName = trackName.split(/\s+(?:-|\[|\()\s+/)[0].trim();
+      console.log(`✅ Catalog hit for ${cached.isrc}: ${cached.title} by ${cached.artist_name}`);
+      return {
+        status: 200,
+        body: {
+          success: true,
+          method: 'catalog',
+          confidence: cachedConfidence,
+          needsConfirmation: cachedConfidence < LOW_CONFIDENCE_THRESHOLD,
+          track: {
+            ...formatCatalogTrack(cached),
+            isPlayable: await catalogPlayability(cached, market),
+            previewUrl,
+          },
+          alternatives: [],
+        },
+      };
+    }
 
-  if (simplifiedName && simplifiedName !== trackName && simplifiedName.length > 2) {
-    console.log(`Retrying search with simplified name: "${simplifiedName}"`);
-    const simpleMatch = await performSearch(simplifiedName);
-    if (simpleMatch) return simpleMatch;
+    console.log(`Catalog entry ${cached.isrc} doesn't match request (confidence: ${cachedConfidence}), re-resolving`);
   }
 
-  console.log(`No matching preview found in iTunes for "${trackName}" by "${artistName}"`);
-  return null;
-}
+  let validatedTrack: SpotifyTrack | null = null;
+  // Exact lookups (trackId/ISRC without metadata to compare) are fully trusted
+  let confidence = 1;
+  let alternatives: ScoredCandidate<SpotifyTrack>[] = [];
+  let method = 'unknown';
+
+  const applySearchResult = (result: MatchResult<SpotifyTrack>, searchMethod: string) => {
+    alternatives = result.alternatives;
+    if (result.best) {
+      validatedTrack = result.best.item;
+      confidence = result.best.confidence;
+      method = searchMethod;
+    }
+  };
 
-/**
- * Parse artist name to extract all artists (handles "ft.", "feat.", "&", etc.)
- */
-function parseArtists(artistName: string): string[] {
-  // Split on common delimiters for featured artists
-  const delimiters = /\s+(?:ft\.?|feat\.?|featuring|&|,|\|)\s+/gi;
-  const artists = artistName.split(delimiters).map(a => a.trim().toLowerCase());
-  return artists;
-}
+  // If we have a track ID, validate it first
+  if (trackId) {
+    validatedTrack = await spotify.getTrack(trackId, market);
+    method = 'validation';
 
-/**
- * Check if track artists match the expected artist name (handles featured artists)
- */
-function artistsMatch(trackArtists: Array<{ name: string }>, expectedArtistName: string): boolean {
-  const expectedArtists = parseArtists(expectedArtistName);
-  const trackArtistNames = trackArtists.map(a => a.name.toLowerCase());
-
-  // Check if all expected artists are present in the track's artists
-  // This handles cases like "Dua Lipa ft. DaBaby" matching ["Dua Lipa", "DaBaby"]
-  const allArtistsPresent = expectedArtists.every(expectedArtist =>
-    trackArtistNames.some(trackArtist =>
-      trackArtist.includes(expectedArtist) || expectedArtist.includes(trackArtist)
-    )
-  );
-
-  return allArtistsPresent;
-}
+    // Shares from Apple Music users carry a numeric Apple Music song ID
+    if (!validatedTrack && /^\d+$/.test(trackId)) {
+      validatedTrack = await searchByAppleMusicId(trackId, region);
+      method = 'apple_music_id';
+    }
 
-/**
- * Search for a track on Spotify
- */
-async function searchTrack(trackName: string, artistName: string, accessToken: string): Promise<SpotifyTrack | null> {
-  // Parse all artists from the artist name
-  const allArtists = parseArtists(artistName);
+    // Check if the validated track matches the expected name/artist
+    if (validatedTrack && query) {
+      confidence = scoreCandidate(query, toMatchCandidate(validatedTrack)).confidence;
+
+      if (confidence < MATCH_THRESHOLD) {
+        console.log(`Track ID valid but metadata mismatch (confidence: ${confidence}):`);
+        console.log(`  Found: "${validatedTrack.name}" by ${validatedTrack.artists.map(a => a.name).join(', ')}`);
+        console.log(`  Expected: "${trackName}" by ${artistName}`);
+        console.log('  Searching for correct track...');
+
+        // First try ISRC if available (most precise)
+        if (isrc) {
+          console.log(`  Trying ISRC: ${isrc}`);
+          const isrcResult = await searchByISRC(isrc, market);
+          if (isrcResult) {
+            // Verify the ISRC result matches the expected track
+            const isrcConfidence = scoreCandidate(query, toMatchCandidate(isrcResult)).confidence;
+
+            if (isrcConfidence >= MATCH_THRESHOLD) {
+              validatedTrack = isrcResult;
+              confidence = isrcConfidence;
+              method = 'isrc_after_mismatch';
+              console.log(`  ✓ Found via ISRC: ${isrcResult.name}`);
+            } else {
+              console.log(`  ✗ ISRC mismatch: found "${isrcResult.name}" but expected "${trackName}"`);
+              console.log(`  ✗ ISRC is incorrect, falling back to name/artist search`);
+            }
+          }
+        }
 
-  // Build search query with all artists for precise matching
-  // For "Dua Lipa ft. DaBaby", this creates: track:"Levitating" artist:"dua lipa" artist:"dababy"
-  const artistQueries = allArtists.map(artist => `artist:"${artist}"`).join(' ');
-  const query = `track:"${trackName}" ${artistQueries}`;
-  const encodedQuery = encodeURIComponent(query);
-
-  const response = await fetch(
-    `https://api.spotify.com/v1/search?q=${encodedQuery}&type=track&limit=20`,
-    {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`
+        // Fall back to name/artist search if ISRC didn't work or mismatched, whether
+        // the mismatched track came from the Spotify ID or the Apple Music ID
+        if (method === 'validation' || method === 'apple_music_id') {
+          applySearchResult(await searchTrack(query, market), 'search_after_mismatch');
+        }
       }
     }
-  );
-
-  if (!response.ok) {
-    console.error('Spotify search failed:', await response.text());
-    return null;
   }
+  // If we have ISRC, use that first (most precise)
+  else if (isrc) {
+    validatedTrack = await searchByISRC(isrc, market);
+    method = 'isrc';
 
-  const data = await response.json();
-
-  if (data.tracks && data.tracks.items.length > 0) {
-    // Find all tracks that match the name and have all the expected artists
-    const candidateMatches = data.tracks.items.filter((track: SpotifyTrack) => {
-      // Check if track name matches (with or without feat. suffix)
-      const trackNameLower = track.name.toLowerCase();
-      const expectedNameLower = trackName.toLowerCase();
-      const nameMatch = trackNameLower === expectedNameLower ||
-        trackNameLower.startsWith(expectedNameLower + ' (') ||
-        trackNameLower.startsWith(expectedNameLower + ' -');
-
-      const artistMatch = artistsMatch(track.artists, artistName);
-      return nameMatch && artistMatch;
-    });
+    if (validatedTrack && query) {
+      confidence = scoreCandidate(query, toMatchCandidate(validatedTrack)).confidence;
+    }
 
-    if (candidateMatches.length > 0) {
-      // Prefer tracks with featured artist info in the title when artist name has featured artists
-      const hasFeaturedArtists = /\b(?:ft\.?|feat\.?|featuring)\b/i.test(artistName);
+    // Fall back to name/artist if ISRC doesn't work
+    if (!validatedTrack && query) {
+      method = 'search_after_isrc_fail';
+      applySearchResult(await searchTrack(query, market), 'search_after_isrc_fail');
+    }
+  }
+  // Otherwise, search by name and artist
+  else if (query) {
+    method = 'search';
+    applySearchResult(await searchTrack(query, market), 'search');
+  }
+  else {
+    return {
+      status: 400,
+      body: { error: 'Either trackId, isrc, or both trackName and artistName are required' },
+    };
+  }
 
-      if (hasFeaturedArtists) {
-        const withFeatInTitle = candidateMatches.filter(track =>
-          /\(feat\.?\s|featuring\s/i.test(track.name)
-        );
+  // Return the result
+  if (validatedTrack) {
+    const track: SpotifyTrack = validatedTrack;
+    const trackIsrc = track.external_ids?.isrc;
 
-        if (withFeatInTitle.length > 0) {
-          const sorted = withFeatInTitle.sort((a: SpotifyTrack, b: SpotifyTrack) =>
-            b.popularity - a.popularity
-          );
-          console.log(`Found ${withFeatInTitle.length} match(es) with feat. in title, returning most popular: ${sorted[0].name} by ${sorted[0].artists.map(a => a.name).join(', ')} (popularity: ${sorted[0].popularity})`);
-          return sorted[0];
-        }
+    // Use Spotify preview URL, or fall back to Apple Music if null.
+    // With an ISRC we also look up the Apple Music ID so the share opens on both platforms.
+    let previewUrl = track.preview_url;
+    let applePreview: ApplePreview | null = null;
+    if (!previewUrl || trackIsrc) {
+      if (!previewUrl) {
+        console.log(`Spotify preview_url is null for "${track.name}", trying Apple Music...`);
       }
-
-      // Otherwise return most popular match
-      const sorted = candidateMatches.sort((a: SpotifyTrack, b: SpotifyTrack) =>
-        b.popularity - a.popularity
+      applePreview = await getAppleMusicPreview(
+        trackIsrc ?? '',
+        track.name,
+        track.artists[0].name,
+        storefront
       );
-      console.log(`Found ${candidateMatches.length} match(es), returning most popular: ${sorted[0].name} by ${sorted[0].artists.map(a => a.name).join(', ')} (popularity: ${sorted[0].popularity})`);
-      return sorted[0];
+      previewUrl = previewUrl ?? applePreview?.url ?? null;
+    }
+    const appleMusicId = applePreview?.matchedBy === 'isrc' ? applePreview.appleMusicId : null;
+
+    if (trackIsrc) {
+      const knownPlayability = cached?.isrc === trackIsrc.toUpperCase() ? cached.market_playability : {};
+      await upsertCatalogTrack(supabase, {
+        isrc: trackIsrc,
+        spotify_id: track.id,
+        apple_music_id: appleMusicId ?? undefined,
+        title: track.name,
+        artist_name: track.artists[0].name,
+        artists: track.artists.map(a => a.name),
+        spotify_artist_id: track.artists[0].id,
+        album_art_url: track.album.images[0]?.url ?? null,
+        duration_ms: track.duration_ms,
+        popularity: track.popularity,
+        preview_url: previewUrl,
+        market_playability: { ...knownPlayability, [market]: isSpotifyTrackPlayable(track) },
+      });
     }
 
-    // Fallback: Return most popular result with matching name
-    const nameMatches = data.tracks.items.filter((track: SpotifyTrack) =>
-      track.name.toLowerCase() === trackName.toLowerCase()
-    );
+    return {
+      status: 200,
+      body: {
+        success: true,
+        method,
+        confidence,
+        // Let the user confirm when we're not sure we picked the right version
+        needsConfirmation: confidence < LOW_CONFIDENCE_THRESHOLD,
+        track: {
+          ...formatTrack(track),
+          appleMusicId,
+          previewUrl: previewUrl,
+        },
+        alternatives: formatAlternatives(alternatives),
+      },
+    };
+  } else {
+    return {
+      status: 404,
+      body: {
+        success: false,
+        error: 'Track not found',
+        searched: { trackName, artistName },
+        // Low-confidence candidates the user may still recognise
+        alternatives: formatAlternatives(alternatives),
+      },
+    };
+  }
+}
 
-    if (nameMatches.length > 0) {
-      const sorted = nameMatches.sort((a: SpotifyTrack, b: SpotifyTrack) =>
-        b.popularity - a.popularity
-      );
-      console.log(`No exact match, using most popular with matching name: ${sorted[0].name} by ${sorted[0].artists.map(a => a.name).join(', ')}`);
-      return sorted[0];
+/**
+ * Validate many tracks at once with bounded concurrency. Identical requests are
+ * resolved once, and a failing item is reported in its own result instead of
+ * failing the batch.
+ */
+async function validateBatch(requests: TrackValidationRequest[], region: Region) {
+  const inFlight = new Map<string, Promise<ValidationResult>>();
+
+  const results = await mapWithConcurrency(requests, BATCH_CONCURRENCY, async (request, index) => {
+    // An item's own region wins over the batch's
+    const itemMarket = normalizeRegion(request.region);
+    const itemRegion = itemMarket ? toRegion(itemMarket, 'request') : region;
+    const key = JSON.stringify([request.trackId, request.isrc, request.trackName, request.artistName, request.durationMs, itemRegion.market]);
+    let pending = inFlight.get(key);
+    if (!pending) {
+      pending = validateTrack(request, itemRegion).catch((error) => {
+        console.error(`Error validating batch item ${index}:`, error);
+        return { status: 500, body: { success: false, error: error.message } };
+      });
+      inFlight.set(key, pending);
     }
 
-    // Do NOT return random popular tracks - this causes wrong songs to be linked
-    // If we can't find a good match, return null and let the client handle it
-    console.log(`No matching track found for "${trackName}" by "${artistName}"`);
-    return null;
-  }
+    const { status, body } = await pending;
+    return { index, status, ...body };
+  });
 
-  return null;
+  const succeeded = results.filter(r => r.status === 200).length;
+  console.log(`✅ Validated batch: ${succeeded}/${results.length} resolved`);
+
+  return {
+    success: true,
+    market: region.market,
+    results,
+    summary: {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+    },
+  };
 }
 
 serve(async (req) => {
@@ -434,139 +486,54 @@ serve(async (req) => {
   }
 
   try {
-    const { trackId, trackName, artistName, isrc } = await req.json() as TrackValidationRequest;
-
-    // Get Spotify access token
-    const tokenData = await getSpotifyToken();
-    const accessToken = tokenData.access_token;
-
-    let validatedTrack: SpotifyTrack | null = null;
-    let method = 'unknown';
-
-    // If we have a track ID, validate it first
-    if (trackId) {
-      validatedTrack = await validateTrackId(trackId, accessToken);
-      method = 'validation';
-
-      // Check if the validated track matches the expected name/artist
-      if (validatedTrack && trackName && artistName) {
-        const nameMatches = validatedTrack.name.toLowerCase() === trackName.toLowerCase();
-        const artistMatches = artistsMatch(validatedTrack.artists, artistName);
-
-        if (!nameMatches || !artistMatches) {
-          console.log(`Track ID valid but metadata mismatch:`);
-          console.log(`  Found: "${validatedTrack.name}" by ${validatedTrack.artists.map(a => a.name).join(', ')}`);
-          console.log(`  Expected: "${trackName}" by ${artistName}`);
-          console.log('  Searching for correct track...');
-
-          // First try ISRC if available (most precise)
-          if (isrc) {
-            console.log(`  Trying ISRC: ${isrc}`);
-            const isrcResult = await searchByISRC(isrc, accessToken);
-            if (isrcResult) {
-              // Verify the ISRC result matches the expected track
-              const nameMatches = isrcResult.name.toLowerCase() === trackName.toLowerCase();
-              const artistMatches = artistsMatch(isrcResult.artists, artistName);
-
-              if (nameMatches && artistMatches) {
-                validatedTrack = isrcResult;
-                method = 'isrc_after_mismatch';
-                console.log(`  ✓ Found via ISRC: ${isrcResult.name}`);
-              } else {
-                console.log(`  ✗ ISRC mismatch: found "${isrcResult.name}" but expected "${trackName}"`);
-                console.log(`  ✗ ISRC is incorrect, falling back to name/artist search`);
-              }
-            }
+    const payload = await req.json();
+
+    // Batch mode: an array of requests, or { tracks: [...], region? }
+    const batch: TrackValidationRequest[] | null = Array.isArray(payload)
+      ? payload
+      : Array.isArray(payload?.tracks) ? payload.tracks : null;
+
+    // Batch items fall back to this region when they don't name their own
+    const region = await resolveRegion(req, Array.isArray(payload) ? undefined : payload?.region);
+
+    if (batch) {
+      if (batch.length === 0 || batch.length > MAX_BATCH_SIZE) {
+        return new Response(
+          JSON.stringify({ error: `Batch must contain between 1 and ${MAX_BATCH_SIZE} tracks` }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
           }
-
-          // Fall back to name/artist search if ISRC didn't work or mismatched
-          if (!validatedTrack || method === 'validation') {
-            const searchResult = await searchTrack(trackName, artistName, accessToken);
-            if (searchResult) {
-              validatedTrack = searchResult;
-              method = 'search_after_mismatch';
-            }
-          }
-        }
-      }
-    }
-    // If we have ISRC, use that first (most precise)
-    else if (isrc) {
-      validatedTrack = await searchByISRC(isrc, accessToken);
-      method = 'isrc';
-
-      // Fall back to name/artist if ISRC doesn't work
-      if (!validatedTrack && trackName && artistName) {
-        validatedTrack = await searchTrack(trackName, artistName, accessToken);
-        method = 'search_after_isrc_fail';
+        );
       }
-    }
-    // Otherwise, search by name and artist
-    else if (trackName && artistName) {
-      validatedTrack = await searchTrack(trackName, artistName, accessToken);
-      method = 'search';
-    }
-    else {
-      return new Response(
-        JSON.stringify({ error: 'Either trackId, isrc, or both trackName and artistName are required' }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
-    }
-
-    // Return the result
-    if (validatedTrack) {
-      // Get the highest quality album art (first image is largest, sorted by size desc)
-      const albumArt = validatedTrack.album.images[0]?.url;
 
-      // Use Spotify preview URL, or fall back to Apple Music if null
-      let previewUrl = validatedTrack.preview_url;
-      if (!previewUrl) {
-        console.log(`Spotify preview_url is null for "${validatedTrack.name}", trying Apple Music...`);
-        previewUrl = await getAppleMusicPreview(
-          validatedTrack.external_ids?.isrc ?? '',
-          validatedTrack.name,
-          validatedTrack.artists[0].name
+      if (batch.some((item) => !item || typeof item !== 'object' || Array.isArray(item))) {
+        return new Response(
+          JSON.stringify({ error: 'Each batch item must be an object' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
         );
       }
 
       return new Response(
-        JSON.stringify({
-          success: true,
-          method,
-          track: {
-            id: validatedTrack.id,
-            name: validatedTrack.name,
-            artistName: validatedTrack.artists[0].name,
-            artistId: validatedTrack.artists[0].id,  // Primary artist Spotify ID for direct profile linking
-            artists: validatedTrack.artists.map(a => a.name),
-            albumArtUrl: albumArt,
-            previewUrl: previewUrl,
-            isrc: validatedTrack.external_ids?.isrc,
-            popularity: validatedTrack.popularity,
-            spotifyUrl: `https://open.spotify.com/track/${validatedTrack.id}`
-          }
-        }),
+        JSON.stringify(await validateBatch(batch, region)),
         {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
-    } else {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Track not found',
-          searched: { trackName, artistName }
-        }),
-        {
-          status: 404,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
     }
 
+    const { status, body } = await validateTrack(payload as TrackValidationRequest, region);
+    return new Response(
+      JSON.stringify(body),
+      {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
   } catch (error) {
     console.error('Error in validate-track function:', error);
     return new Response(
@@ -577,4 +544,4 @@ serve(async (req) => {
       }
     );
   }
-});
\ No newline at end of file
+});
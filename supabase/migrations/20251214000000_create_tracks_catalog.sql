@@ -0,0 +1,55 @@
+-- Migration: Create tracks catalog keyed by ISRC
+-- One row per recording with its Spotify and Apple Music IDs, so a share made on
+-- one platform can be opened on the other and repeat lookups skip the external APIs.
+-- Rows are written by edge functions (service role); clients only read.
+
+CREATE TABLE IF NOT EXISTS tracks (
+    isrc TEXT PRIMARY KEY,
+    spotify_id TEXT UNIQUE,
+    apple_music_id TEXT UNIQUE,
+    title TEXT NOT NULL,
+    artist_name TEXT NOT NULL,
+    artists TEXT[] NOT NULL DEFAULT '{}',
+    spotify_artist_id TEXT,
+    album_art_url TEXT,
+    duration_ms INTEGER,
+    popularity INTEGER,
+    preview_url TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- ISRCs are stored upper-case so lookups don't depend on the source's casing
+    CONSTRAINT tracks_isrc_upper CHECK (isrc = UPPER(isrc))
+);
+
+-- Enable RLS
+ALTER TABLE tracks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Catalog metadata is public to signed-in users; writes go through the service role
+DROP POLICY IF EXISTS "Users can view tracks catalog" ON tracks;
+CREATE POLICY "Users can view tracks catalog"
+ON tracks FOR SELECT
+TO authenticated
+USING (true);
+
+DROP TRIGGER IF EXISTS update_tracks_updated_at ON tracks;
+CREATE TRIGGER update_tracks_updated_at BEFORE UPDATE ON tracks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Look up a catalog row from either platform's track ID (or an ISRC),
+-- e.g. shares.track_id, which holds whichever ID the sender's platform uses
+CREATE OR REPLACE FUNCTION resolve_track(p_track_id TEXT)
+RETURNS SETOF tracks AS $$
+    SELECT *
+    FROM tracks
+    WHERE spotify_id = p_track_id
+       OR apple_music_id = p_track_id
+       OR isrc = UPPER(p_track_id)
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION resolve_track(TEXT) TO authenticated;
+
+COMMENT ON TABLE tracks IS 'Cross-platform track catalog keyed by ISRC, populated by validate-track';
+COMMENT ON COLUMN tracks.preview_url IS 'Spotify preview, or the Apple Music/iTunes fallback when Spotify has none';
@@ -0,0 +1,12 @@
+-- Migration: Track preview URL health checks on shares
+-- check-preview-urls works through shares oldest-checked first (daily songs ahead
+-- of regular sends among equally stale ones), so each scheduled run picks up where
+-- the last one stopped. Every attempt is stamped, conclusive or not.
+
+ALTER TABLE shares ADD COLUMN IF NOT EXISTS preview_checked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_shares_preview_health
+  ON shares(preview_checked_at ASC NULLS FIRST, is_daily_song DESC)
+  WHERE preview_url IS NOT NULL;
+
+COMMENT ON COLUMN shares.preview_checked_at IS 'Last time check-preview-urls checked preview_url, whatever the outcome';
@@ -0,0 +1,18 @@
+-- Migration: Add music region to users and per-market playability to the tracks catalog
+-- country_code is an ISO 3166-1 alpha-2 code, passed to Spotify as `market` and to
+-- Apple Music as the storefront. Edge functions fall back to it when a request
+-- doesn't specify a region.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS country_code TEXT;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_country_code_check;
+ALTER TABLE users ADD CONSTRAINT users_country_code_check
+  CHECK (country_code IS NULL OR country_code ~ '^[A-Z]{2}$');
+
+COMMENT ON COLUMN users.country_code IS 'ISO 3166-1 alpha-2 region for Spotify market / Apple Music storefront (NULL = US)';
+
+-- Playability learned per market, e.g. {"US": true, "DE": false}, so catalog hits
+-- can flag region-locked tracks without asking Spotify again
+ALTER TABLE tracks ADD COLUMN IF NOT EXISTS market_playability JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN tracks.market_playability IS 'Spotify is_playable per market code, filled in as tracks are validated in each region';
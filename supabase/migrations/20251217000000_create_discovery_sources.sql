@@ -0,0 +1,86 @@
+-- Migration: Create discovery sources registry
+-- Drives get-playlist-tracks: each discovery feed the app requests (e.g. 'new-music-friday')
+-- is backed by one or more sources, read in priority order until the requested number of
+-- tracks is collected. Sources only go live after validate-discovery-source has fetched them.
+-- Rows are managed by admins through the service role; the app never reads this table directly.
+
+CREATE TABLE IF NOT EXISTS discovery_sources (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    feed TEXT NOT NULL,                 -- The `playlist` key clients request
+    name TEXT NOT NULL,                 -- Admin-facing label, unique within a feed
+    source_type TEXT NOT NULL CHECK (source_type IN ('spotify_playlist', 'apple_playlist', 'apple_chart', 'search_seed')),
+    external_id TEXT,                   -- Playlist ID, or Apple chart name (defaults to 'most-played')
+    search_queries TEXT[] NOT NULL DEFAULT '{}', -- Spotify search queries for search_seed sources
+    -- Optional keys: excludeAlbums, excludeArtists (names), requirePreview, playableOnly, maxPerArtist
+    filters JSONB NOT NULL DEFAULT '{}',
+    fetch_limit INTEGER NOT NULL DEFAULT 50 CHECK (fetch_limit BETWEEN 1 AND 100),
+    max_tracks INTEGER CHECK (max_tracks > 0), -- Cap on what this source contributes; NULL for no cap
+    ordering TEXT NOT NULL DEFAULT 'source' CHECK (ordering IN ('source', 'popularity', 'release_date')),
+    priority INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    validated_at TIMESTAMPTZ,
+    last_validation_error TEXT,
+    last_validated_track_count INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT discovery_sources_feed_name_unique UNIQUE (feed, name),
+    CONSTRAINT discovery_sources_playlist_has_id CHECK (
+        source_type NOT IN ('spotify_playlist', 'apple_playlist') OR external_id IS NOT NULL
+    ),
+    CONSTRAINT discovery_sources_seed_has_queries CHECK (
+        source_type <> 'search_seed' OR cardinality(search_queries) > 0
+    ),
+    -- A source can't go live without a successful validation
+    CONSTRAINT discovery_sources_active_requires_validation CHECK (
+        NOT is_active OR validated_at IS NOT NULL
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_discovery_sources_feed_active
+    ON discovery_sources(feed, priority)
+    WHERE is_active;
+
+-- Enable RLS (no policies: only the service role reads or writes sources)
+ALTER TABLE discovery_sources ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_discovery_sources_updated_at ON discovery_sources;
+CREATE TRIGGER update_discovery_sources_updated_at BEFORE UPDATE ON discovery_sources
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Changing what a source fetches invalidates its last validation and takes it offline
+-- until it is validated again (unless the same update records a new validation)
+CREATE OR REPLACE FUNCTION reset_discovery_source_validation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.source_type, NEW.external_id, NEW.search_queries, NEW.filters)
+        IS DISTINCT FROM (OLD.source_type, OLD.external_id, OLD.search_queries, OLD.filters)
+       AND NEW.validated_at IS NOT DISTINCT FROM OLD.validated_at THEN
+        NEW.validated_at := NULL;
+        NEW.is_active := false;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_discovery_source_validation ON discovery_sources;
+CREATE TRIGGER reset_discovery_source_validation BEFORE UPDATE ON discovery_sources
+  FOR EACH ROW EXECUTE FUNCTION reset_discovery_source_validation();
+
+-- Seed the feeds that were previously hard-coded in get-playlist-tracks (already live)
+INSERT INTO discovery_sources (feed, name, source_type, external_id, search_queries, filters, ordering, priority, is_active, validated_at)
+VALUES
+    ('new-music-friday', 'NPR Music New Music Friday', 'spotify_playlist', '5X8lN5fZSrLnXzFtDEUwb9', '{}',
+        '{"excludeAlbums": ["All Songs Considered"]}', 'source', 0, true, NOW()),
+    ('viral-hits', 'TikTok 2025', 'spotify_playlist', '4SWt6k4KUSNzmgRtCTzOKM', '{}',
+        '{}', 'source', 0, true, NOW()),
+    ('todays-top-hits', 'Billboard Hot 100', 'spotify_playlist', '6UeSakyzhiEt4NB3UAd6NQ', '{}',
+        '{}', 'source', 0, true, NOW()),
+    -- Fallback when the playlist is unavailable or filtered down too far
+    ('todays-top-hits', 'Popular artists', 'search_seed', NULL,
+        ARRAY['artist:Beyonce', 'artist:Kendrick Lamar', 'artist:Ariana Grande', 'artist:Post Malone', 'artist:Billie Eilish'],
+        '{"maxPerArtist": 4}', 'popularity', 10, true, NOW())
+ON CONFLICT (feed, name) DO NOTHING;
+
+COMMENT ON TABLE discovery_sources IS 'Sources behind each get-playlist-tracks feed, read in priority order';
+COMMENT ON COLUMN discovery_sources.filters IS 'excludeAlbums/excludeArtists (names), requirePreview, playableOnly, maxPerArtist';
@@ -0,0 +1,21 @@
+-- Migration: Create chart snapshots
+-- capture-chart-snapshots stores each chart (e.g. Apple Music most-played per region)
+-- on a schedule; get-apple-charts computes trending from rank changes between snapshots.
+-- Written and read by edge functions only (service role).
+
+CREATE TABLE IF NOT EXISTS chart_snapshots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    chart_key TEXT NOT NULL,            -- e.g. 'apple:most-played'
+    region TEXT NOT NULL CHECK (region ~ '^[A-Z]{2}$'),
+    captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    entries JSONB NOT NULL,             -- [{ key, rank, track }] in chart order
+    entry_count INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_chart_snapshots_chart_region_time
+    ON chart_snapshots(chart_key, region, captured_at DESC);
+
+-- Enable RLS (no policies: only the service role reads or writes snapshots)
+ALTER TABLE chart_snapshots ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE chart_snapshots IS 'Periodic chart captures used to compute trending by rank velocity';
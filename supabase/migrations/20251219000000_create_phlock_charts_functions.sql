@@ -0,0 +1,212 @@
+-- Migration: Phlock charts
+-- Ranks the tracks and artists people pick as their daily song, weighted by what the
+-- community did with those picks: saves, plays and forwards (engagements), likes and
+-- sends (shares counters), and how many phlocks the curator is in (users.phlock_count).
+-- Used by the get-phlock-charts edge function.
+
+-- Per-pick rows behind both charts. Internal: it runs with the caller's rights, and
+-- only the SECURITY DEFINER chart functions below may call it.
+-- Score weights, shared by the track and artist charts
+--   pick 5, save 3, send/forward 2, like 1.5, play 1, curator reach 2 * ln(1 + phlock_count)
+CREATE OR REPLACE FUNCTION phlock_chart_picks(
+    p_since DATE,
+    p_until DATE,
+    p_network_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    share_id UUID,
+    sender_id UUID,
+    picked_at TIMESTAMPTZ,
+    chart_key TEXT,
+    track_id TEXT,
+    track_name TEXT,
+    artist_name TEXT,
+    artist_key TEXT,
+    artist_id TEXT,
+    album_art_url TEXT,
+    preview_url TEXT,
+    isrc TEXT,
+    play_count INTEGER,
+    save_count INTEGER,
+    like_count INTEGER,
+    send_count INTEGER,
+    score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH viewer AS (
+        SELECT get_current_user_id() AS id
+    ),
+    -- The viewer, everyone they follow, and the phlocks of the people in their phlock
+    network AS (
+        SELECT v.id AS user_id FROM viewer v
+        UNION
+        SELECT f.following_id FROM follows f, viewer v WHERE f.follower_id = v.id
+        UNION
+        SELECT f2.following_id
+        FROM follows f1
+        JOIN follows f2 ON f2.follower_id = f1.following_id AND f2.is_in_phlock
+        JOIN viewer v ON f1.follower_id = v.id
+        WHERE f1.is_in_phlock
+    ),
+    picks AS (
+        SELECT s.*
+        FROM shares s
+        WHERE s.is_daily_song = true
+          AND s.selected_date BETWEEN p_since AND p_until
+          AND (NOT p_network_only OR s.sender_id IN (SELECT user_id FROM network))
+    ),
+    engagement_counts AS (
+        SELECT
+            e.share_id,
+            COUNT(*) FILTER (WHERE e.action = 'played')::integer AS plays,
+            COUNT(*) FILTER (WHERE e.action = 'saved')::integer AS saves,
+            COUNT(*) FILTER (WHERE e.action = 'forwarded')::integer AS forwards
+        FROM engagements e
+        WHERE e.share_id IN (SELECT id FROM picks)
+        GROUP BY e.share_id
+    )
+    SELECT
+        p.id,
+        p.sender_id,
+        p.created_at,
+        -- The same recording picked on Spotify and Apple Music charts as one entry
+        COALESCE(ts.isrc, ta.isrc, p.track_id),
+        p.track_id,
+        p.track_name,
+        p.artist_name,
+        -- shares.artist_id holds a raw Spotify ID or a "spotify:"/"apple:" prefixed ID
+        COALESCE(regexp_replace(p.artist_id, '^spotify:', ''), 'name:' || lower(p.artist_name)),
+        regexp_replace(p.artist_id, '^spotify:', ''),
+        p.album_art_url,
+        p.preview_url,
+        COALESCE(ts.isrc, ta.isrc),
+        COALESCE(ec.plays, 0),
+        COALESCE(ec.saves, 0),
+        COALESCE(p.like_count, 0),
+        COALESCE(p.send_count, 0),
+        (
+            5
+            + 3 * COALESCE(ec.saves, 0)
+            + 2 * (COALESCE(p.send_count, 0) + COALESCE(ec.forwards, 0))
+            + 1.5 * COALESCE(p.like_count, 0)
+            + COALESCE(ec.plays, 0)
+            + 2 * ln(1 + COALESCE(u.phlock_count, 0))
+        )::numeric
+    FROM picks p
+    JOIN users u ON u.id = p.sender_id
+    LEFT JOIN engagement_counts ec ON ec.share_id = p.id
+    LEFT JOIN tracks ts ON ts.spotify_id = p.track_id
+    LEFT JOIN tracks ta ON ta.apple_music_id = p.track_id;
+$$;
+
+CREATE OR REPLACE FUNCTION get_phlock_track_chart(
+    p_since DATE,
+    p_until DATE DEFAULT CURRENT_DATE,
+    p_network_only BOOLEAN DEFAULT false,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    chart_key TEXT,
+    track_id TEXT,
+    track_name TEXT,
+    artist_name TEXT,
+    artist_id TEXT,
+    album_art_url TEXT,
+    preview_url TEXT,
+    isrc TEXT,
+    pick_count INTEGER,
+    curator_count INTEGER,
+    play_count INTEGER,
+    save_count INTEGER,
+    like_count INTEGER,
+    send_count INTEGER,
+    score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        p.chart_key,
+        -- Representative row: the most recent pick's metadata
+        (array_agg(p.track_id ORDER BY p.picked_at DESC))[1],
+        (array_agg(p.track_name ORDER BY p.picked_at DESC))[1],
+        (array_agg(p.artist_name ORDER BY p.picked_at DESC))[1],
+        (array_agg(p.artist_id ORDER BY p.picked_at DESC) FILTER (WHERE p.artist_id IS NOT NULL))[1],
+        (array_agg(p.album_art_url ORDER BY p.picked_at DESC) FILTER (WHERE p.album_art_url IS NOT NULL))[1],
+        (array_agg(p.preview_url ORDER BY p.picked_at DESC) FILTER (WHERE p.preview_url IS NOT NULL))[1],
+        MAX(p.isrc),
+        COUNT(*)::integer,
+        COUNT(DISTINCT p.sender_id)::integer,
+        SUM(p.play_count)::integer,
+        SUM(p.save_count)::integer,
+        SUM(p.like_count)::integer,
+        SUM(p.send_count)::integer,
+        ROUND(SUM(p.score), 2)
+    FROM phlock_chart_picks(p_since, p_until, p_network_only) p
+    GROUP BY p.chart_key
+    -- Deterministic: ties broken by reach, then key
+    ORDER BY SUM(p.score) DESC, COUNT(DISTINCT p.sender_id) DESC, p.chart_key
+    LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+CREATE OR REPLACE FUNCTION get_phlock_artist_chart(
+    p_since DATE,
+    p_until DATE DEFAULT CURRENT_DATE,
+    p_network_only BOOLEAN DEFAULT false,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    artist_key TEXT,
+    artist_id TEXT,
+    artist_name TEXT,
+    album_art_url TEXT,
+    top_track_name TEXT,
+    pick_count INTEGER,
+    track_count INTEGER,
+    curator_count INTEGER,
+    play_count INTEGER,
+    save_count INTEGER,
+    like_count INTEGER,
+    send_count INTEGER,
+    score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        p.artist_key,
+        MAX(p.artist_id),
+        (array_agg(p.artist_name ORDER BY p.score DESC))[1],
+        (array_agg(p.album_art_url ORDER BY p.score DESC) FILTER (WHERE p.album_art_url IS NOT NULL))[1],
+        (array_agg(p.track_name ORDER BY p.score DESC))[1],
+        COUNT(*)::integer,
+        COUNT(DISTINCT p.chart_key)::integer,
+        COUNT(DISTINCT p.sender_id)::integer,
+        SUM(p.play_count)::integer,
+        SUM(p.save_count)::integer,
+        SUM(p.like_count)::integer,
+        SUM(p.send_count)::integer,
+        ROUND(SUM(p.score), 2)
+    FROM phlock_chart_picks(p_since, p_until, p_network_only) p
+    GROUP BY p.artist_key
+    ORDER BY SUM(p.score) DESC, COUNT(DISTINCT p.sender_id) DESC, p.artist_key
+    LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+-- Charts only expose aggregates, never who picked what, and only to signed-in users
+REVOKE EXECUTE ON FUNCTION get_phlock_track_chart(DATE, DATE, BOOLEAN, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_phlock_artist_chart(DATE, DATE, BOOLEAN, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_phlock_track_chart(DATE, DATE, BOOLEAN, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_phlock_artist_chart(DATE, DATE, BOOLEAN, INTEGER) TO authenticated;
+REVOKE EXECUTE ON FUNCTION phlock_chart_picks(DATE, DATE, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION get_phlock_track_chart IS 'Daily-song picks ranked by engagement and curator reach; p_network_only limits to the caller''s phlock network';
+COMMENT ON FUNCTION get_phlock_artist_chart IS 'Artists ranked by their daily-song picks, same weighting as get_phlock_track_chart';
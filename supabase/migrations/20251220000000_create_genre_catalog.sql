@@ -0,0 +1,154 @@
+-- Migration: Create genre catalog
+-- Genres (with sub-genres) and, per genre and region, the popular artists and
+-- representative tracks for Discover. refresh-genre-catalog fills the catalog on a
+-- schedule so browse-artists-by-genre reads the table instead of searching Spotify per tap.
+-- Catalog rows are written by edge functions (service role); clients only read.
+
+CREATE TABLE IF NOT EXISTS genres (
+    key TEXT PRIMARY KEY,               -- Slug clients request, e.g. 'hip-hop', 'trap'
+    name TEXT NOT NULL,
+    parent_key TEXT REFERENCES genres(key) ON DELETE CASCADE, -- NULL for top-level genres
+    search_terms TEXT[] NOT NULL,       -- Spotify genre names searched as genre:"term"
+    position INTEGER NOT NULL DEFAULT 0, -- Display order among siblings
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT genres_has_terms CHECK (cardinality(search_terms) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_genres_parent ON genres(parent_key, position);
+
+-- One row per refreshed (genre, region); the refresh job picks the stalest first
+CREATE TABLE IF NOT EXISTS genre_catalog_refreshes (
+    genre_key TEXT NOT NULL REFERENCES genres(key) ON DELETE CASCADE,
+    market TEXT NOT NULL CHECK (market ~ '^[A-Z]{2}$'),
+    refreshed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    artist_count INTEGER NOT NULL DEFAULT 0,
+    track_count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (genre_key, market)
+);
+
+-- Last failed refresh per (genre, region), so pairs that keep failing wait their turn
+CREATE TABLE IF NOT EXISTS genre_catalog_refresh_failures (
+    genre_key TEXT NOT NULL REFERENCES genres(key) ON DELETE CASCADE,
+    market TEXT NOT NULL CHECK (market ~ '^[A-Z]{2}$'),
+    failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    error TEXT,
+    PRIMARY KEY (genre_key, market)
+);
+
+CREATE TABLE IF NOT EXISTS genre_artists (
+    genre_key TEXT NOT NULL REFERENCES genres(key) ON DELETE CASCADE,
+    market TEXT NOT NULL,
+    artist_id TEXT NOT NULL,            -- Spotify artist ID
+    rank INTEGER NOT NULL,              -- 1-based, by popularity; the pagination key
+    name TEXT NOT NULL,
+    image_url TEXT,
+    popularity INTEGER,
+    follower_count INTEGER,
+    genres TEXT[] NOT NULL DEFAULT '{}',
+    refreshed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (genre_key, market, artist_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_genre_artists_rank ON genre_artists(genre_key, market, rank);
+
+CREATE TABLE IF NOT EXISTS genre_tracks (
+    genre_key TEXT NOT NULL REFERENCES genres(key) ON DELETE CASCADE,
+    market TEXT NOT NULL,
+    track_id TEXT NOT NULL,             -- Spotify track ID
+    rank INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    artist_name TEXT NOT NULL,
+    artist_id TEXT,
+    album_art_url TEXT,
+    preview_url TEXT,
+    isrc TEXT,
+    popularity INTEGER,
+    is_playable BOOLEAN NOT NULL DEFAULT true,
+    refreshed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (genre_key, market, track_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_genre_tracks_rank ON genre_tracks(genre_key, market, rank);
+
+-- Enable RLS
+ALTER TABLE genres ENABLE ROW LEVEL SECURITY;
+ALTER TABLE genre_catalog_refreshes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE genre_catalog_refresh_failures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE genre_artists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE genre_tracks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Genre metadata is public to signed-in users; writes go through the service role
+DROP POLICY IF EXISTS "Users can view genres" ON genres;
+CREATE POLICY "Users can view genres"
+ON genres FOR SELECT
+TO authenticated
+USING (is_active);
+
+DROP POLICY IF EXISTS "Users can view genre artists" ON genre_artists;
+CREATE POLICY "Users can view genre artists"
+ON genre_artists FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Users can view genre tracks" ON genre_tracks;
+CREATE POLICY "Users can view genre tracks"
+ON genre_tracks FOR SELECT
+TO authenticated
+USING (true);
+
+DROP TRIGGER IF EXISTS update_genres_updated_at ON genres;
+CREATE TRIGGER update_genres_updated_at BEFORE UPDATE ON genres
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the twelve genres previously hard-coded in browse-artists-by-genre (same search terms)
+INSERT INTO genres (key, name, parent_key, search_terms, position)
+VALUES
+    ('pop', 'Pop', NULL, ARRAY['pop'], 1),
+    ('hip-hop', 'Hip-Hop', NULL, ARRAY['hip-hop', 'rap'], 2),
+    ('r&b', 'R&B', NULL, ARRAY['r-n-b'], 3),
+    ('rock', 'Rock', NULL, ARRAY['rock'], 4),
+    ('indie', 'Indie', NULL, ARRAY['indie', 'indie-pop', 'alt-rock'], 5),
+    ('electronic', 'Electronic', NULL, ARRAY['electronic', 'edm', 'house'], 6),
+    ('jazz', 'Jazz', NULL, ARRAY['jazz'], 7),
+    ('classical', 'Classical', NULL, ARRAY['classical'], 8),
+    ('country', 'Country', NULL, ARRAY['country'], 9),
+    ('latin', 'Latin', NULL, ARRAY['latin'], 10),
+    ('k-pop', 'K-Pop', NULL, ARRAY['k-pop'], 11),
+    ('soul', 'Soul', NULL, ARRAY['soul'], 12)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO genres (key, name, parent_key, search_terms, position)
+VALUES
+    ('dance-pop', 'Dance Pop', 'pop', ARRAY['dance pop'], 1),
+    ('synth-pop', 'Synth-Pop', 'pop', ARRAY['synthpop'], 2),
+    ('trap', 'Trap', 'hip-hop', ARRAY['trap'], 1),
+    ('drill', 'Drill', 'hip-hop', ARRAY['drill'], 2),
+    ('conscious-hip-hop', 'Conscious Hip-Hop', 'hip-hop', ARRAY['conscious hip hop'], 3),
+    ('alternative-r-n-b', 'Alternative R&B', 'r&b', ARRAY['alternative r&b'], 1),
+    ('neo-soul', 'Neo Soul', 'r&b', ARRAY['neo soul'], 2),
+    ('punk', 'Punk', 'rock', ARRAY['punk'], 1),
+    ('metal', 'Metal', 'rock', ARRAY['metal'], 2),
+    ('indie-folk', 'Indie Folk', 'indie', ARRAY['indie folk'], 1),
+    ('bedroom-pop', 'Bedroom Pop', 'indie', ARRAY['bedroom pop'], 2),
+    ('house', 'House', 'electronic', ARRAY['house'], 1),
+    ('techno', 'Techno', 'electronic', ARRAY['techno'], 2),
+    ('drum-and-bass', 'Drum and Bass', 'electronic', ARRAY['drum and bass'], 3),
+    ('smooth-jazz', 'Smooth Jazz', 'jazz', ARRAY['smooth jazz'], 1),
+    ('bebop', 'Bebop', 'jazz', ARRAY['bebop'], 2),
+    ('classical-piano', 'Classical Piano', 'classical', ARRAY['classical piano'], 1),
+    ('americana', 'Americana', 'country', ARRAY['americana'], 1),
+    ('country-pop', 'Country Pop', 'country', ARRAY['country pop'], 2),
+    ('reggaeton', 'Reggaeton', 'latin', ARRAY['reggaeton'], 1),
+    ('latin-pop', 'Latin Pop', 'latin', ARRAY['latin pop'], 2),
+    ('k-indie', 'K-Indie', 'k-pop', ARRAY['k-indie'], 1),
+    ('funk', 'Funk', 'soul', ARRAY['funk'], 1),
+    ('motown', 'Motown', 'soul', ARRAY['motown'], 2)
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON TABLE genres IS 'Browsable genres; sub-genres point at their parent via parent_key';
+COMMENT ON TABLE genre_artists IS 'Popular artists per genre and region, refreshed by refresh-genre-catalog';
+COMMENT ON TABLE genre_tracks IS 'Representative tracks per genre and region, refreshed by refresh-genre-catalog';
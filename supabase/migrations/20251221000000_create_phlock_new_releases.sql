@@ -0,0 +1,58 @@
+-- Migration: Create phlock_new_releases cache
+-- Per-user "new from artists your phlock loves" feed: recent releases by artists the
+-- user's phlock members have picked as daily songs. Computed by the refresh-phlock-new-releases edge
+-- function on a schedule and read by get-phlock-new-releases.
+
+CREATE TABLE IF NOT EXISTS phlock_new_releases (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    releases JSONB NOT NULL DEFAULT '[]'::jsonb, -- Newest first, singles already folded into their albums
+    artist_count INTEGER NOT NULL DEFAULT 0,     -- Distinct phlock artists checked
+    window_days INTEGER NOT NULL CHECK (window_days BETWEEN 1 AND 60),
+    computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The refresh job works through the stalest feeds first
+CREATE INDEX IF NOT EXISTS idx_phlock_new_releases_computed_at ON phlock_new_releases(computed_at);
+
+-- Last failed refresh per user, so feeds that keep failing wait their turn
+CREATE TABLE IF NOT EXISTS phlock_new_release_failures (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    error TEXT
+);
+
+-- Speeds up collecting the artists a phlock's members have shared
+CREATE INDEX IF NOT EXISTS idx_shares_sender_artist ON shares(sender_id, created_at DESC)
+    WHERE artist_id IS NOT NULL;
+
+-- Users with a phlock whose feed is due, stalest first: never attempted, then by the
+-- last attempt, successful or not
+CREATE OR REPLACE FUNCTION due_phlock_new_release_users(p_limit INTEGER)
+RETURNS TABLE (user_id UUID)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT p.follower_id
+    FROM (SELECT DISTINCT follower_id FROM follows WHERE is_in_phlock = true) p
+    LEFT JOIN phlock_new_releases r ON r.user_id = p.follower_id
+    LEFT JOIN phlock_new_release_failures f ON f.user_id = p.follower_id
+    ORDER BY GREATEST(r.computed_at, f.failed_at) NULLS FIRST, p.follower_id
+    LIMIT p_limit;
+$$;
+
+-- Only refresh-phlock-new-releases (service role) picks the batch
+REVOKE EXECUTE ON FUNCTION due_phlock_new_release_users(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Enable RLS
+ALTER TABLE phlock_new_releases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE phlock_new_release_failures ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Users can read their own feed; the edge functions write with the service role
+DROP POLICY IF EXISTS "Users can view their own new releases" ON phlock_new_releases;
+CREATE POLICY "Users can view their own new releases"
+ON phlock_new_releases FOR SELECT
+TO authenticated
+USING (user_id = get_current_user_id());
+
+COMMENT ON TABLE phlock_new_releases IS 'Cached per-user feed of recent releases by artists the user''s phlock members pick';
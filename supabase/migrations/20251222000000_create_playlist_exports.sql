@@ -0,0 +1,36 @@
+-- Migration: Create playlist_exports
+-- Remembers the playlists export-daily-playlist created in a user's own Spotify or
+-- Apple Music library, so later exports update them instead of creating new ones.
+--   kind 'today'   - "Phlock – Today", replaced with each day's playlist
+--   kind 'archive' - rolling archive that every export appends to
+
+CREATE TABLE IF NOT EXISTS playlist_exports (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    platform TEXT NOT NULL CHECK (platform IN ('spotify', 'apple_music')),
+    kind TEXT NOT NULL CHECK (kind IN ('today', 'archive')),
+    external_playlist_id TEXT NOT NULL,
+    external_url TEXT,
+    last_exported_date DATE NOT NULL,
+    -- Platform track IDs written for last_exported_date; re-exports only add what's missing
+    track_ids TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, platform, kind)
+);
+
+-- Enable RLS
+ALTER TABLE playlist_exports ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Users can see where their playlists went; the edge function writes with the service role
+DROP POLICY IF EXISTS "Users can view their own playlist exports" ON playlist_exports;
+CREATE POLICY "Users can view their own playlist exports"
+ON playlist_exports FOR SELECT
+TO authenticated
+USING (user_id = get_current_user_id());
+
+DROP TRIGGER IF EXISTS update_playlist_exports_updated_at ON playlist_exports;
+CREATE TRIGGER update_playlist_exports_updated_at BEFORE UPDATE ON playlist_exports
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE playlist_exports IS 'Daily playlist exports to users'' Spotify/Apple Music libraries (today and archive playlists)';
@@ -0,0 +1,40 @@
+-- Migration: Add refresh state to platform_tokens
+-- Edge functions now refresh users' Spotify tokens themselves (see
+-- _shared/platform-tokens.ts) and refresh-platform-tokens sweeps tokens that are
+-- about to expire. A token whose refresh token was rejected, or an Apple Music
+-- token past its expiry, gets revoked_at so the app can prompt a reconnect.
+
+ALTER TABLE platform_tokens ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;
+ALTER TABLE platform_tokens ADD COLUMN IF NOT EXISTS last_refreshed_at TIMESTAMPTZ;
+-- Consecutive transient failures (network, 5xx); reset on success
+ALTER TABLE platform_tokens ADD COLUMN IF NOT EXISTS refresh_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE platform_tokens ADD COLUMN IF NOT EXISTS last_refresh_error TEXT;
+-- After a failure the sweep leaves the token alone until then (exponential backoff)
+ALTER TABLE platform_tokens ADD COLUMN IF NOT EXISTS refresh_retry_at TIMESTAMPTZ;
+
+-- The sweep reads live tokens soonest-to-expire first
+CREATE INDEX IF NOT EXISTS idx_platform_tokens_expiring
+ON platform_tokens(token_expires_at)
+WHERE revoked_at IS NULL;
+
+-- Reconnecting in the app writes a new access token; that clears the revocation
+CREATE OR REPLACE FUNCTION clear_platform_token_revocation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.access_token IS DISTINCT FROM OLD.access_token
+       AND NEW.revoked_at IS NOT DISTINCT FROM OLD.revoked_at THEN
+        NEW.revoked_at = NULL;
+        NEW.refresh_failures = 0;
+        NEW.last_refresh_error = NULL;
+        NEW.refresh_retry_at = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_platform_token_revocation ON platform_tokens;
+CREATE TRIGGER clear_platform_token_revocation
+    BEFORE UPDATE ON platform_tokens
+    FOR EACH ROW EXECUTE FUNCTION clear_platform_token_revocation();
+
+COMMENT ON COLUMN platform_tokens.revoked_at IS 'Set when the token can no longer be refreshed; the user must reconnect the platform';
@@ -0,0 +1,40 @@
+-- Migration: Create user_taste_profiles
+-- A user's taste as imported from their Spotify or Apple Music listening history
+-- (top artists/tracks, recent plays, library) by the import-listening-history edge
+-- function. Used to seed onboarding: a first daily song and people to add.
+
+CREATE TABLE IF NOT EXISTS user_taste_profiles (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    platform TEXT NOT NULL CHECK (platform IN ('spotify', 'apple_music')),
+    artists JSONB NOT NULL DEFAULT '[]'::jsonb, -- Heaviest first: { key, name, id, imageUrl, genres, weight }
+    tracks JSONB NOT NULL DEFAULT '[]'::jsonb,  -- Heaviest first: { id, name, artistName, albumArtUrl, previewUrl, isrc, weight }
+    genres JSONB NOT NULL DEFAULT '[]'::jsonb,  -- Heaviest first: { name, weight }, weights scaled to 0-1
+    -- Normalized artist names (matching.ts normalizeArtist), for overlap queries across platforms
+    artist_keys TEXT[] NOT NULL DEFAULT '{}',
+    imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_taste_profiles_artist_keys ON user_taste_profiles USING GIN (artist_keys);
+
+-- Finding existing users whose daily songs overlap with an imported taste
+CREATE INDEX IF NOT EXISTS idx_shares_daily_artist_name ON shares(artist_name)
+    WHERE is_daily_song = true;
+
+-- Enable RLS
+ALTER TABLE user_taste_profiles ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Users can read their own profile; the edge function writes with the service role
+DROP POLICY IF EXISTS "Users can view their own taste profile" ON user_taste_profiles;
+CREATE POLICY "Users can view their own taste profile"
+ON user_taste_profiles FOR SELECT
+TO authenticated
+USING (user_id = get_current_user_id());
+
+DROP TRIGGER IF EXISTS update_user_taste_profiles_updated_at ON user_taste_profiles;
+CREATE TRIGGER update_user_taste_profiles_updated_at BEFORE UPDATE ON user_taste_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE user_taste_profiles IS 'Taste profiles imported from users'' Spotify/Apple Music listening history';
@@ -0,0 +1,95 @@
+-- Migration: Create taste compatibility
+-- Pairwise taste-compatibility scores from users' share history: common artists
+-- (shares.artist_id), common tracks, genre overlap and saves of each other's picks.
+-- get-taste-compatibility computes scores on demand and caches them here; new shares
+-- and saves only mark the affected pairs stale, which the next read (or the
+-- refresh-taste-compatibility job) recomputes.
+
+-- Artist genres looked up from Spotify/Apple Music, keyed like shares.artist_id
+CREATE TABLE IF NOT EXISTS artist_genres (
+    artist_id TEXT PRIMARY KEY,
+    genres TEXT[] NOT NULL DEFAULT '{}',
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One row per unordered pair, stored with user_a < user_b
+CREATE TABLE IF NOT EXISTS taste_compatibility (
+    user_a UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    user_b UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    score INTEGER NOT NULL CHECK (score BETWEEN 0 AND 100),
+    components JSONB NOT NULL DEFAULT '{}'::jsonb,   -- { artists, tracks, genres, saves }, each 0-1
+    explanation JSONB NOT NULL DEFAULT '[]'::jsonb,  -- Strongest reasons first, as display strings
+    stale BOOLEAN NOT NULL DEFAULT false,
+    computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    failed_at TIMESTAMPTZ,                           -- Last failed recompute; cleared on success
+    PRIMARY KEY (user_a, user_b),
+    CONSTRAINT taste_compatibility_ordered CHECK (user_a < user_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_taste_compatibility_user_b ON taste_compatibility(user_b);
+-- The refresh job takes never-failed pairs first, then the longest-failed
+CREATE INDEX IF NOT EXISTS idx_taste_compatibility_stale ON taste_compatibility(failed_at NULLS FIRST, computed_at)
+    WHERE stale = true;
+
+-- Speeds up loading one user's share history
+CREATE INDEX IF NOT EXISTS idx_shares_sender_created ON shares(sender_id, created_at DESC);
+
+-- A new share changes the sender's taste: every pair with them needs recomputing
+CREATE OR REPLACE FUNCTION mark_taste_compatibility_stale_on_share()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE taste_compatibility
+    SET stale = true
+    WHERE (user_a = NEW.sender_id OR user_b = NEW.sender_id)
+      AND stale = false;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS mark_taste_compatibility_stale_on_share ON shares;
+CREATE TRIGGER mark_taste_compatibility_stale_on_share
+    AFTER INSERT ON shares
+    FOR EACH ROW EXECUTE FUNCTION mark_taste_compatibility_stale_on_share();
+
+-- A save only changes the pair of saver and curator
+CREATE OR REPLACE FUNCTION mark_taste_compatibility_stale_on_save()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_sender_id UUID;
+BEGIN
+    IF NEW.action <> 'saved' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT sender_id INTO v_sender_id FROM shares WHERE id = NEW.share_id;
+    IF v_sender_id IS NULL OR v_sender_id = NEW.user_id THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE taste_compatibility
+    SET stale = true
+    WHERE user_a = LEAST(NEW.user_id, v_sender_id)
+      AND user_b = GREATEST(NEW.user_id, v_sender_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS mark_taste_compatibility_stale_on_save ON engagements;
+CREATE TRIGGER mark_taste_compatibility_stale_on_save
+    AFTER INSERT ON engagements
+    FOR EACH ROW EXECUTE FUNCTION mark_taste_compatibility_stale_on_save();
+
+-- Enable RLS
+ALTER TABLE artist_genres ENABLE ROW LEVEL SECURITY;
+ALTER TABLE taste_compatibility ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Users can read scores they are part of; the edge functions write with the service role
+DROP POLICY IF EXISTS "Users can view their own compatibility scores" ON taste_compatibility;
+CREATE POLICY "Users can view their own compatibility scores"
+ON taste_compatibility FOR SELECT
+TO authenticated
+USING (user_a = get_current_user_id() OR user_b = get_current_user_id());
+
+COMMENT ON TABLE artist_genres IS 'Cached artist genres from Spotify/Apple Music, keyed like shares.artist_id';
+COMMENT ON TABLE taste_compatibility IS 'Cached pairwise taste-compatibility scores; stale rows are recomputed on read or by refresh-taste-compatibility';
@@ -0,0 +1,327 @@
+-- Migration: Add per-user timezones
+-- Daily songs, streaks and scheduled phlock swaps should turn over at the user's
+-- local midnight, not UTC's (which lands mid-afternoon for users in California).
+-- users.timezone holds the device's IANA timezone, synced by the app; users
+-- without one fall back to UTC. Swaps are scheduled for the user's next local
+-- midnight and process-scheduled-swaps processes them in timezone batches.
+
+-- ============================================
+-- 1. USERS.TIMEZONE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_valid_timezone(tz TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz);
+$$;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'users_timezone_valid'
+    ) THEN
+        ALTER TABLE users
+        ADD CONSTRAINT users_timezone_valid CHECK (timezone IS NULL OR is_valid_timezone(timezone));
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_users_timezone ON users(timezone);
+
+COMMENT ON COLUMN users.timezone IS 'IANA timezone from the user''s device; NULL means UTC';
+
+-- ============================================
+-- 2. LOCAL-DAY HELPERS
+-- ============================================
+
+-- Internal: called from the triggers and functions below, never by clients, so
+-- they run with the caller's rights and aren't granted to anon/authenticated
+
+-- The user's local date at a given instant
+CREATE OR REPLACE FUNCTION user_local_date(p_user_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS DATE
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+  SELECT (p_at AT TIME ZONE COALESCE((SELECT timezone FROM users WHERE id = p_user_id), 'UTC'))::date;
+$$;
+
+-- The first local midnight after a given instant
+CREATE OR REPLACE FUNCTION next_local_midnight(p_user_id UUID, p_after TIMESTAMPTZ DEFAULT NOW())
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+  SELECT (((p_after AT TIME ZONE zone.tz)::date + 1)::timestamp) AT TIME ZONE zone.tz
+  FROM (SELECT COALESCE((SELECT timezone FROM users WHERE id = p_user_id), 'UTC') AS tz) zone;
+$$;
+
+REVOKE EXECUTE ON FUNCTION user_local_date(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION next_local_midnight(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. DAILY SONGS ON THE LOCAL DAY
+-- ============================================
+
+-- Without an explicit date, "today" is the checked user's local date
+DROP FUNCTION IF EXISTS has_daily_song_today(UUID, DATE);
+
+CREATE OR REPLACE FUNCTION has_daily_song_today(check_user_id UUID, check_date DATE DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM shares
+    WHERE sender_id = check_user_id
+      AND is_daily_song = true
+      AND selected_date = COALESCE(check_date, user_local_date(check_user_id))
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_daily_song_today(UUID, DATE) TO authenticated;
+
+-- Daily songs inserted without a selected_date are dated on the sender's local day
+CREATE OR REPLACE FUNCTION set_daily_song_local_date()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_daily_song = true AND NEW.selected_date IS NULL THEN
+        NEW.selected_date := user_local_date(NEW.sender_id, COALESCE(NEW.created_at, NOW()));
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_daily_song_local_date ON shares;
+CREATE TRIGGER set_daily_song_local_date
+    BEFORE INSERT ON shares
+    FOR EACH ROW EXECUTE FUNCTION set_daily_song_local_date();
+
+-- ============================================
+-- 4. STREAKS ON THE LOCAL DAY
+-- ============================================
+
+-- SECURITY DEFINER so the trigger can date the sender's day with user_local_date
+CREATE OR REPLACE FUNCTION update_daily_song_streak() RETURNS TRIGGER AS $$
+DECLARE
+    last_song_date date;
+    current_streak integer;
+    song_date date;
+BEGIN
+    -- Only process if this is a daily song
+    IF NEW.is_daily_song = true THEN
+        song_date := COALESCE(NEW.selected_date, user_local_date(NEW.sender_id, NEW.created_at));
+
+        SELECT last_daily_song_date, daily_song_streak INTO last_song_date, current_streak
+        FROM users WHERE id = NEW.sender_id;
+
+        IF last_song_date IS NULL THEN
+            -- First ever daily song - start streak at 1
+            UPDATE users
+            SET daily_song_streak = 1,
+                last_daily_song_date = song_date
+            WHERE id = NEW.sender_id;
+        ELSIF last_song_date >= song_date THEN
+            -- Same (or an earlier) local day - already counted, don't change streak
+            -- (This handles changing your daily song within the same day)
+            NULL;
+        ELSIF last_song_date = song_date - 1 THEN
+            -- Posted the previous local day - continue streak
+            UPDATE users
+            SET daily_song_streak = COALESCE(current_streak, 0) + 1,
+                last_daily_song_date = song_date
+            WHERE id = NEW.sender_id;
+        ELSE
+            -- Missed one or more days - reset streak to 1
+            UPDATE users
+            SET daily_song_streak = 1,
+                last_daily_song_date = song_date
+            WHERE id = NEW.sender_id;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION calculate_user_streak(user_id_param UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    streak_count INTEGER := 0;
+    last_date DATE;
+    current_date_check DATE;
+    rec RECORD;
+BEGIN
+    -- Get the user's most recent daily song date
+    SELECT selected_date INTO last_date
+    FROM shares
+    WHERE sender_id = user_id_param
+      AND is_daily_song = true
+      AND selected_date IS NOT NULL
+    ORDER BY selected_date DESC
+    LIMIT 1;
+
+    -- If no daily songs, streak is 0
+    IF last_date IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    -- If the last post was before yesterday (in the user's timezone), streak is broken
+    IF last_date < user_local_date(user_id_param) - 1 THEN
+        RETURN 0;
+    END IF;
+
+    -- Count consecutive days backwards from the most recent post
+    current_date_check := last_date;
+
+    FOR rec IN
+        SELECT DISTINCT selected_date
+        FROM shares
+        WHERE sender_id = user_id_param
+          AND is_daily_song = true
+          AND selected_date IS NOT NULL
+        ORDER BY selected_date DESC
+    LOOP
+        IF rec.selected_date = current_date_check THEN
+            streak_count := streak_count + 1;
+            current_date_check := current_date_check - 1;
+        ELSIF rec.selected_date < current_date_check THEN
+            -- Gap found, stop counting
+            EXIT;
+        END IF;
+    END LOOP;
+
+    RETURN streak_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only used to backfill streaks; it needs user_local_date, which clients can't call
+REVOKE EXECUTE ON FUNCTION calculate_user_streak(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 5. SWAPS AT LOCAL MIDNIGHT
+-- ============================================
+
+-- Future swaps take effect at the user's next local midnight, whatever the client sent
+CREATE OR REPLACE FUNCTION set_scheduled_swap_local_midnight()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.scheduled_for > NOW()
+       AND EXISTS (SELECT 1 FROM users WHERE id = NEW.user_id AND timezone IS NOT NULL) THEN
+        NEW.scheduled_for := next_local_midnight(NEW.user_id, NOW());
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_scheduled_swap_local_midnight ON scheduled_swaps;
+CREATE TRIGGER set_scheduled_swap_local_midnight
+    BEFORE INSERT ON scheduled_swaps
+    FOR EACH ROW EXECUTE FUNCTION set_scheduled_swap_local_midnight();
+
+-- Timezones with swaps due now, for process-scheduled-swaps to work through in batches
+CREATE OR REPLACE FUNCTION due_scheduled_swap_timezones()
+RETURNS TABLE (timezone TEXT, due_count BIGINT)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT COALESCE(u.timezone, 'UTC') AS timezone, COUNT(*) AS due_count
+  FROM scheduled_swaps s
+  JOIN users u ON u.id = s.user_id
+  WHERE s.status = 'pending'
+    AND s.scheduled_for <= NOW()
+  GROUP BY COALESCE(u.timezone, 'UTC')
+  ORDER BY MIN(s.scheduled_for);
+$$;
+
+-- Process due swaps, optionally only for users in the given timezones.
+-- Phlocks live on follows (is_in_phlock / phlock_position) since the move to the
+-- follow model; the previous version still looked at friendships.
+DROP FUNCTION IF EXISTS process_scheduled_swaps();
+
+CREATE OR REPLACE FUNCTION process_scheduled_swaps(p_timezones TEXT[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  swap_record RECORD;
+  processed_count INTEGER := 0;
+  old_follow_id UUID;
+  new_follow_id UUID;
+  old_position INTEGER;
+BEGIN
+  FOR swap_record IN
+    SELECT s.*
+    FROM scheduled_swaps s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.status = 'pending'
+      AND s.scheduled_for <= NOW()
+      AND (p_timezones IS NULL OR COALESCE(u.timezone, 'UTC') = ANY(p_timezones))
+    ORDER BY s.scheduled_for
+  LOOP
+    BEGIN
+      -- 1. Find the OLD member's follow to get their position
+      SELECT id, phlock_position INTO old_follow_id, old_position
+      FROM follows
+      WHERE follower_id = swap_record.user_id
+        AND following_id = swap_record.old_member_id
+        AND is_in_phlock = true;
+
+      IF old_follow_id IS NULL THEN
+        RAISE EXCEPTION 'Old member not found in phlock';
+      END IF;
+
+      -- 2. For a swap, the user must still follow the NEW member
+      new_follow_id := NULL;
+      IF swap_record.new_member_id IS NOT NULL THEN
+        SELECT id INTO new_follow_id
+        FROM follows
+        WHERE follower_id = swap_record.user_id
+          AND following_id = swap_record.new_member_id;
+
+        IF new_follow_id IS NULL THEN
+          RAISE EXCEPTION 'Not following new member';
+        END IF;
+      END IF;
+
+      -- 3. Remove OLD member from phlock
+      UPDATE follows
+      SET is_in_phlock = false, phlock_position = NULL, phlock_added_at = NULL
+      WHERE id = old_follow_id;
+
+      -- 4. Add NEW member at the same position (pure removals stop here)
+      IF new_follow_id IS NOT NULL THEN
+        UPDATE follows
+        SET is_in_phlock = true, phlock_position = old_position, phlock_added_at = NOW()
+        WHERE id = new_follow_id;
+      END IF;
+
+      -- 5. Mark swap/removal as completed
+      UPDATE scheduled_swaps
+      SET status = 'completed', updated_at = NOW()
+      WHERE id = swap_record.id;
+
+      processed_count := processed_count + 1;
+
+    EXCEPTION WHEN OTHERS THEN
+      -- The block's changes are rolled back; record why
+      UPDATE scheduled_swaps
+      SET status = 'failed', error_message = SQLERRM, updated_at = NOW()
+      WHERE id = swap_record.id;
+    END;
+  END LOOP;
+
+  RETURN processed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only process-scheduled-swaps (service role) runs swaps
+REVOKE EXECUTE ON FUNCTION process_scheduled_swaps(TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION due_scheduled_swap_timezones() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,231 @@
+-- Migration: Harden scheduled swap processing
+-- process_scheduled_swaps now reports an outcome per swap (completed/failed with
+-- error_message) and supports a dry run that reports what would happen without
+-- changing anything. Concurrent runs can't process the same user's swaps twice:
+-- each user's due swaps are handled under a per-user advisory lock. When several
+-- pending swaps target the same phlock slot (old member), the latest one wins and
+-- the others fail as conflicts. A completed swap notifies its user
+-- ('phlock_swap_completed'); process-scheduled-swaps sends the push.
+
+-- ============================================
+-- 1. NOTIFICATION TYPE
+-- ============================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (
+    type IN (
+        'friend_request_accepted',
+        'daily_nudge',
+        'new_follower',
+        'follow_request_received',
+        'follow_request_accepted',
+        'friend_joined',
+        'phlock_song_ready',
+        'song_played',
+        'song_saved',
+        'streak_milestone',
+        'share_liked',
+        'share_commented',
+        'comment_liked',
+        'phlock_swap_completed'
+    )
+);
+
+-- ============================================
+-- 2. PROCESSOR
+-- ============================================
+
+DROP FUNCTION IF EXISTS process_scheduled_swaps(TEXT[]);
+
+CREATE OR REPLACE FUNCTION process_scheduled_swaps(
+    p_timezones TEXT[] DEFAULT NULL,
+    p_dry_run BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    swap_id UUID,
+    user_id UUID,
+    old_member_id UUID,
+    new_member_id UUID,
+    status TEXT,
+    error_message TEXT,
+    message TEXT,
+    notification_id UUID
+) AS $$
+#variable_conflict use_column
+DECLARE
+  user_record RECORD;
+  swap_record RECORD;
+  outcomes JSONB := '[]'::jsonb;
+  v_conflict_id UUID;
+  v_old_follow_id UUID;
+  v_old_position INTEGER;
+  v_new_follow_id UUID;
+  v_new_in_phlock BOOLEAN;
+  v_old_name TEXT;
+  v_new_name TEXT;
+  v_message TEXT;
+  v_notification_id UUID;
+BEGIN
+  BEGIN
+    FOR user_record IN
+      SELECT DISTINCT s.user_id
+      FROM scheduled_swaps s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.status = 'pending'
+        AND s.scheduled_for <= NOW()
+        AND (p_timezones IS NULL OR COALESCE(u.timezone, 'UTC') = ANY(p_timezones))
+    LOOP
+      -- Another run holds this user: it handles all of their due swaps
+      IF NOT pg_try_advisory_xact_lock(hashtextextended('scheduled_swaps:' || user_record.user_id::text, 0)) THEN
+        CONTINUE;
+      END IF;
+
+      -- Re-read under the lock so swaps a finished run completed are skipped
+      FOR swap_record IN
+        SELECT *
+        FROM scheduled_swaps s
+        WHERE s.user_id = user_record.user_id
+          AND s.status = 'pending'
+          AND s.scheduled_for <= NOW()
+        ORDER BY s.scheduled_for, s.created_at
+        FOR UPDATE
+      LOOP
+        BEGIN
+          -- 1. A later swap for the same slot supersedes this one
+          SELECT id INTO v_conflict_id
+          FROM scheduled_swaps s
+          WHERE s.user_id = swap_record.user_id
+            AND s.old_member_id = swap_record.old_member_id
+            AND s.status = 'pending'
+            AND s.id <> swap_record.id
+            AND (s.created_at, s.id) > (swap_record.created_at, swap_record.id)
+          LIMIT 1;
+
+          IF v_conflict_id IS NOT NULL THEN
+            RAISE EXCEPTION 'Conflicts with later swap % for the same phlock member', v_conflict_id;
+          END IF;
+
+          -- 2. The OLD member must still be in the phlock
+          SELECT id, phlock_position INTO v_old_follow_id, v_old_position
+          FROM follows
+          WHERE follower_id = swap_record.user_id
+            AND following_id = swap_record.old_member_id
+            AND is_in_phlock = true;
+
+          IF v_old_follow_id IS NULL THEN
+            RAISE EXCEPTION 'Old member not found in phlock';
+          END IF;
+
+          -- 3. For a swap, the user must follow the NEW member, who isn't in the phlock yet
+          v_new_follow_id := NULL;
+          IF swap_record.new_member_id IS NOT NULL THEN
+            SELECT id, COALESCE(is_in_phlock, false) INTO v_new_follow_id, v_new_in_phlock
+            FROM follows
+            WHERE follower_id = swap_record.user_id
+              AND following_id = swap_record.new_member_id;
+
+            IF v_new_follow_id IS NULL THEN
+              RAISE EXCEPTION 'Not following new member';
+            END IF;
+            IF v_new_in_phlock THEN
+              RAISE EXCEPTION 'New member is already in the phlock';
+            END IF;
+          END IF;
+
+          -- 4. Remove OLD member, add NEW member at the same position
+          UPDATE follows
+          SET is_in_phlock = false, phlock_position = NULL, phlock_added_at = NULL
+          WHERE id = v_old_follow_id;
+
+          IF v_new_follow_id IS NOT NULL THEN
+            UPDATE follows
+            SET is_in_phlock = true, phlock_position = v_old_position, phlock_added_at = NOW()
+            WHERE id = v_new_follow_id;
+          END IF;
+
+          -- 5. Tell the user
+          SELECT COALESCE('@' || username, display_name, 'someone') INTO v_old_name
+          FROM users WHERE id = swap_record.old_member_id;
+
+          IF swap_record.new_member_id IS NOT NULL THEN
+            SELECT COALESCE('@' || username, display_name, 'someone') INTO v_new_name
+            FROM users WHERE id = swap_record.new_member_id;
+            v_message := format('%s took %s''s spot in your phlock', v_new_name, v_old_name);
+          ELSE
+            v_message := format('%s left your phlock', v_old_name);
+          END IF;
+
+          INSERT INTO notifications (user_id, actor_user_id, type, message, metadata)
+          VALUES (
+            swap_record.user_id,
+            COALESCE(swap_record.new_member_id, swap_record.old_member_id),
+            'phlock_swap_completed',
+            v_message,
+            jsonb_build_object(
+              'swap_id', swap_record.id,
+              'old_member_id', swap_record.old_member_id,
+              'new_member_id', swap_record.new_member_id
+            )
+          )
+          RETURNING id INTO v_notification_id;
+
+          UPDATE scheduled_swaps
+          SET status = 'completed', error_message = NULL, updated_at = NOW()
+          WHERE id = swap_record.id;
+
+          outcomes := outcomes || jsonb_build_object(
+            'swap_id', swap_record.id,
+            'user_id', swap_record.user_id,
+            'old_member_id', swap_record.old_member_id,
+            'new_member_id', swap_record.new_member_id,
+            'status', 'completed',
+            'message', v_message,
+            'notification_id', v_notification_id
+          );
+
+        EXCEPTION WHEN OTHERS THEN
+          -- The block's changes are rolled back; record why
+          UPDATE scheduled_swaps
+          SET status = 'failed', error_message = SQLERRM, updated_at = NOW()
+          WHERE id = swap_record.id;
+
+          outcomes := outcomes || jsonb_build_object(
+            'swap_id', swap_record.id,
+            'user_id', swap_record.user_id,
+            'old_member_id', swap_record.old_member_id,
+            'new_member_id', swap_record.new_member_id,
+            'status', 'failed',
+            'error_message', SQLERRM
+          );
+        END;
+      END LOOP;
+    END LOOP;
+
+    -- A dry run does all of the above, reports it, then rolls it back
+    IF p_dry_run THEN
+      RAISE EXCEPTION USING ERRCODE = 'PHDRY', MESSAGE = 'Dry run';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'PHDRY' THEN
+    NULL;
+  END;
+
+  RETURN QUERY
+  SELECT
+    (o->>'swap_id')::uuid,
+    (o->>'user_id')::uuid,
+    (o->>'old_member_id')::uuid,
+    (o->>'new_member_id')::uuid,
+    o->>'status',
+    o->>'error_message',
+    o->>'message',
+    CASE WHEN p_dry_run THEN NULL ELSE (o->>'notification_id')::uuid END
+  FROM jsonb_array_elements(outcomes) o;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only process-scheduled-swaps (service role) runs swaps
+REVOKE EXECUTE ON FUNCTION process_scheduled_swaps(TEXT[], BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION due_scheduled_swap_timezones() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION process_scheduled_swaps IS 'Applies due phlock swaps/removals (optionally only for users in p_timezones) and returns each outcome; p_dry_run reports without applying';
@@ -0,0 +1,40 @@
+-- Migration: Create daily nudges
+-- A scheduled reminder to pick today's song, sent by the send-daily-nudges job to
+-- users who haven't picked for their local date. Users choose when it arrives
+-- (nudge_time, local) and can set quiet hours when it never does. daily_nudges
+-- records one nudge per user per local date; the job claims a row before sending,
+-- so overlapping runs can't nudge anyone twice.
+
+-- Per-user preferences, in the user's local time (users.timezone)
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS daily_nudge_enabled BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS nudge_time TIME NOT NULL DEFAULT '19:00',
+ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+ADD COLUMN IF NOT EXISTS quiet_hours_end TIME;
+
+COMMENT ON COLUMN users.nudge_time IS 'Local time after which the daily nudge may be sent';
+COMMENT ON COLUMN users.quiet_hours_start IS 'Start of the local window with no nudges; may wrap past midnight';
+
+-- One row per nudge sent
+CREATE TABLE IF NOT EXISTS daily_nudges (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    local_date DATE NOT NULL,
+    notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+    sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, local_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_users_daily_nudge_enabled ON users(id) WHERE daily_nudge_enabled = true;
+
+-- Enable RLS
+ALTER TABLE daily_nudges ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Users can see their own nudge history; the job writes with the service role
+DROP POLICY IF EXISTS "Users can view their own daily nudges" ON daily_nudges;
+CREATE POLICY "Users can view their own daily nudges"
+ON daily_nudges FOR SELECT
+TO authenticated
+USING (user_id = get_current_user_id());
+
+COMMENT ON TABLE daily_nudges IS 'Scheduled daily-song reminders sent, at most one per user per local date';
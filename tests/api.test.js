@@ -44,27 +44,709 @@ function validateTrackRequest(body) {
 }
 
 /**
- * Parses artist name to extract all artists (handles featured artists)
+ * Normalizes a requested region to a Spotify market / Apple storefront pair
+ * Source: supabase/functions/_shared/region.ts
+ */
+const DEFAULT_REGION = 'US';
+
+function normalizeRegion(value) {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const code = value.trim().toUpperCase();
+  return /^[A-Z]{2}$/.test(code) ? code : null;
+}
+
+function regionFor(requested, profileRegion) {
+  const code = normalizeRegion(requested) || normalizeRegion(profileRegion) || DEFAULT_REGION;
+  return { market: code, storefront: code.toLowerCase() };
+}
+
+/**
+ * Opaque pagination cursor and ISRC dedupe for unified search
+ * Source: supabase/functions/search-tracks/index.ts
+ */
+function encodeCursor(offset) {
+  return btoa(JSON.stringify({ offset }));
+}
+
+function decodeCursor(cursor) {
+  try {
+    const { offset } = JSON.parse(atob(cursor));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+}
+
+function dedupeByIsrc(tracks) {
+  const seen = new Set();
+  return tracks.filter(track => {
+    if (!track.isrc) return true;
+    if (seen.has(track.isrc)) return false;
+    seen.add(track.isrc);
+    return true;
+  });
+}
+
+/**
+ * Artist ID parsing and genre merging for merged artist profiles
+ * Source: supabase/functions/get-artist-profile/index.ts
+ */
+function parseArtistId(artistId, platform) {
+  const [prefix, rest] = artistId.split(':', 2);
+  if (rest && prefix === 'spotify') return { id: rest, platform: 'spotify' };
+  if (rest && prefix === 'apple') return { id: rest, platform: 'apple_music' };
+  return { id: artistId, platform: platform || (/^\d+$/.test(artistId) ? 'apple_music' : 'spotify') };
+}
+
+function mergeGenres(...lists) {
+  const seen = new Set();
+  const genres = [];
+  for (const genre of lists.flat()) {
+    const key = genre.toLowerCase();
+    if (key === 'music' || seen.has(key)) continue;
+    seen.add(key);
+    genres.push(genre);
+  }
+  return genres;
+}
+
+/**
+ * Per-source filters, ordering and caps for discovery feeds
+ * Source: supabase/functions/_shared/discovery-sources.ts
+ */
+function applySourceRules(source, tracks) {
+  const filters = source.filters || {};
+  const excludedAlbums = new Set((filters.excludeAlbums || []).map(name => name.toLowerCase()));
+  const excludedArtists = new Set((filters.excludeArtists || []).map(name => name.toLowerCase()));
+
+  const kept = tracks.filter(track => {
+    if (!track.albumArtUrl) return false;
+    if (track.albumName && excludedAlbums.has(track.albumName.toLowerCase())) return false;
+    if (excludedArtists.has(track.artistName.toLowerCase())) return false;
+    if (filters.requirePreview && !track.previewUrl) return false;
+    if (filters.playableOnly && !track.isPlayable) return false;
+    return true;
+  });
+
+  if (source.ordering === 'popularity') {
+    kept.sort((a, b) => (b.popularity ?? -1) - (a.popularity ?? -1));
+  } else if (source.ordering === 'release_date') {
+    kept.sort((a, b) => (b.releaseDate || '').localeCompare(a.releaseDate || ''));
+  }
+
+  const perArtist = new Map();
+  const capped = filters.maxPerArtist
+    ? kept.filter(track => {
+      const count = perArtist.get(track.artistName) || 0;
+      perArtist.set(track.artistName, count + 1);
+      return count < filters.maxPerArtist;
+    })
+    : kept;
+
+  return source.max_tracks ? capped.slice(0, source.max_tracks) : capped;
+}
+
+/**
+ * Trending from rank velocity between two chart snapshots
+ * Source: supabase/functions/_shared/chart-snapshots.ts
+ */
+function computeTrending(current, baseline) {
+  if (!baseline) {
+    return current.map(entry => ({ ...entry, previousRank: null, rankDelta: null, isNewEntry: false }));
+  }
+
+  const previousRanks = new Map(baseline.map(entry => [entry.key, entry.rank]));
+  const offChart = Math.max(baseline.length, current.length) + 1;
+
+  const scored = current.map(entry => {
+    const previousRank = previousRanks.get(entry.key) ?? null;
+    return {
+      ...entry,
+      previousRank,
+      rankDelta: previousRank === null ? null : previousRank - entry.rank,
+      isNewEntry: previousRank === null,
+      velocity: (previousRank ?? offChart) - entry.rank,
+    };
+  });
+
+  const rising = scored.filter(entry => entry.velocity > 0);
+  const rest = scored.filter(entry => entry.velocity <= 0);
+  rising.sort((a, b) => b.velocity - a.velocity || a.rank - b.rank);
+
+  return [...rising, ...rest].map(({ velocity, ...entry }) => entry);
+}
+
+/**
+ * Rank cursors used to page the genre catalog
+ * Source: supabase/functions/_shared/genre-catalog.ts
+ */
+function encodeRankCursor(rank) {
+  return btoa(JSON.stringify({ rank }));
+}
+
+function decodeRankCursor(cursor) {
+  try {
+    const { rank } = JSON.parse(atob(cursor));
+    return Number.isInteger(rank) && rank >= 0 ? rank : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ranks genre search results by popularity with a per-artist cap
+ * Source: supabase/functions/_shared/genre-catalog.ts
+ */
+function rankGenreTracks(found, maxPerArtist = 2, maxTracks = 50) {
+  const unique = new Map();
+  for (const track of found) {
+    if (track?.album?.images?.length && !unique.has(track.id)) unique.set(track.id, track);
+  }
+
+  const perArtist = new Map();
+  return [...unique.values()]
+    .sort((a, b) => (b.popularity || 0) - (a.popularity || 0) || a.id.localeCompare(b.id))
+    .filter(track => {
+      const artistId = track.artists[0]?.id ?? track.id;
+      const count = perArtist.get(artistId) ?? 0;
+      perArtist.set(artistId, count + 1);
+      return count < maxPerArtist;
+    })
+    .slice(0, maxTracks)
+    .map((track, index) => ({ track_id: track.id, rank: index + 1, artist_id: track.artists[0]?.id ?? null }));
+}
+
+/**
+ * Folds singles into same-window albums and cross-platform duplicates
+ * Source: supabase/functions/_shared/new-releases.ts
+ */
+function releaseTitleKey(title) {
+  return [normalizeTitle(title), ...[...versionTags(title)].sort()].join('|');
+}
+
+function dedupeReleases(releases, albumTrackTitles, platform) {
+  const albumTitlesByArtist = new Map();
+  for (const release of releases) {
+    const titles = albumTrackTitles.get(release.id);
+    if (!titles) continue;
+    const artistKey = normalizeArtist(release.artistName);
+    const set = albumTitlesByArtist.get(artistKey) ?? new Set();
+    titles.forEach(title => set.add(releaseTitleKey(title)));
+    albumTitlesByArtist.set(artistKey, set);
+  }
+
+  const seen = new Set();
+  return [...releases]
+    .sort((a, b) =>
+      b.releaseDate.localeCompare(a.releaseDate) ||
+      Number(b.platform === platform) - Number(a.platform === platform)
+    )
+    .filter(release => {
+      const artistKey = normalizeArtist(release.artistName);
+      const title = releaseTitleKey(release.name);
+      if (release.type === 'single' && albumTitlesByArtist.get(artistKey)?.has(title)) return false;
+
+      const key = `${artistKey}|${title}|${release.type}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Applies due-but-unprocessed swaps to a phlock's members
+ * Source: supabase/functions/_shared/daily-playlist.ts
+ */
+function applyPendingSwaps(members, swaps) {
+  const slots = [...members];
+  const ordered = [...swaps].sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for));
+
+  for (const swap of ordered) {
+    const index = slots.findIndex(slot => slot.userId === swap.old_member_id);
+    if (index === -1) continue;
+
+    const [removed] = slots.splice(index, 1);
+    if (swap.new_member_id && !slots.some(slot => slot.userId === swap.new_member_id)) {
+      slots.push({ userId: swap.new_member_id, position: removed.position, swappedIn: true });
+    }
+  }
+
+  return slots.sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity));
+}
+
+/**
+ * Whether a stored platform token was granted every required scope
+ * Source: supabase/functions/_shared/platform-tokens.ts
+ */
+function hasScopes(token, required) {
+  const granted = new Set((token.scope ?? '').split(/\s+/).filter(Boolean));
+  return required.every((scope) => granted.has(scope));
+}
+
+/**
+ * Whether a stored token is within the refresh buffer of expiring
+ * Source: supabase/functions/_shared/platform-tokens.ts
+ */
+const REFRESH_BUFFER_MS = 5 * 60 * 1000;
+
+function needsRefresh(token, now = Date.now()) {
+  return Date.parse(token.token_expires_at) - now < REFRESH_BUFFER_MS;
+}
+
+/**
+ * When the token sweep may retry a token after consecutive refresh failures
+ * Source: supabase/functions/_shared/platform-tokens.ts
+ */
+const MAX_RETRY_DELAY_MS = 24 * 60 * 60 * 1000;
+
+function refreshRetryAt(failures, now = Date.now()) {
+  const delay = Math.min(2 ** failures * 60 * 1000, MAX_RETRY_DELAY_MS);
+  return new Date(now + delay).toISOString();
+}
+
+/**
+ * Cross-platform key for an artist credit: its first listed artist, normalized
+ * Source: supabase/functions/_shared/taste-profile.ts
+ */
+function primaryArtistKey(artistName) {
+  const [first] = parseArtists(artistName.split(',')[0]);
+  return normalizeArtist(first ?? artistName);
+}
+
+/**
+ * Scores other users' daily songs against an imported taste profile
+ * Source: supabase/functions/_shared/taste-profile.ts
+ */
+const TRACK_MATCH_WEIGHT = 2;
+
+function rankOverlappingUsers(profile, shares) {
+  const round = (value) => Math.round(value * 1000) / 1000;
+  const artistWeights = new Map(profile.artists.map((artist) => [artist.key, artist]));
+  const trackWeights = new Map(profile.tracks.map((track) => [track.id, track]));
+  const byUser = new Map();
+
+  for (const share of shares) {
+    const artist = artistWeights.get(primaryArtistKey(share.artist_name));
+    const track = trackWeights.get(share.track_id);
+    if (!artist && !track) continue;
+
+    const entry = byUser.get(share.sender_id) ?? { artists: new Map(), tracks: new Map() };
+    if (artist) entry.artists.set(artist.key, artist);
+    if (track) entry.tracks.set(track.id, track);
+    byUser.set(share.sender_id, entry);
+  }
+
+  return [...byUser.entries()]
+    .map(([userId, { artists, tracks }]) => {
+      const sharedArtists = [...artists.values()].sort((a, b) => b.weight - a.weight);
+      const sharedTracks = [...tracks.values()].sort((a, b) => b.weight - a.weight);
+      const score = sharedArtists.reduce((sum, artist) => sum + artist.weight, 0) +
+        TRACK_MATCH_WEIGHT * sharedTracks.reduce((sum, track) => sum + track.weight, 0);
+      return {
+        userId,
+        score: round(score),
+        sharedArtists: sharedArtists.map((artist) => artist.name),
+        sharedTracks: sharedTracks.map((track) => track.name),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pairwise taste-compatibility score and explanation from two share histories
+ * Source: supabase/functions/_shared/taste-compatibility.ts
+ */
+const COMPATIBILITY_WEIGHTS = { artists: 0.4, tracks: 0.2, genres: 0.25, saves: 0.15 };
+const SAVE_SATURATION = 5;
+
+function cosine(a, b) {
+  let dot = 0;
+  for (const [key, value] of a) dot += value * (b.get(key) ?? 0);
+  if (dot === 0) return 0;
+
+  const norm = (map) => Math.sqrt([...map.values()].reduce((sum, value) => sum + value * value, 0));
+  return dot / (norm(a) * norm(b));
+}
+
+function computeCompatibility(a, b) {
+  const W = COMPATIBILITY_WEIGHTS;
+  const round = (value) => Math.round(value * 1000) / 1000;
+  const counts = (history) => new Map([...history.artists.entries()].map(([key, artist]) => [key, artist.count]));
+
+  const commonTracks = [...a.tracks.keys()].filter((key) => b.tracks.has(key));
+  const smallerTrackSet = Math.min(a.tracks.size, b.tracks.size);
+  const aSavedB = [...a.savedShareIds].filter((id) => b.shareIds.has(id)).length;
+  const bSavedA = [...b.savedShareIds].filter((id) => a.shareIds.has(id)).length;
+
+  const components = {
+    artists: round(cosine(counts(a), counts(b))),
+    tracks: round(smallerTrackSet > 0 ? commonTracks.length / smallerTrackSet : 0),
+    genres: round(cosine(a.genres, b.genres)),
+    saves: round(Math.min(1, (aSavedB + bSavedA) / SAVE_SATURATION)),
+  };
+
+  const score = Math.round(100 * (
+    W.artists * components.artists + W.tracks * components.tracks +
+    W.genres * components.genres + W.saves * components.saves
+  ));
+
+  const reasons = [];
+  const commonArtists = [...a.artists.entries()]
+    .filter(([key]) => b.artists.has(key))
+    .map(([key, artist]) => ({ name: artist.name, total: artist.count + b.artists.get(key).count }))
+    .sort((x, y) => y.total - x.total);
+  for (const artist of commonArtists.slice(0, 2)) {
+    reasons.push({
+      text: `You both picked ${artist.total} ${artist.name} songs`,
+      strength: W.artists * components.artists * (artist.total / (commonArtists[0].total || 1)),
+    });
+  }
+
+  if (commonTracks.length === 1) {
+    reasons.push({ text: `You both picked "${a.tracks.get(commonTracks[0])}"`, strength: W.tracks * components.tracks });
+  } else if (commonTracks.length > 1) {
+    reasons.push({ text: `You've picked ${commonTracks.length} of the same songs`, strength: W.tracks * components.tracks });
+  }
+
+  const sharedGenres = [...a.genres.keys()]
+    .filter((genre) => b.genres.has(genre))
+    .sort((x, y) => Math.min(b.genres.get(y), a.genres.get(y)) - Math.min(b.genres.get(x), a.genres.get(x)));
+  if (sharedGenres.length > 0) {
+    reasons.push({ text: `You both lean towards ${sharedGenres.slice(0, 2).join(' and ')}`, strength: W.genres * components.genres });
+  }
+
+  if (aSavedB > 0 && bSavedA > 0) {
+    reasons.push({ text: `You've saved each other's picks ${aSavedB + bSavedA} times`, strength: W.saves * components.saves });
+  } else if (aSavedB + bSavedA > 0) {
+    reasons.push({ text: `One of you has saved ${aSavedB + bSavedA} of the other's picks`, strength: W.saves * components.saves });
+  }
+
+  return {
+    score,
+    components,
+    explanation: reasons.sort((x, y) => y.strength - x.strength).slice(0, 4).map((reason) => reason.text),
+  };
+}
+
+/**
+ * Phlock suggestion score (0-100) and reasons from a candidate's signals
+ * Source: supabase/functions/_shared/phlock-recommendations.ts
+ */
+const ACTIVITY_WINDOW_DAYS = 14;
+
+function scoreRecommendation(signals) {
+  const parts = [];
+
+  if (signals.inYourContacts) parts.push({ points: 20, reason: 'In your contacts' });
+  else if (signals.hasYouInContacts) parts.push({ points: 8, reason: null });
+
+  if (signals.youFollow && signals.followsYou) parts.push({ points: 20, reason: 'You follow each other' });
+  else if (signals.followsYou) parts.push({ points: 10, reason: 'Follows you' });
+  else if (signals.youFollow) parts.push({ points: 12, reason: null });
+
+  if (signals.mutualFollows > 0) {
+    parts.push({
+      points: 12 * Math.min(1, signals.mutualFollows / 5),
+      reason: `Followed by ${signals.mutualFollows} ${signals.mutualFollows === 1 ? 'person' : 'people'} you follow`,
+    });
+  }
+  if (signals.inFollowingPhlocks > 0) {
+    parts.push({
+      points: 10 * Math.min(1, signals.inFollowingPhlocks / 3),
+      reason: `In ${signals.inFollowingPhlocks} ${signals.inFollowingPhlocks === 1 ? 'phlock' : 'phlocks'} of people you follow`,
+    });
+  }
+
+  if (signals.compatibility) {
+    parts.push({
+      points: 0.3 * signals.compatibility.score,
+      reason: signals.compatibility.score > 0
+        ? signals.compatibility.explanation[0] ?? `${signals.compatibility.score}% taste match`
+        : null,
+    });
+  } else if (signals.sharedArtists.length > 0) {
+    parts.push({
+      points: 10 * Math.min(1, signals.sharedArtists.length / 3),
+      reason: `You both pick ${signals.sharedArtists.slice(0, 2).join(' and ')}`,
+    });
+  }
+
+  if (signals.streak >= 3) {
+    parts.push({ points: 8 * Math.min(1, signals.streak / ACTIVITY_WINDOW_DAYS), reason: `${signals.streak}-day streak` });
+  }
+  parts.push({
+    points: 10 * (signals.activeDays / ACTIVITY_WINDOW_DAYS),
+    reason: signals.activeDays >= ACTIVITY_WINDOW_DAYS / 2
+      ? `Picked a song ${signals.activeDays} of the last ${ACTIVITY_WINDOW_DAYS} days`
+      : null,
+  });
+
+  if (signals.phlockCount > 0) {
+    parts.push({
+      points: 5 * Math.min(1, Math.log1p(signals.phlockCount) / Math.log1p(50)),
+      reason: signals.phlockCount >= 5 ? `In ${signals.phlockCount} phlocks` : null,
+    });
+  }
+
+  const total = parts.reduce((sum, part) => sum + part.points, 0);
+  return {
+    score: Math.round(Math.min(100, signals.activeDays === 0 ? total / 2 : total)),
+    reasons: parts
+      .filter((part) => part.reason && part.points > 0)
+      .sort((a, b) => b.points - a.points)
+      .map((part) => part.reason),
+  };
+}
+
+/**
+ * Local dates and the instant local midnight starts a date, for users.timezone
+ * Source: supabase/functions/_shared/timezone.ts
+ */
+function wallClock(timeZone, at) {
+  const parts = {};
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+  for (const part of format.formatToParts(at)) parts[part.type] = part.value;
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+function offsetMs(timeZone, at) {
+  const local = wallClock(timeZone, new Date(at));
+  const asUtc = Date.parse(`${local.date}T00:00:00Z`) + ((local.hour * 60 + local.minute) * 60 + local.second) * 1000;
+  return asUtc - Math.floor(at / 1000) * 1000;
+}
+
+function localDate(timeZone, at = new Date()) {
+  return wallClock(timeZone || 'UTC', at).date;
+}
+
+function localMidnight(date, timeZone) {
+  const zone = timeZone || 'UTC';
+  const naive = Date.parse(`${date}T00:00:00Z`);
+  let instant = naive - offsetMs(zone, naive);
+  const corrected = naive - offsetMs(zone, instant);
+  if (corrected !== instant) instant = corrected;
+  return new Date(instant).toISOString();
+}
+
+/**
+ * Whether the daily nudge may go out: after the nudge time (or the end of the quiet
+ * hours it falls in), outside quiet hours
+ * Source: supabase/functions/send-daily-nudges/index.ts
+ */
+function toMinutes(time) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isNudgeDue(prefs, now) {
+  let due = toMinutes(prefs.nudgeTime);
+  if (prefs.quietStart && prefs.quietEnd && prefs.quietStart !== prefs.quietEnd) {
+    const start = toMinutes(prefs.quietStart);
+    const end = toMinutes(prefs.quietEnd);
+    const isQuiet = (minutes) =>
+      start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+
+    if (isQuiet(now)) return false;
+    if (isQuiet(due)) due = end;
+  }
+  return now >= due;
+}
+
+/**
+ * Detects batch payloads (an array or { tracks: [...] }) and enforces the size limit
  * Source: supabase/functions/validate-track/index.ts
  */
+const MAX_BATCH_SIZE = 50;
+
+function parseBatch(payload) {
+  const batch = Array.isArray(payload)
+    ? payload
+    : Array.isArray(payload?.tracks) ? payload.tracks : null;
+
+  if (!batch) {
+    return { isBatch: false };
+  }
+  if (batch.length === 0 || batch.length > MAX_BATCH_SIZE) {
+    return { isBatch: true, valid: false, error: `Batch must contain between 1 and ${MAX_BATCH_SIZE} tracks` };
+  }
+  return { isBatch: true, valid: true, items: batch };
+}
+
+/**
+ * Maps with at most `limit` calls in flight, keeping input order
+ * Source: supabase/functions/_shared/concurrency.ts
+ */
+async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Parses artist name to extract all artists (handles featured artists)
+ * Source: supabase/functions/_shared/matching.ts
+ */
 function parseArtists(artistName) {
   const delimiters = /\s+(?:ft\.?|feat\.?|featuring|&|,|\|)\s+/gi;
   return artistName.split(delimiters).map(a => a.trim().toLowerCase());
 }
 
+/**
+ * Confidence-scored track matching
+ * Source: supabase/functions/_shared/matching.ts
+ */
+const MATCH_THRESHOLD = 0.6;
+const WEIGHTS = { title: 0.4, artists: 0.3, duration: 0.1, isrc: 0.2 };
+const VERSION_TAGS = [
+  ['live', /\blive\b/],
+  ['remix', /\bremix(?:ed)?\b|\brmx\b/],
+  ['acoustic', /\bacoustic\b/],
+  ['instrumental', /\binstrumental\b/],
+  ['sped up', /\bsped up\b|\bspeed up\b/],
+  ['slowed', /\bslowed\b/],
+  ['radio edit', /\bradio (?:edit|version|mix)\b/],
+  ['extended', /\bextended\b/],
+  ['demo', /\bdemo\b/],
+  ['karaoke', /\bkaraoke\b/],
+  ['remaster', /\bremaster(?:ed)?\b/],
+];
+const MINOR_VERSION_TAGS = new Set(['remaster']);
+
+function foldText(text) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeTitle(title) {
+  const base = title
+    .replace(/\s*[([][^)\]]*[)\]]/g, '')
+    .replace(/\s+-\s+.*$/, '')
+    .replace(/\s+(?:feat\.?|ft\.?|featuring|with)\s+.*$/i, '');
+  return foldText(base) || foldText(title);
+}
+
+function versionTags(title) {
+  const suffixes = [...title.matchAll(/[([]([^)\]]*)[)\]]/g)].map(m => m[1]);
+  const dashIndex = title.indexOf(' - ');
+  if (dashIndex !== -1) suffixes.push(title.slice(dashIndex + 3));
+
+  const tags = new Set();
+  for (const suffix of suffixes) {
+    for (const [tag, pattern] of VERSION_TAGS) {
+      if (pattern.test(foldText(suffix))) tags.add(tag);
+    }
+  }
+  return tags;
+}
+
+function normalizeArtist(name) {
+  return foldText(name).replace(/^the /, '');
+}
+
+function splitArtistCredits(artistName) {
+  return artistName
+    .split(/\s+(?:ft\.?|feat\.?|featuring|&|x|with|\|)\s+|\s*,\s*/gi)
+    .map(normalizeArtist)
+    .filter(a => a.length > 0);
+}
+
+function levenshtein(a, b) {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function stringSimilarity(a, b) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const editSimilarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  const tokensA = new Set(a.split(' '));
+  const tokensB = new Set(b.split(' '));
+  const shared = [...tokensA].filter(t => tokensB.has(t)).length;
+  return Math.max(editSimilarity, shared / Math.max(tokensA.size, tokensB.size));
+}
+
+function scoreCandidate(query, candidate) {
+  let title = stringSimilarity(normalizeTitle(query.title), normalizeTitle(candidate.title));
+  const queryTags = versionTags(query.title);
+  const candidateTags = versionTags(candidate.title);
+  const differing = [...queryTags, ...candidateTags].filter(t => queryTags.has(t) !== candidateTags.has(t));
+  if (differing.some(t => !MINOR_VERSION_TAGS.has(t))) title *= 0.7;
+  else if (differing.length > 0) title *= 0.95;
+
+  const expected = splitArtistCredits(query.artist);
+  const actual = candidate.artists.flatMap(splitArtistCredits);
+  const best = expected.map(e => Math.max(...actual.map(a => stringSimilarity(e, a))));
+  const artists = best.length === 1
+    ? best[0]
+    : 0.7 * best[0] + 0.3 * best.slice(1).reduce((sum, s) => sum + s, 0) / (best.length - 1);
+
+  let weighted = WEIGHTS.title * title + WEIGHTS.artists * artists;
+  let totalWeight = WEIGHTS.title + WEIGHTS.artists;
+  if (query.durationMs && candidate.durationMs) {
+    const diff = Math.abs(query.durationMs - candidate.durationMs) / 1000;
+    weighted += WEIGHTS.duration * (diff <= 2 ? 1 : diff >= 20 ? 0 : 1 - (diff - 2) / 18);
+    totalWeight += WEIGHTS.duration;
+  }
+  if (query.isrc && candidate.isrc) {
+    weighted += WEIGHTS.isrc * (query.isrc.toUpperCase() === candidate.isrc.toUpperCase() ? 1 : 0);
+    totalWeight += WEIGHTS.isrc;
+  }
+
+  const confidence = artists < 0.5 ? Math.min(weighted / totalWeight, artists) : weighted / totalWeight;
+  return Math.round(confidence * 1000) / 1000;
+}
+
 /**
  * Checks if track artists match expected artist name
- * Source: supabase/functions/validate-track/index.ts
+ * Source: supabase/functions/validate-track/index.ts (scoreCandidate >= MATCH_THRESHOLD)
  */
 function artistsMatch(trackArtists, expectedArtistName) {
-  const expectedArtists = parseArtists(expectedArtistName);
-  const trackArtistNames = trackArtists.map(a => a.name.toLowerCase());
-
-  return expectedArtists.every(expectedArtist =>
-    trackArtistNames.some(trackArtist =>
-      trackArtist.includes(expectedArtist) || expectedArtist.includes(trackArtist)
-    )
-  );
+  const candidate = { title: 'x', artists: trackArtists.map(a => a.name) };
+  return scoreCandidate({ title: 'x', artist: expectedArtistName }, candidate) >= MATCH_THRESHOLD;
 }
 
 /**
@@ -163,6 +845,436 @@ describe('Track Request Validation', () => {
 
 });
 
+describe('Region Resolution', () => {
+
+  test('normalizes country codes and rejects anything else', () => {
+    expect(normalizeRegion(' de ')).toBe('DE');
+    expect(normalizeRegion('gb')).toBe('GB');
+    expect(normalizeRegion('USA')).toBeNull();
+    expect(normalizeRegion(42)).toBeNull();
+  });
+
+  test('prefers request, then profile, then US', () => {
+    expect(regionFor('jp', 'DE')).toEqual({ market: 'JP', storefront: 'jp' });
+    expect(regionFor(undefined, 'DE')).toEqual({ market: 'DE', storefront: 'de' });
+    expect(regionFor('bogus', null)).toEqual({ market: 'US', storefront: 'us' });
+  });
+
+});
+
+describe('Unified Search', () => {
+
+  test('cursor round-trips and rejects garbage', () => {
+    expect(decodeCursor(encodeCursor(40))).toBe(40);
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(btoa(JSON.stringify({ offset: -5 })))).toBeNull();
+  });
+
+  test('keeps the first release of each ISRC', () => {
+    const tracks = dedupeByIsrc([
+      { id: 'single', isrc: 'USUM72000001' },
+      { id: 'album', isrc: 'USUM72000001' },
+      { id: 'local', isrc: null },
+      { id: 'other', isrc: 'GBUM71900002' },
+    ]);
+    expect(tracks.map(t => t.id)).toEqual(['single', 'local', 'other']);
+  });
+
+});
+
+describe('Artist Profile', () => {
+
+  test('infers platform from prefixed and numeric IDs', () => {
+    expect(parseArtistId('spotify:1Xyo4u8uXC1ZmMpatF05PJ')).toEqual({ id: '1Xyo4u8uXC1ZmMpatF05PJ', platform: 'spotify' });
+    expect(parseArtistId('apple:479756766')).toEqual({ id: '479756766', platform: 'apple_music' });
+    expect(parseArtistId('479756766').platform).toBe('apple_music');
+    expect(parseArtistId('1Xyo4u8uXC1ZmMpatF05PJ').platform).toBe('spotify');
+  });
+
+  test('merges genres case-insensitively and drops the catch-all', () => {
+    expect(mergeGenres(['pop', 'r&b'], ['Pop', 'R&B', 'Music', 'Soul'])).toEqual(['pop', 'r&b', 'Soul']);
+  });
+
+});
+
+describe('Discovery Sources', () => {
+
+  const track = (id, extra = {}) => ({
+    id, artistName: 'Artist', albumName: 'Album', albumArtUrl: 'https://img', previewUrl: null, isPlayable: true, ...extra
+  });
+
+  test('drops excluded albums and tracks without artwork', () => {
+    const source = { ordering: 'source', filters: { excludeAlbums: ['All Songs Considered'] } };
+    const kept = applySourceRules(source, [
+      track('a'),
+      track('b', { albumName: 'All Songs Considered' }),
+      track('c', { albumArtUrl: null }),
+    ]);
+    expect(kept.map(t => t.id)).toEqual(['a']);
+  });
+
+  test('orders by popularity and applies per-artist and source caps', () => {
+    const source = { ordering: 'popularity', max_tracks: 2, filters: { maxPerArtist: 1 } };
+    const kept = applySourceRules(source, [
+      track('low', { artistName: 'A', popularity: 10 }),
+      track('high', { artistName: 'A', popularity: 90 }),
+      track('mid', { artistName: 'B', popularity: 50 }),
+      track('other', { artistName: 'C', popularity: 40 }),
+    ]);
+    expect(kept.map(t => t.id)).toEqual(['high', 'mid']);
+  });
+
+});
+
+describe('Chart Trending', () => {
+
+  const chart = keys => keys.map((key, index) => ({ key, rank: index + 1 }));
+
+  test('ranks new entries and climbers by velocity, then the rest in chart order', () => {
+    const baseline = chart(['a', 'b', 'c', 'd']);
+    const current = chart(['a', 'new', 'd', 'b']);
+    const trending = computeTrending(current, baseline);
+
+    expect(trending.map(e => e.key)).toEqual(['new', 'd', 'a', 'b']);
+    expect(trending[0]).toMatchObject({ isNewEntry: true, previousRank: null, rankDelta: null });
+    expect(trending[1]).toMatchObject({ previousRank: 4, rankDelta: 1 });
+    expect(trending[3]).toMatchObject({ previousRank: 2, rankDelta: -2 });
+  });
+
+  test('returns chart order without deltas when there is no baseline', () => {
+    const trending = computeTrending(chart(['a', 'b']), null);
+    expect(trending.map(e => e.key)).toEqual(['a', 'b']);
+    expect(trending.every(e => e.rankDelta === null && !e.isNewEntry)).toBe(true);
+  });
+
+});
+
+describe('Genre Catalog', () => {
+
+  const track = (id, artistId, popularity, images = [{ url: 'x' }]) =>
+    ({ id, popularity, artists: [{ id: artistId }], album: { images } });
+
+  test('round-trips rank cursors and rejects malformed ones', () => {
+    expect(decodeRankCursor(encodeRankCursor(20))).toBe(20);
+    expect(decodeRankCursor('not-a-cursor')).toBeNull();
+    expect(decodeRankCursor(btoa(JSON.stringify({ rank: -1 })))).toBeNull();
+  });
+
+  test('ranks tracks by popularity with at most two per artist', () => {
+    const ranked = rankGenreTracks([
+      track('a1', 'a', 90),
+      track('a2', 'a', 80),
+      track('a3', 'a', 70),
+      track('b1', 'b', 75),
+      track('a1', 'a', 90),
+      track('c1', 'c', 95, []),
+    ]);
+
+    expect(ranked.map(t => t.track_id)).toEqual(['a1', 'a2', 'b1']);
+    expect(ranked.map(t => t.rank)).toEqual([1, 2, 3]);
+  });
+
+});
+
+describe('New Releases', () => {
+
+  const release = (id, name, type, releaseDate, platform = 'spotify', artistName = 'SZA') =>
+    ({ id, name, type, releaseDate, platform, artistName });
+
+  test('drops singles whose song is on an album released in the window, keeping remixes', () => {
+    const releases = [
+      release('s1', 'Saturn', 'single', '2025-02-01'),
+      release('s2', 'Kill Bill (Remix)', 'single', '2025-02-10'),
+      release('a1', 'SOS Deluxe', 'album', '2025-02-20'),
+    ];
+    const titles = new Map([['a1', ['Saturn', 'Kill Bill']]]);
+
+    expect(dedupeReleases(releases, titles, 'spotify').map(r => r.id)).toEqual(['a1', 's2']);
+  });
+
+  test('keeps one copy of a release listed on both platforms, preferring the user\'s', () => {
+    const releases = [
+      release('sp', 'Saturn', 'single', '2025-02-01', 'spotify'),
+      release('am', 'Saturn - Single', 'single', '2025-02-01', 'apple_music'),
+    ];
+
+    expect(dedupeReleases(releases, new Map(), 'apple_music').map(r => r.id)).toEqual(['am']);
+  });
+
+});
+
+describe('Daily Playlist', () => {
+
+  const slot = (userId, position) => ({ userId, position, swappedIn: false });
+
+  test('puts the swapped-in member at the old member\'s position', () => {
+    const members = applyPendingSwaps(
+      [slot('a', 1), slot('b', 2), slot('c', 3)],
+      [{ old_member_id: 'b', new_member_id: 'd', scheduled_for: '2025-03-01T05:00:00Z' }]
+    );
+
+    expect(members.map(m => [m.userId, m.position])).toEqual([['a', 1], ['d', 2], ['c', 3]]);
+    expect(members[1].swappedIn).toBe(true);
+  });
+
+  test('applies removals and chained swaps in scheduled order', () => {
+    const members = applyPendingSwaps(
+      [slot('a', 1), slot('b', 2)],
+      [
+        { old_member_id: 'x', new_member_id: 'y', scheduled_for: '2025-03-01T05:00:00Z' },
+        { old_member_id: 'c', new_member_id: 'e', scheduled_for: '2025-03-02T05:00:00Z' },
+        { old_member_id: 'a', new_member_id: 'c', scheduled_for: '2025-03-01T05:00:00Z' },
+        { old_member_id: 'b', new_member_id: null, scheduled_for: '2025-03-01T05:00:00Z' },
+      ]
+    );
+
+    expect(members.map(m => [m.userId, m.position])).toEqual([['e', 1]]);
+  });
+
+});
+
+describe('Platform Tokens', () => {
+
+  test('accepts a token granted the playlist scope among others', () => {
+    const token = { scope: 'user-read-email playlist-modify-private  user-library-read' };
+    expect(hasScopes(token, ['playlist-modify-private'])).toBe(true);
+  });
+
+  test('rejects tokens stored before the scope was requested', () => {
+    expect(hasScopes({ scope: 'user-read-email playlist-read-private' }, ['playlist-modify-private'])).toBe(false);
+    expect(hasScopes({ scope: null }, ['playlist-modify-private'])).toBe(false);
+  });
+
+  test('refreshes tokens within five minutes of expiry', () => {
+    const now = Date.parse('2025-03-01T12:00:00Z');
+    expect(needsRefresh({ token_expires_at: '2025-03-01T12:10:00Z' }, now)).toBe(false);
+    expect(needsRefresh({ token_expires_at: '2025-03-01T12:04:00Z' }, now)).toBe(true);
+    expect(needsRefresh({ token_expires_at: '2025-03-01T11:00:00Z' }, now)).toBe(true);
+  });
+
+  test('backs off exponentially after failed refreshes, up to a day', () => {
+    const now = Date.parse('2025-03-01T12:00:00Z');
+    expect(refreshRetryAt(1, now)).toBe('2025-03-01T12:02:00.000Z');
+    expect(refreshRetryAt(4, now)).toBe('2025-03-01T12:16:00.000Z');
+    expect(refreshRetryAt(20, now)).toBe('2025-03-02T12:00:00.000Z');
+  });
+
+});
+
+describe('Taste Profile', () => {
+
+  const profile = {
+    artists: [
+      { key: 'sza', name: 'SZA', weight: 1.5 },
+      { key: 'weeknd', name: 'The Weeknd', weight: 0.8 },
+    ],
+    tracks: [{ id: 't1', name: 'Snooze', weight: 1 }],
+  };
+
+  test('keys artist credits by their first artist across platforms', () => {
+    expect(primaryArtistKey('The Weeknd, Daft Punk')).toBe('weeknd');
+    expect(primaryArtistKey('SZA feat. Travis Scott')).toBe('sza');
+  });
+
+  test('counts each shared artist once and weights identical picks higher', () => {
+    const ranked = rankOverlappingUsers(profile, [
+      { sender_id: 'a', track_id: 'x1', track_name: 'Kill Bill', artist_name: 'SZA' },
+      { sender_id: 'a', track_id: 'x2', track_name: 'Good Days', artist_name: 'SZA' },
+      { sender_id: 'b', track_id: 't1', track_name: 'Snooze', artist_name: 'SZA' },
+      { sender_id: 'c', track_id: 'x3', track_name: 'Other', artist_name: 'Someone Else' },
+    ]);
+
+    expect(ranked.map(u => [u.userId, u.score])).toEqual([['b', 3.5], ['a', 1.5]]);
+    expect(ranked[0].sharedTracks).toEqual(['Snooze']);
+    expect(ranked[1].sharedArtists).toEqual(['SZA']);
+  });
+
+});
+
+describe('Taste Compatibility', () => {
+
+  const history = ({ artists = {}, tracks = {}, genres = {}, shareIds = [], saved = [] }) => ({
+    artists: new Map(Object.entries(artists).map(([key, [name, count]]) => [key, { name, count }])),
+    tracks: new Map(Object.entries(tracks)),
+    genres: new Map(Object.entries(genres)),
+    shareIds: new Set(shareIds),
+    savedShareIds: new Set(saved),
+  });
+
+  test('scores shared artists, songs and saves symmetrically with the strongest reason first', () => {
+    const a = history({
+      artists: { 'frank ocean': ['Frank Ocean', 3], sza: ['SZA', 1] },
+      tracks: { 'frank ocean|nights': 'Nights', 'frank ocean|ivy': 'Ivy', 'sza|snooze': 'Snooze' },
+      genres: { 'r&b': 4 },
+      shareIds: ['a1'],
+      saved: ['b1'],
+    });
+    const b = history({
+      artists: { 'frank ocean': ['Frank Ocean', 1], 'kendrick lamar': ['Kendrick Lamar', 2] },
+      tracks: { 'frank ocean|nights': 'Nights', 'kendrick lamar|humble': 'HUMBLE.' },
+      genres: { 'r&b': 1, 'hip hop': 2 },
+      shareIds: ['b1'],
+      saved: ['a1'],
+    });
+
+    const ab = computeCompatibility(a, b);
+    expect(ab.score).toBe(computeCompatibility(b, a).score);
+    expect(ab.components.tracks).toBe(0.5);
+    expect(ab.components.saves).toBe(0.4);
+    expect(ab.explanation[0]).toBe('You both picked 4 Frank Ocean songs');
+    expect(ab.explanation).toContain('You both picked "Nights"');
+    expect(ab.explanation).toContain("You've saved each other's picks 2 times");
+  });
+
+  test('scores users with nothing in common as zero with no explanation', () => {
+    const result = computeCompatibility(
+      history({ artists: { sza: ['SZA', 2] }, tracks: { 'sza|snooze': 'Snooze' }, genres: { 'r&b': 2 } }),
+      history({ artists: { metallica: ['Metallica', 2] }, tracks: { 'metallica|one': 'One' }, genres: { metal: 2 } })
+    );
+
+    expect(result.score).toBe(0);
+    expect(result.explanation).toEqual([]);
+  });
+
+});
+
+describe('Phlock Recommendations', () => {
+
+  const signals = (overrides) => ({
+    youFollow: false,
+    followsYou: false,
+    mutualFollows: 0,
+    inFollowingPhlocks: 0,
+    inYourContacts: false,
+    hasYouInContacts: false,
+    sharedArtists: [],
+    compatibility: null,
+    streak: 0,
+    activeDays: 0,
+    phlockCount: 0,
+    ...overrides,
+  });
+
+  test('ranks a contact with matching taste above a popular stranger, strongest reason first', () => {
+    const friend = scoreRecommendation(signals({
+      inYourContacts: true,
+      followsYou: true,
+      youFollow: true,
+      compatibility: { score: 80, explanation: ['You both picked 4 Frank Ocean songs'] },
+      activeDays: 10,
+      streak: 6,
+    }));
+    const stranger = scoreRecommendation(signals({ mutualFollows: 1, activeDays: 14, streak: 40, phlockCount: 200 }));
+
+    expect(friend.score).toBeGreaterThan(stranger.score);
+    expect(friend.reasons.slice(0, 3)).toEqual(['You both picked 4 Frank Ocean songs', 'In your contacts', 'You follow each other']);
+    expect(friend.reasons).toContain('Picked a song 10 of the last 14 days');
+    expect(stranger.reasons).toContain('Followed by 1 person you follow');
+    expect(stranger.reasons).toContain('In 200 phlocks');
+  });
+
+  test('halves the score of curators who have not picked a song lately', () => {
+    const base = { followsYou: true, mutualFollows: 5, sharedArtists: ['SZA', 'Frank Ocean', 'Drake'] };
+    const active = scoreRecommendation(signals({ ...base, activeDays: 1 }));
+    const inactive = scoreRecommendation(signals(base));
+
+    expect(inactive.score).toBe(16);
+    expect(active.score).toBe(33);
+    expect(inactive.reasons).toContain('You both pick SZA and Frank Ocean');
+  });
+
+  test('ranks on being in their contacts without saying so', () => {
+    const knownBy = scoreRecommendation(signals({ hasYouInContacts: true, activeDays: 14 }));
+    const unknown = scoreRecommendation(signals({ activeDays: 14 }));
+
+    expect(knownBy.score).toBeGreaterThan(unknown.score);
+    expect(knownBy.reasons).toEqual(['Picked a song 14 of the last 14 days']);
+  });
+});
+
+describe('Timezones', () => {
+
+  test('dates an afternoon in California on the local day, not the UTC one', () => {
+    const at = new Date('2025-12-26T01:30:00Z');
+
+    expect(localDate('America/Los_Angeles', at)).toBe('2025-12-25');
+    expect(localDate(null, at)).toBe('2025-12-26');
+    expect(localDate('Asia/Tokyo', new Date('2025-12-25T16:00:00Z'))).toBe('2025-12-26');
+  });
+
+  test('finds local midnight across zones and daylight-saving changes', () => {
+    expect(localMidnight('2025-12-26', 'America/Los_Angeles')).toBe('2025-12-26T08:00:00.000Z');
+    expect(localMidnight('2025-07-01', 'America/Los_Angeles')).toBe('2025-07-01T07:00:00.000Z');
+    expect(localMidnight('2025-03-10', 'America/New_York')).toBe('2025-03-10T04:00:00.000Z');
+    expect(localMidnight('2025-12-26', 'Asia/Kolkata')).toBe('2025-12-25T18:30:00.000Z');
+    expect(localMidnight('2025-12-26', null)).toBe('2025-12-26T00:00:00.000Z');
+  });
+});
+
+describe('Daily Nudges', () => {
+
+  const at = (time) => toMinutes(time);
+
+  test('waits for the nudge time, then stays due for the rest of the day', () => {
+    const prefs = { nudgeTime: '19:00:00', quietStart: null, quietEnd: null };
+
+    expect(isNudgeDue(prefs, at('18:59'))).toBe(false);
+    expect(isNudgeDue(prefs, at('19:00'))).toBe(true);
+    expect(isNudgeDue(prefs, at('23:45'))).toBe(true);
+  });
+
+  test('holds nudges during quiet hours, including windows that wrap past midnight', () => {
+    const evening = { nudgeTime: '19:00:00', quietStart: '18:30:00', quietEnd: '20:00:00' };
+    const overnight = { nudgeTime: '07:00:00', quietStart: '22:00:00', quietEnd: '08:00:00' };
+
+    expect(isNudgeDue(evening, at('19:30'))).toBe(false);
+    expect(isNudgeDue(evening, at('20:00'))).toBe(true);
+    expect(isNudgeDue(overnight, at('07:30'))).toBe(false);
+    expect(isNudgeDue(overnight, at('08:15'))).toBe(true);
+    expect(isNudgeDue(overnight, at('22:10'))).toBe(false);
+  });
+
+  test('releases a nudge time inside overnight quiet hours when they end that morning', () => {
+    const late = { nudgeTime: '23:00:00', quietStart: '22:00:00', quietEnd: '08:00:00' };
+
+    expect(isNudgeDue(late, at('07:59'))).toBe(false);
+    expect(isNudgeDue(late, at('08:00'))).toBe(true);
+    expect(isNudgeDue(late, at('21:59'))).toBe(true);
+    expect(isNudgeDue(late, at('23:00'))).toBe(false);
+  });
+});
+
+describe('Batch Validation', () => {
+
+  test('detects array and { tracks } payloads', () => {
+    expect(parseBatch([{ trackId: 'abc' }]).isBatch).toBe(true);
+    expect(parseBatch({ tracks: [{ isrc: 'USRC12345678' }] }).items).toHaveLength(1);
+    expect(parseBatch({ trackId: 'abc' }).isBatch).toBe(false);
+  });
+
+  test('rejects empty and oversized batches', () => {
+    expect(parseBatch([]).valid).toBe(false);
+    const tooMany = Array.from({ length: MAX_BATCH_SIZE + 1 }, (_, i) => ({ trackId: `t${i}` }));
+    expect(parseBatch(tooMany).error).toContain('between 1 and 50');
+  });
+
+  test('bounds concurrency and keeps result order', async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      active--;
+      return index;
+    });
+
+    expect(peak).toBe(2);
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+  });
+
+});
+
 describe('Artist Parsing', () => {
 
   test('handles single artist', () => {
@@ -212,6 +1324,53 @@ describe('Artist Matching', () => {
 
 });
 
+describe('Track Matching', () => {
+
+  test('strips feat., remaster and punctuation from titles', () => {
+    expect(normalizeTitle('Levitating (feat. DaBaby) - 2021 Remaster')).toBe('levitating');
+    expect(normalizeTitle("Don't Stop Me Now!")).toBe('dont stop me now');
+  });
+
+  test('strips diacritics', () => {
+    expect(normalizeTitle('Déjà Vu')).toBe('deja vu');
+    expect(normalizeArtist('Beyoncé')).toBe('beyonce');
+  });
+
+  test('detects version tags in suffixes only', () => {
+    expect([...versionTags('Levitating - Live')]).toEqual(['live']);
+    expect([...versionTags('Live Forever')]).toEqual([]);
+  });
+
+  test('scores the exact version highest', () => {
+    const query = { title: 'Levitating', artist: 'Dua Lipa ft. DaBaby' };
+    const studio = scoreCandidate(query, { title: 'Levitating (feat. DaBaby)', artists: ['Dua Lipa', 'DaBaby'] });
+    const solo = scoreCandidate(query, { title: 'Levitating', artists: ['Dua Lipa'] });
+    const live = scoreCandidate(query, { title: 'Levitating - Live', artists: ['Dua Lipa', 'DaBaby'] });
+
+    expect(studio).toBe(1);
+    expect(solo).toBeLessThan(studio);
+    expect(live).toBeLessThan(studio);
+  });
+
+  test('caps confidence when the artist is wrong', () => {
+    const confidence = scoreCandidate(
+      { title: 'Blinding Lights', artist: 'The Weeknd' },
+      { title: 'Blinding Lights', artists: ['Cover Band'] }
+    );
+    expect(confidence).toBeLessThan(MATCH_THRESHOLD);
+  });
+
+  test('uses duration and ISRC when available', () => {
+    const query = { title: 'Blinding Lights', artist: 'The Weeknd', durationMs: 200040, isrc: 'USUG11904206' };
+    const exact = scoreCandidate(query, { title: 'Blinding Lights', artists: ['The Weeknd'], durationMs: 200040, isrc: 'USUG11904206' });
+    const edit = scoreCandidate(query, { title: 'Blinding Lights', artists: ['The Weeknd'], durationMs: 170000, isrc: 'USUG12000001' });
+
+    expect(exact).toBe(1);
+    expect(edit).toBeLessThan(0.8);
+  });
+
+});
+
 // ============================================================================
 // INTEGRATION TESTS
 // ============================================================================